@@ -0,0 +1,121 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import PptxGenJS from "pptxgenjs";
+import { parseChartBlock, parseChartData, toChartData, toChartOptions } from "./chart";
+import { DEFAULT_THEME, parseDocument, renderSlides } from "./txt2ppt";
+
+describe("parseChartBlock", () => {
+  it("reads options and inline CSV data", () => {
+    const spec = parseChartBlock(
+      'type: bar\ntitle: Sales\nstacked: true\n---\nQuarter, A, B\nQ1, 1, 2\nQ2, "1,500", 4'
+    );
+    expect(spec).toMatchObject({ kind: "bar", title: "Sales", stacked: true });
+    expect(spec.data).toEqual({
+      categoryLabel: "Quarter",
+      categories: ["Q1", "Q2"],
+      series: [
+        { name: "A", values: [1, 1500] },
+        { name: "B", values: [2, 4] }
+      ]
+    });
+  });
+
+  it("reads Markdown table data without a separator line", () => {
+    const spec = parseChartBlock("type: line\n| Month | Visits |\n|---|---|\n| Jan | 10 |\n| Feb | 12 |");
+    expect(spec.kind).toBe("line");
+    expect(spec.data?.series).toEqual([{ name: "Visits", values: [10, 12] }]);
+  });
+
+  it("accepts a data file instead of inline rows", () => {
+    expect(parseChartBlock("type: pie\ndata: sales.csv")).toMatchObject({ kind: "pie", source: "sales.csv" });
+  });
+
+  it("rejects unknown types, bad numbers and missing data", () => {
+    expect(() => parseChartBlock("type: radar\na, b\nx, 1")).toThrow('Unknown chart type "radar"');
+    expect(() => parseChartBlock("a, b\nx, lots")).toThrow('"lots" in row 2 is not a number');
+    expect(() => parseChartBlock("type: bar")).toThrow("Chart has no data");
+    expect(() => parseChartBlock("type: scatter\nx, y\nlow, 1")).toThrow("numeric values in the first column");
+  });
+});
+
+describe("parseChartData", () => {
+  it("reads JSON arrays of row objects", () => {
+    expect(parseChartData('[{"name":"a","v":1},{"name":"b","v":2}]', "data.json")).toEqual({
+      categoryLabel: "name",
+      categories: ["a", "b"],
+      series: [{ name: "v", values: [1, 2] }]
+    });
+  });
+});
+
+describe("toChartData and toChartOptions", () => {
+  const table = {
+    categoryLabel: "x",
+    categories: ["1", "2"],
+    series: [
+      { name: "a", values: [3, 4] },
+      { name: "b", values: [5, 6] }
+    ]
+  };
+
+  it("keeps only the first series for pie charts and uses x values for scatter", () => {
+    expect(toChartData("pie", table)).toEqual([{ name: "a", labels: ["1", "2"], values: [3, 4] }]);
+    expect(toChartData("scatter", table)[0]).toEqual({ name: "x", values: [1, 2] });
+  });
+
+  it("styles charts from the theme", () => {
+    const options = toChartOptions({ kind: "bar", horizontal: true, data: table }, DEFAULT_THEME, "ja-JP");
+    expect(options).toMatchObject({
+      chartColors: DEFAULT_THEME.palette.accents,
+      barDir: "bar",
+      barGrouping: "clustered",
+      showLegend: true,
+      legendPos: "b"
+    });
+    expect(toChartOptions({ kind: "line", legend: "none" }, DEFAULT_THEME, "ja-JP").showLegend).toBe(false);
+  });
+});
+
+describe("chart blocks", () => {
+  let dir: string;
+
+  beforeAll(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "txt2ppt-chart-"));
+    fs.writeFileSync(path.join(dir, "sales.csv"), "Quarter,Sales\nQ1,5\nQ2,7\n");
+  });
+
+  afterAll(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+  it("reports an invalid chart and shows its source as code instead", () => {
+    const { slides, diagnostics } = parseDocument("# A\n```chart\ntype: radar\na, b\nx, 1\n```\n");
+    expect(slides[0].blocks).toMatchObject([{ type: "code", language: "chart", text: "type: radar\na, b\nx, 1" }]);
+    expect(diagnostics).toMatchObject([{ code: "invalid-chart", severity: "error", line: 2 }]);
+  });
+
+  it("renders a native chart from a data file", async () => {
+    const pptx = new PptxGenJS();
+    const addSlide = pptx.addSlide.bind(pptx);
+    const charts: unknown[][] = [];
+    jest.spyOn(pptx, "addSlide").mockImplementation(props => {
+      const slide = addSlide(props);
+      jest.spyOn(slide, "addChart").mockImplementation((...args: unknown[]) => {
+        charts.push(args);
+        return slide;
+      });
+      return slide;
+    });
+    const { slides } = parseDocument("# A\n```chart\ntype: bar\ndata: sales.csv\n```\n");
+    await renderSlides(pptx, slides, { layout: "LAYOUT_16x9", revision: "1", baseDir: dir });
+    expect(charts).toHaveLength(1);
+    expect(charts[0][0]).toBe("bar");
+    expect(charts[0][1]).toEqual([{ name: "Sales", labels: ["Q1", "Q2"], values: [5, 7] }]);
+  });
+
+  it("fails when a data file is missing", async () => {
+    const { slides } = parseDocument("# A\n```chart\ndata: gone.csv\n```\n");
+    await expect(
+      renderSlides(new PptxGenJS(), slides, { layout: "LAYOUT_16x9", revision: "1", baseDir: dir })
+    ).rejects.toThrow("Chart data file not found: gone.csv");
+  });
+});
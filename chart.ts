@@ -0,0 +1,315 @@
+import PptxGenJS from "pptxgenjs";
+import YAML from "yaml";
+import { Theme } from "./theme";
+
+export type ChartKind = "bar" | "line" | "pie" | "doughnut" | "scatter" | "area";
+
+export type LegendPosition = "top" | "bottom" | "left" | "right" | "none";
+
+/** Categories along the first column and one numeric series per remaining column. */
+export interface ChartTable {
+  categoryLabel: string;
+  categories: string[];
+  series: Array<{ name: string; values: number[] }>;
+}
+
+export interface ChartSpec {
+  kind: ChartKind;
+  title?: string;
+  /** Category (x) axis title. */
+  xLabel?: string;
+  /** Value (y) axis title. */
+  yLabel?: string;
+  legend?: LegendPosition;
+  /** Horizontal bars instead of columns. */
+  horizontal?: boolean;
+  stacked?: boolean;
+  /** Print the value of each data point. */
+  values?: boolean;
+  /** Height in inches; the chart otherwise takes the default height or what is left on the slide. */
+  height?: number;
+  /** Inline data from the fenced block. */
+  data?: ChartTable;
+  /** Local CSV or JSON file with the data, relative to the Markdown file. */
+  source?: string;
+}
+
+const CHART_KINDS: ChartKind[] = ["bar", "line", "pie", "doughnut", "scatter", "area"];
+const LEGEND_POSITIONS: Record<LegendPosition, PptxGenJS.IChartPropsLegend["legendPos"] | undefined> = {
+  top: "t",
+  bottom: "b",
+  left: "l",
+  right: "r",
+  none: undefined
+};
+const OPTION_LINE_REGEX = /^[A-Za-z][\w-]*:(\s|$)/;
+const CHART_FONT_SIZE = 12;
+const CHART_TITLE_FONT_SIZE = 16;
+
+/** Reads `key: value` option lines, optionally closed by `---`, then the data as CSV or a Markdown table. */
+export function parseChartBlock(source: string): ChartSpec {
+  const lines = source.split("\n");
+  let split = lines.findIndex(line => !OPTION_LINE_REGEX.test(line.trim()) && line.trim() !== "");
+  if (split < 0) {
+    split = lines.length;
+  }
+  const separator = lines[split]?.trim() === "---";
+  const options = parseOptions(lines.slice(0, split).join("\n"));
+  const dataText = lines.slice(separator ? split + 1 : split).join("\n");
+
+  const kind = String(options.type ?? "bar").toLowerCase() as ChartKind;
+  if (!CHART_KINDS.includes(kind)) {
+    throw new Error(`Unknown chart type "${options.type}" (expected ${CHART_KINDS.join(", ")})`);
+  }
+  const legend = options.legend === false ? "none" : options.legend;
+  if (legend !== undefined && !(String(legend) in LEGEND_POSITIONS)) {
+    throw new Error(`Unknown legend position "${legend}" (expected ${Object.keys(LEGEND_POSITIONS).join(", ")})`);
+  }
+  const height = options.height === undefined ? undefined : Number(options.height);
+  if (height !== undefined && !(height > 0)) {
+    throw new Error(`Chart height must be a positive number of inches`);
+  }
+
+  const spec: ChartSpec = {
+    kind,
+    title: optionalString(options.title),
+    xLabel: optionalString(options.x ?? options.xLabel),
+    yLabel: optionalString(options.y ?? options.yLabel),
+    legend: legend as LegendPosition | undefined,
+    horizontal: options.direction === "horizontal" || options.horizontal === true,
+    stacked: options.stacked === true,
+    values: options.values === true,
+    height,
+    source: optionalString(options.data)
+  };
+
+  if (dataText.trim()) {
+    spec.data = parseChartData(dataText, "inline data");
+    toChartData(kind, spec.data);
+  } else if (!spec.source) {
+    throw new Error("Chart has no data; add CSV rows or a `data: file.csv` line");
+  }
+  return spec;
+}
+
+/** Writes a chart back as option lines, `---` and the data as CSV. */
+export function serializeChartBlock(spec: ChartSpec): string {
+  const options: Record<string, unknown> = { type: spec.kind };
+  const optional: Array<[string, unknown]> = [
+    ["title", spec.title],
+    ["x", spec.xLabel],
+    ["y", spec.yLabel],
+    ["legend", spec.legend],
+    ["direction", spec.horizontal ? "horizontal" : undefined],
+    ["stacked", spec.stacked || undefined],
+    ["values", spec.values || undefined],
+    ["height", spec.height],
+    ["data", spec.source]
+  ];
+  optional.forEach(([key, value]) => {
+    if (value !== undefined) {
+      options[key] = value;
+    }
+  });
+  const lines = [YAML.stringify(options, { lineWidth: 0 }).trimEnd()];
+  if (spec.data) {
+    const { categoryLabel, categories, series } = spec.data;
+    lines.push("---", toCsvLine([categoryLabel, ...series.map(entry => entry.name)]));
+    categories.forEach((category, row) => {
+      lines.push(toCsvLine([category, ...series.map(entry => String(entry.values[row]))]));
+    });
+  }
+  return lines.join("\n");
+}
+
+export function parseChartData(text: string, sourceName: string): ChartTable {
+  const rows = /\.json$/i.test(sourceName) ? jsonRows(text, sourceName) : textRows(text);
+  if (rows.length < 2 || rows[0].length < 2) {
+    throw new Error(`Chart data in ${sourceName} needs a header row and at least one data row with two columns`);
+  }
+
+  const [header, ...body] = rows;
+  const series = header.slice(1).map((name, column) => ({
+    name,
+    values: body.map((row, rowIndex) => {
+      const cell = (row[column + 1] ?? "").replace(/[,\s]/g, "");
+      const value = cell === "" ? 0 : Number(cell);
+      if (!Number.isFinite(value)) {
+        throw new Error(`Chart data in ${sourceName}: "${row[column + 1]}" in row ${rowIndex + 2} is not a number`);
+      }
+      return value;
+    })
+  }));
+  return { categoryLabel: header[0], categories: body.map(row => row[0] ?? ""), series };
+}
+
+/** Scatter charts take the categories as x values, which therefore have to be numeric. */
+export function toChartData(kind: ChartKind, table: ChartTable): PptxGenJS.OptsChartData[] {
+  if (kind === "scatter") {
+    const xValues = table.categories.map(category => Number(category));
+    if (xValues.some(value => !Number.isFinite(value))) {
+      throw new Error("Scatter charts need numeric values in the first column");
+    }
+    return [
+      { name: table.categoryLabel, values: xValues },
+      ...table.series.map(series => ({ name: series.name, values: series.values }))
+    ];
+  }
+  const series = kind === "pie" || kind === "doughnut" ? table.series.slice(0, 1) : table.series;
+  return series.map(entry => ({ name: entry.name, labels: table.categories, values: entry.values }));
+}
+
+export function toChartOptions(spec: ChartSpec, theme: Theme, lang: string): PptxGenJS.IChartOpts {
+  const round = spec.kind === "pie" || spec.kind === "doughnut";
+  const legend = spec.legend ?? (round || (spec.data?.series.length ?? 2) > 1 ? "bottom" : "none");
+  const textColor = theme.palette.text;
+  const font = theme.body.fontFace;
+  const options: PptxGenJS.IChartOpts = {
+    lang,
+    chartColors: theme.palette.accents,
+    showLegend: legend !== "none",
+    legendPos: LEGEND_POSITIONS[legend],
+    legendFontFace: font,
+    legendFontSize: CHART_FONT_SIZE,
+    legendColor: textColor,
+    showValue: spec.values,
+    dataLabelColor: textColor,
+    dataLabelFontFace: font,
+    dataLabelFontSize: CHART_FONT_SIZE
+  };
+
+  if (spec.title) {
+    Object.assign(options, {
+      showTitle: true,
+      title: spec.title,
+      titleFontFace: theme.title.fontFace,
+      titleFontSize: CHART_TITLE_FONT_SIZE,
+      titleColor: theme.title.color
+    });
+  }
+
+  if (round) {
+    options.showPercent = !spec.values;
+    options.holeSize = spec.kind === "doughnut" ? 50 : undefined;
+    return options;
+  }
+
+  Object.assign(options, {
+    catAxisLabelFontFace: font,
+    catAxisLabelFontSize: CHART_FONT_SIZE,
+    catAxisLabelColor: textColor,
+    valAxisLabelFontFace: font,
+    valAxisLabelFontSize: CHART_FONT_SIZE,
+    valAxisLabelColor: textColor
+  });
+  if (spec.xLabel) {
+    Object.assign(options, {
+      showCatAxisTitle: true,
+      catAxisTitle: spec.xLabel,
+      catAxisTitleFontFace: font,
+      catAxisTitleColor: textColor
+    });
+  }
+  if (spec.yLabel) {
+    Object.assign(options, {
+      showValAxisTitle: true,
+      valAxisTitle: spec.yLabel,
+      valAxisTitleFontFace: font,
+      valAxisTitleColor: textColor
+    });
+  }
+  if (spec.kind === "bar") {
+    options.barDir = spec.horizontal ? "bar" : "col";
+    options.barGrouping = spec.stacked ? "stacked" : "clustered";
+  }
+  if (spec.kind === "area" && spec.stacked) {
+    options.barGrouping = "stacked";
+  }
+  if (spec.kind === "scatter") {
+    options.lineSize = 0;
+  }
+  return options;
+}
+
+function parseOptions(text: string): Record<string, unknown> {
+  if (!text.trim()) {
+    return {};
+  }
+  let parsed: unknown;
+  try {
+    parsed = YAML.parse(text);
+  } catch (error) {
+    throw new Error(`Invalid chart options: ${(error as Error).message}`);
+  }
+  return typeof parsed === "object" && parsed !== null ? (parsed as Record<string, unknown>) : {};
+}
+
+function optionalString(value: unknown): string | undefined {
+  return value === undefined || value === null || value === "" ? undefined : String(value);
+}
+
+function textRows(text: string): string[][] {
+  return text
+    .split("\n")
+    .map(line => line.trim())
+    .filter(line => line && !/^\|?[\s:|-]+\|?$/.test(line))
+    .map(line => (line.startsWith("|") ? splitTableLine(line) : splitCsvLine(line)));
+}
+
+function splitTableLine(line: string): string[] {
+  return line
+    .replace(/^\||\|$/g, "")
+    .split("|")
+    .map(cell => cell.trim());
+}
+
+/** Splits on commas, or on tabs when the line has any, honouring double quotes. */
+export function splitCsvLine(line: string): string[] {
+  const delimiter = line.includes("\t") ? "\t" : ",";
+  const cells: string[] = [];
+  let cell = "";
+  let quoted = false;
+  for (let index = 0; index < line.length; index += 1) {
+    const char = line[index];
+    if (quoted) {
+      if (char === '"' && line[index + 1] === '"') {
+        cell += '"';
+        index += 1;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      cells.push(cell.trim());
+      cell = "";
+    } else {
+      cell += char;
+    }
+  }
+  cells.push(cell.trim());
+  return cells;
+}
+
+function toCsvLine(cells: string[]): string {
+  return cells.map(cell => (/[",]|^\s|\s$/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell)).join(", ");
+}
+
+function jsonRows(text: string, sourceName: string): string[][] {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch (error) {
+    throw new Error(`Invalid chart data in ${sourceName}: ${(error as Error).message}`);
+  }
+  if (!Array.isArray(parsed) || parsed.length === 0 || typeof parsed[0] !== "object" || parsed[0] === null) {
+    throw new Error(`Chart data in ${sourceName} must be an array of objects`);
+  }
+  const keys = Object.keys(parsed[0] as Record<string, unknown>);
+  return [
+    keys,
+    ...parsed.map(row => keys.map(key => String((row as Record<string, unknown>)[key] ?? "")))
+  ];
+}
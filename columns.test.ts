@@ -0,0 +1,40 @@
+import PptxGenJS from "pptxgenjs";
+import { parseSlides, renderSlides } from "./txt2ppt";
+
+const MARKDOWN = "# Compare\n\n:::columns 2:1\n:::column\nLeft text\n:::column\n- right\n:::\n\nAfter";
+
+describe(":::columns", () => {
+  it("parses columns with their ratios and blocks", () => {
+    const [slide] = parseSlides(MARKDOWN);
+    expect(slide.blocks.map(block => block.type)).toEqual(["columns", "paragraph"]);
+    const [columns] = slide.blocks;
+    expect(columns.type === "columns" && columns.columns.map(column => column.ratio)).toEqual([2, 1]);
+    expect(columns.type === "columns" && columns.columns.map(column => column.blocks[0].type)).toEqual([
+      "paragraph",
+      "bullets"
+    ]);
+  });
+
+  it("places the columns side by side in proportion to their ratios", async () => {
+    const pptx = new PptxGenJS();
+    const addSlide = pptx.addSlide.bind(pptx);
+    const boxes: PptxGenJS.TextPropsOptions[] = [];
+    jest.spyOn(pptx, "addSlide").mockImplementation(props => {
+      const slide = addSlide(props);
+      const addText = slide.addText.bind(slide);
+      jest.spyOn(slide, "addText").mockImplementation((text, options) => {
+        boxes.push(options ?? {});
+        return addText(text, options);
+      });
+      return slide;
+    });
+    await renderSlides(pptx, parseSlides(MARKDOWN), { layout: "LAYOUT_16x9", revision: "1" });
+
+    // The title, the two columns, then the paragraph below them.
+    const [, left, right, after] = boxes;
+    expect(Number(left.y)).toBeCloseTo(Number(right.y));
+    expect(Number(right.x)).toBeGreaterThan(Number(left.x) + Number(left.w));
+    expect(Number(left.w) / Number(right.w)).toBeCloseTo(2);
+    expect(Number(after.y)).toBeGreaterThan(Number(left.y));
+  });
+});
@@ -0,0 +1,91 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import PptxGenJS from "pptxgenjs";
+import { AssetRequest, Diagnostic, MissingAssetError, Txt2PptError, convert } from "./txt2ppt";
+
+const PNG = Buffer.from(
+  "iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mNkYAAAAAYAAjCB0C8AAAAASUVORK5CYII=",
+  "base64"
+);
+
+describe("convert", () => {
+  let dir: string;
+
+  beforeAll(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "txt2ppt-convert-"));
+    fs.writeFileSync(path.join(dir, "bad.csv"), "Quarter,Sales\nQ1,lots\n");
+    fs.writeFileSync(path.join(dir, "bad-theme.yaml"), "title: [");
+  });
+
+  afterAll(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+  beforeEach(() => {
+    // Writing the zip needs dynamic imports that jest does not provide; the layout is what is under test.
+    jest.spyOn(PptxGenJS.prototype, "write").mockResolvedValue(Buffer.from("pptx"));
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  async function codeOf(promise: Promise<unknown>): Promise<string | undefined> {
+    try {
+      await promise;
+    } catch (error) {
+      expect(error).toBeInstanceOf(Txt2PptError);
+      return (error as Txt2PptError).code;
+    }
+    return undefined;
+  }
+
+  it("returns the written deck and passes the parser diagnostics on", async () => {
+    const diagnostics: Diagnostic[] = [];
+    const output = await convert("Intro\n# A\nBody\n", { diagnostics, output: "uint8array" });
+    expect(Buffer.from(output).toString()).toBe("pptx");
+    expect(Buffer.isBuffer(output)).toBe(false);
+    expect(diagnostics).toMatchObject([{ code: "content-before-heading" }]);
+  });
+
+  it("asks the asset resolver before the file system", async () => {
+    const requests: AssetRequest[] = [];
+    await convert("# A\n![x](virtual/dot.png)\n", {
+      baseDir: dir,
+      resolveAsset: request => {
+        requests.push(request);
+        return PNG;
+      }
+    });
+    expect(requests).toEqual([
+      { path: "virtual/dot.png", resolvedPath: path.join(dir, "virtual/dot.png"), kind: "image" }
+    ]);
+  });
+
+  it("rejects input without slides", async () => {
+    expect(await codeOf(convert(""))).toBe("invalid-input");
+  });
+
+  it("rejects unsupported options from the front matter", async () => {
+    expect(await codeOf(convert("---\nlayout: LAYOUT_2x1\n---\n# A\n"))).toBe("invalid-option");
+    expect(await codeOf(convert("---\nnotes: everywhere\n---\n# A\n"))).toBe("invalid-option");
+  });
+
+  it("lists every missing asset", async () => {
+    const error = await convert("# A\n![a](a.png)\n>bg: b.png\n", { baseDir: dir }).catch(caught => caught);
+    expect(error).toBeInstanceOf(MissingAssetError);
+    expect(error.code).toBe("missing-asset");
+    expect(error.assets).toEqual([expect.stringMatching(/^a\.png /), expect.stringMatching(/^b\.png /)]);
+  });
+
+  it("reports chart data, theme and template problems with their own codes", async () => {
+    expect(await codeOf(convert("# A\n```chart\ndata: bad.csv\n```\n", { baseDir: dir }))).toBe("invalid-chart-data");
+    expect(await codeOf(convert("# A\n", { baseDir: dir, theme: "bad-theme.yaml" }))).toBe("invalid-theme");
+    expect(await codeOf(convert("# A\n", { theme: "no-such-theme" }))).toBe("invalid-theme");
+    expect(await codeOf(convert("# A\n", { baseDir: dir, template: "bad.csv" }))).toBe("invalid-template");
+  });
+
+  it("rejects an unknown >layout: with the slide and line that ask for it", async () => {
+    const error = await convert("# A\n\n# B\n>layout: missing\n").catch(caught => caught);
+    expect(error).toBeInstanceOf(Txt2PptError);
+    expect(error.code).toBe("unknown-layout");
+    expect(error.message).toContain('Unknown slide layout "missing" on slide 2 "B", line 3');
+  });
+});
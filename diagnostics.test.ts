@@ -0,0 +1,133 @@
+import { spawnSync } from "child_process";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import PptxGenJS from "pptxgenjs";
+import { createReport, formatDiagnostic, formatReport } from "./diagnostics";
+import { Diagnostic, parseDocument, renderSlides } from "./txt2ppt";
+
+describe("parser diagnostics", () => {
+  it("reports problems with their source positions", () => {
+    const source = [
+      "Intro before any heading",
+      "# Table",
+      "| a | b |",
+      "| 1 |",
+      ...Array.from({ length: 10 }, (_, depth) => `${"  ".repeat(depth)}- level ${depth}`),
+      ">bg:",
+      ">layout:",
+      "```ts",
+      "never closed"
+    ].join("\n");
+    const { slides, diagnostics } = parseDocument(source);
+    expect(slides.map(slide => slide.title)).toEqual(["Slide 1", "Table"]);
+    expect(diagnostics.map(({ code, severity, line, column, slide }) => ({ code, severity, line, column, slide })))
+      .toEqual([
+        { code: "content-before-heading", severity: "warning", line: 1, column: 1, slide: 1 },
+        { code: "ragged-table", severity: "warning", line: 4, column: 1, slide: 2 },
+        { code: "bullet-too-deep", severity: "warning", line: 14, column: 19, slide: 2 },
+        { code: "empty-background", severity: "warning", line: 15, column: 1, slide: 2 },
+        { code: "empty-layout", severity: "warning", line: 16, column: 1, slide: 2 },
+        { code: "unclosed-code-fence", severity: "error", line: 17, column: 1, slide: 2 }
+      ]);
+  });
+
+  it("reports an unclosed notes comment", () => {
+    const { diagnostics } = parseDocument("# A\n<!-- notes\nstill open\n");
+    expect(diagnostics).toMatchObject([{ code: "unclosed-notes", severity: "error", line: 2 }]);
+  });
+
+  it("records block positions", () => {
+    const { slides } = parseDocument("# A\n\n  Para\n\n- item\n");
+    expect(slides[0].position).toEqual({ line: 1, column: 1 });
+    expect(slides[0].blocks.map(block => block.position)).toEqual([
+      { line: 3, column: 3 },
+      { line: 5, column: 1 }
+    ]);
+  });
+});
+
+describe("render diagnostics", () => {
+  it("collects missing images, unknown layouts and overflow instead of throwing", async () => {
+    const rows = Array.from({ length: 40 }, (_, index) => `| ${index} | row |`).join("\n");
+    const { slides } = parseDocument(`# A\n>layout: nope\n![x](missing.png)\n\n# B\n| a | b |\n|---|---|\n${rows}\n`);
+    const diagnostics: Diagnostic[] = [];
+    await renderSlides(new PptxGenJS(), slides, { layout: "LAYOUT_16x9", revision: "1", diagnostics });
+    expect(diagnostics).toEqual(
+      expect.arrayContaining([
+        expect.objectContaining({ code: "unknown-layout", severity: "error", slide: 1, line: 1 }),
+        expect.objectContaining({ code: "missing-image", severity: "error", slide: 1, line: 3 }),
+        expect.objectContaining({ code: "slide-overflow", severity: "warning", slide: 2 })
+      ])
+    );
+  });
+
+  it("throws for missing images when diagnostics are not collected", async () => {
+    const { slides } = parseDocument("# A\n![x](missing.png)\n");
+    await expect(renderSlides(new PptxGenJS(), slides, { layout: "LAYOUT_16x9", revision: "1" })).rejects.toThrow(
+      "Image file not found"
+    );
+  });
+});
+
+describe("reports", () => {
+  const diagnostics: Diagnostic[] = [
+    { severity: "warning", code: "ragged-table", message: "Ragged", line: 4, column: 1, slide: 1 },
+    { severity: "error", code: "missing-image", message: "Missing", line: 2, column: 3, slide: 1 },
+    { severity: "warning", code: "slide-overflow", message: "Overflow" }
+  ];
+
+  it("sorts by position and counts severities", () => {
+    const report = createReport("deck.md", diagnostics);
+    expect(report.diagnostics.map(diagnostic => diagnostic.code)).toEqual([
+      "missing-image",
+      "ragged-table",
+      "slide-overflow"
+    ]);
+    expect(report).toMatchObject({ file: "deck.md", errorCount: 1, warningCount: 2 });
+  });
+
+  it("formats diagnostics like a compiler", () => {
+    expect(formatDiagnostic(diagnostics[1], "deck.md")).toBe("deck.md:2:3: error [missing-image] Missing");
+    expect(formatDiagnostic(diagnostics[2], "deck.md")).toBe("deck.md: warning [slide-overflow] Overflow");
+    expect(formatReport(createReport("deck.md", diagnostics)).split("\n").pop()).toBe("1 error(s), 2 warning(s)");
+  });
+});
+
+describe("--check", () => {
+  let dir: string;
+
+  beforeAll(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "txt2ppt-check-"));
+  });
+
+  afterAll(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+  function runCheck(markdown: string): { status: number | null; stdout: string } {
+    const inPath = path.join(dir, "deck.md");
+    fs.writeFileSync(inPath, markdown);
+    const result = spawnSync(
+      process.execPath,
+      [require.resolve("ts-node/dist/bin"), "-T", "txt2ppt.ts", "--in", inPath, "--check", "--json"],
+      { cwd: __dirname, encoding: "utf8" }
+    );
+    return { status: result.status, stdout: result.stdout };
+  }
+
+  it("prints a JSON report without writing a deck and fails on errors", () => {
+    const { status, stdout } = runCheck("# A\n![x](missing.png)\n");
+    expect(status).toBe(1);
+    expect(JSON.parse(stdout)).toMatchObject({
+      errorCount: 1,
+      warningCount: 0,
+      diagnostics: [{ code: "missing-image", line: 2, slide: 1 }]
+    });
+    expect(fs.readdirSync(dir)).toEqual(["deck.md"]);
+  }, 60000);
+
+  it("exits successfully when there are only warnings", () => {
+    const { status, stdout } = runCheck("# A\n| a | b |\n| 1 |\n");
+    expect(status).toBe(0);
+    expect(JSON.parse(stdout)).toMatchObject({ errorCount: 0, warningCount: 1 });
+  }, 60000);
+});
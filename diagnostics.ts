@@ -0,0 +1,76 @@
+import path from "path";
+
+export type DiagnosticSeverity = "error" | "warning";
+
+export type DiagnosticCode =
+  | "content-before-heading"
+  | "unclosed-code-fence"
+  | "unclosed-notes"
+  | "ragged-table"
+  | "invalid-table-merge"
+  | "bullet-too-deep"
+  | "empty-background"
+  | "empty-layout"
+  | "empty-section"
+  | "invalid-directive"
+  | "unknown-layout"
+  | "missing-image"
+  | "invalid-chart"
+  | "missing-chart-data"
+  | "invalid-diagram"
+  | "slide-overflow"
+  | "block-too-large"
+  | "missing-include"
+  | "include-cycle"
+  | "unknown-variable"
+  | "invalid-loop";
+
+export interface Diagnostic {
+  severity: DiagnosticSeverity;
+  code: DiagnosticCode;
+  message: string;
+  /** File the line is in, when it is not the main input (an included file or a later `--in`). */
+  file?: string;
+  /** 1-based source line, when the problem can be tied to one. */
+  line?: number;
+  column?: number;
+  /** 1-based index of the source slide. */
+  slide?: number;
+}
+
+export interface DiagnosticReport {
+  file: string;
+  errorCount: number;
+  warningCount: number;
+  diagnostics: Diagnostic[];
+}
+
+export function createReport(file: string, diagnostics: Diagnostic[]): DiagnosticReport {
+  const sorted = [...diagnostics].sort(
+    (a, b) =>
+      (a.file ?? "").localeCompare(b.file ?? "") ||
+      (a.line ?? Infinity) - (b.line ?? Infinity) ||
+      (a.column ?? 0) - (b.column ?? 0)
+  );
+  return {
+    file,
+    errorCount: sorted.filter(diagnostic => diagnostic.severity === "error").length,
+    warningCount: sorted.filter(diagnostic => diagnostic.severity === "warning").length,
+    diagnostics: sorted
+  };
+}
+
+/** `file:line:column: severity [code] message`, which editors and CI logs link to the source. */
+export function formatDiagnostic(diagnostic: Diagnostic, mainFile: string): string {
+  const file = diagnostic.file ? path.relative(process.cwd(), diagnostic.file) : mainFile;
+  const location = diagnostic.line
+    ? `${file}:${diagnostic.line}${diagnostic.column ? `:${diagnostic.column}` : ""}`
+    : file;
+  return `${location}: ${diagnostic.severity} [${diagnostic.code}] ${diagnostic.message}`;
+}
+
+export function formatReport(report: DiagnosticReport): string {
+  const lines = report.diagnostics.map(diagnostic => formatDiagnostic(diagnostic, report.file));
+  lines.push(`${report.errorCount} error(s), ${report.warningCount} warning(s)`);
+  return lines.join("\n");
+}
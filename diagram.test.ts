@@ -0,0 +1,92 @@
+import { DiagramSpec, layoutDiagram, naturalDiagramHeight, parseDiagram } from "./diagram";
+import { parseDocument } from "./txt2ppt";
+
+describe("parseDiagram", () => {
+  it("reads flowchart nodes, shapes and chained edges", () => {
+    const spec = parseDiagram(
+      "flowchart LR\nA[Start] --> B{Ok?}\nB -- yes --> C((Done))\nB -.->|no| A %% retry\nC === D[(DB)]"
+    );
+    expect(spec).toEqual({
+      kind: "flowchart",
+      direction: "LR",
+      nodes: [
+        { id: "A", label: "Start", shape: "rect" },
+        { id: "B", label: "Ok?", shape: "diamond" },
+        { id: "C", label: "Done", shape: "circle" },
+        { id: "D", label: "DB", shape: "database" }
+      ],
+      edges: [
+        { from: "A", to: "B", label: undefined, style: "solid", arrow: true },
+        { from: "B", to: "C", label: "yes", style: "solid", arrow: true },
+        { from: "B", to: "A", label: "no", style: "dashed", arrow: true },
+        { from: "C", to: "D", label: undefined, style: "thick", arrow: false }
+      ]
+    });
+  });
+
+  it("reads sequence participants and messages", () => {
+    const spec = parseDiagram("sequence\nparticipant U as User\nU ->> S: request\nS -->> U: response");
+    expect(spec).toEqual({
+      kind: "sequence",
+      participants: [
+        { id: "U", label: "User", shape: "rect" },
+        { id: "S", label: "S", shape: "rect" }
+      ],
+      messages: [
+        { from: "U", to: "S", label: "request", style: "solid", arrow: true },
+        { from: "S", to: "U", label: "response", style: "dashed", arrow: true }
+      ]
+    });
+  });
+
+  it("names the offending line", () => {
+    expect(() => parseDiagram("pie")).toThrow('Diagram must start with "flowchart TD|LR|BT|RL" or "sequence"');
+    expect(() => parseDiagram("graph TD\nA ~~ B")).toThrow('diagram line "A ~~ B"');
+    expect(() => parseDiagram("sequence\nA to B")).toThrow('diagram line "A to B"');
+  });
+});
+
+describe("layoutDiagram", () => {
+  const chain = parseDiagram("graph TD\nA --> B\nA --> C\nB --> D\nC --> D\nD --> A");
+
+  it("ranks nodes by longest path and ignores edges that close a cycle", () => {
+    const layout = layoutDiagram(chain, 6, 3);
+    const y = Object.fromEntries(layout.nodes.map(node => [node.id, node.y]));
+    expect(y.A).toBeLessThan(y.B);
+    expect(y.B).toBeCloseTo(y.C);
+    expect(y.D).toBeGreaterThan(y.B);
+    expect(layout.segments).toHaveLength(5);
+  });
+
+  it("keeps every node inside the area", () => {
+    [chain, parseDiagram("flowchart RL\nA --> B --> C")].forEach((spec: DiagramSpec) => {
+      layoutDiagram(spec, 6, 2).nodes.forEach(node => {
+        expect(node.x).toBeGreaterThanOrEqual(0);
+        expect(node.y).toBeGreaterThanOrEqual(0);
+        expect(node.x + node.w).toBeLessThanOrEqual(6);
+        expect(node.y + node.h).toBeLessThanOrEqual(2);
+      });
+    });
+  });
+
+  it("reverses the order for RL flowcharts", () => {
+    const layout = layoutDiagram(parseDiagram("flowchart RL\nA --> B"), 6, 2);
+    const [a, b] = layout.nodes;
+    expect(a.x).toBeGreaterThan(b.x);
+  });
+
+  it("draws lifelines and one arrow per sequence message", () => {
+    const spec = parseDiagram("sequence\nA ->> B: one\nB ->> A: two");
+    const layout = layoutDiagram(spec, 6, naturalDiagramHeight(spec));
+    expect(layout.segments).toHaveLength(4);
+    expect(layout.labels.map(label => label.text)).toEqual(["one", "two"]);
+  });
+});
+
+describe("diagram blocks", () => {
+  it("parses a diagram fence and reports syntax errors", () => {
+    const { slides, diagnostics } = parseDocument("# A\n```diagram\ngraph TD\nA --> B\n```\n```diagram\nnope\n```\n");
+    expect(slides[0].blocks[0]).toMatchObject({ type: "diagram", diagram: { kind: "flowchart" } });
+    expect(diagnostics).toMatchObject([{ code: "invalid-diagram", severity: "error", line: 6 }]);
+  });
+});
@@ -0,0 +1,530 @@
+import PptxGenJS from "pptxgenjs";
+import { Theme } from "./theme";
+
+// A Mermaid-like subset for flowcharts and sequence diagrams, drawn with native shapes so it stays editable.
+
+export type FlowDirection = "TD" | "LR" | "BT" | "RL";
+export type NodeShape = "rect" | "round" | "diamond" | "circle" | "database";
+export type EdgeStyle = "solid" | "dashed" | "thick";
+
+export interface DiagramNode {
+  id: string;
+  label: string;
+  shape: NodeShape;
+}
+
+export interface DiagramEdge {
+  from: string;
+  to: string;
+  label?: string;
+  style: EdgeStyle;
+  arrow: boolean;
+}
+
+export type DiagramSpec =
+  | { kind: "flowchart"; direction: FlowDirection; nodes: DiagramNode[]; edges: DiagramEdge[] }
+  | { kind: "sequence"; participants: DiagramNode[]; messages: DiagramEdge[] };
+
+interface Box {
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+}
+
+interface PlacedNode extends DiagramNode, Box {}
+
+interface Segment {
+  x1: number;
+  y1: number;
+  x2: number;
+  y2: number;
+  style: EdgeStyle;
+  arrow: boolean;
+}
+
+/** Shapes, lines and labels in inches relative to the diagram's top-left corner. */
+export interface DiagramLayout {
+  nodes: PlacedNode[];
+  segments: Segment[];
+  labels: Array<Box & { text: string }>;
+  fontSize: number;
+}
+
+const FLOW_HEADER_REGEX = /^(?:flowchart|graph)(?:\s+(TD|TB|LR|RL|BT))?$/i;
+const SEQUENCE_HEADER_REGEX = /^sequence(?:Diagram)?$/i;
+/** Node label; quoted labels may contain the closing bracket of their shape. */
+const LABEL = /("[^"]*"|.*?)/.source;
+const NODE_REGEX = new RegExp(
+  String.raw`^([\w\u0080-\uFFFF]+)\s*(?:\(\(${LABEL}\)\)|\[\(${LABEL}\)\]|\[${LABEL}\]|\(${LABEL}\)|\{${LABEL}\})?`
+);
+const EDGE_REGEX = /^\s*(?:(--|==|-\.)\s+(.+?)\s+(-->|==>|\.->)|(-->|---|-\.->|-\.-|==>|===))\s*(?:\|([^|]*)\|)?\s*/;
+const PARTICIPANT_REGEX = /^(?:participant|actor)\s+([^\s]+)(?:\s+as\s+(.+))?$/i;
+const MESSAGE_REGEX = /^(.+?)\s*(-->>|->>|-->|->)\s*(.+?)\s*:\s*(.*)$/;
+
+const MAX_FONT_SIZE = 14;
+const MIN_FONT_SIZE = 9;
+const MAX_NODE_WIDTH = 2.4;
+const MAX_NODE_HEIGHT = 0.7;
+const PARTICIPANT_HEIGHT = 0.45;
+const LABEL_HEIGHT = 0.26;
+const MIN_DIAGRAM_HEIGHT = 1.2;
+const MAX_DIAGRAM_HEIGHT = 3.8;
+
+const SHAPE_NAMES: Record<NodeShape, PptxGenJS.SHAPE_NAME> = {
+  rect: "rect",
+  round: "roundRect",
+  diamond: "diamond",
+  circle: "ellipse",
+  database: "can"
+};
+
+const SHAPE_BRACKETS: Record<NodeShape, [string, string]> = {
+  rect: ["[", "]"],
+  round: ["(", ")"],
+  diamond: ["{", "}"],
+  circle: ["((", "))"],
+  database: ["[(", ")]"]
+};
+
+/** Arrow with and without an arrowhead for each edge style. */
+const EDGE_ARROWS: Record<EdgeStyle, [string, string]> = {
+  solid: ["-->", "---"],
+  dashed: ["-.->", "-.-"],
+  thick: ["==>", "==="]
+};
+
+/** The first line selects the kind (`flowchart LR`, `graph TD`, `sequence`); `%%` starts a comment. */
+export function parseDiagram(source: string): DiagramSpec {
+  const lines = source
+    .split("\n")
+    .map(line => line.replace(/%%.*$/, "").trim())
+    .filter(line => line);
+  const header = lines.shift() ?? "";
+
+  const flowMatch = header.match(FLOW_HEADER_REGEX);
+  if (flowMatch) {
+    const direction = (flowMatch[1] ?? "TD").toUpperCase().replace("TB", "TD") as FlowDirection;
+    return { kind: "flowchart", direction, ...parseFlowchart(lines) };
+  }
+  if (SEQUENCE_HEADER_REGEX.test(header)) {
+    return { kind: "sequence", ...parseSequence(lines) };
+  }
+  throw new Error(`Diagram must start with "flowchart TD|LR|BT|RL" or "sequence", got "${header}"`);
+}
+
+export function serializeDiagram(spec: DiagramSpec): string {
+  if (spec.kind === "sequence") {
+    return [
+      "sequence",
+      ...spec.participants.map(participant =>
+        participant.label === participant.id
+          ? `  participant ${participant.id}`
+          : `  participant ${participant.id} as ${participant.label}`
+      ),
+      ...spec.messages.map(message => {
+        const arrow = `${message.style === "dashed" ? "--" : "-"}${message.arrow ? ">>" : ">"}`;
+        return `  ${message.from} ${arrow} ${message.to}: ${message.label ?? ""}`.trimEnd();
+      })
+    ].join("\n");
+  }
+
+  return [
+    `flowchart ${spec.direction}`,
+    ...spec.nodes.map(node => {
+      const [open, close] = SHAPE_BRACKETS[node.shape];
+      return `  ${node.id}${open}${quoteLabel(node.label)}${close}`;
+    }),
+    ...spec.edges.map(edge => {
+      const arrow = EDGE_ARROWS[edge.style][edge.arrow ? 0 : 1];
+      const label = edge.label ? `|${edge.label.replace(/\|/g, "/")}|` : "";
+      return `  ${edge.from} ${arrow}${label} ${edge.to}`;
+    })
+  ].join("\n");
+}
+
+function parseFlowchart(lines: string[]): { nodes: DiagramNode[]; edges: DiagramEdge[] } {
+  const nodes = new Map<string, DiagramNode>();
+  const edges: DiagramEdge[] = [];
+
+  const readNode = (text: string, line: string): { id: string; rest: string } => {
+    const match = text.match(NODE_REGEX);
+    if (!match) {
+      throw new Error(`Expected a node in diagram line "${line}"`);
+    }
+    const [whole, id, circle, database, rect, round, diamond] = match;
+    const labelled = [
+      { label: circle, shape: "circle" },
+      { label: database, shape: "database" },
+      { label: rect, shape: "rect" },
+      { label: round, shape: "round" },
+      { label: diamond, shape: "diamond" }
+    ].find(entry => entry.label !== undefined);
+    const existing = nodes.get(id);
+    if (!existing) {
+      nodes.set(id, { id, label: unquote(labelled?.label ?? id), shape: (labelled?.shape ?? "rect") as NodeShape });
+    } else if (labelled) {
+      existing.label = unquote(labelled.label!);
+      existing.shape = labelled.shape as NodeShape;
+    }
+    return { id, rest: text.slice(whole.length) };
+  };
+
+  lines.forEach(line => {
+    let { id: from, rest } = readNode(line, line);
+    while (rest.trim()) {
+      const edgeMatch = rest.match(EDGE_REGEX);
+      if (!edgeMatch) {
+        throw new Error(`Expected an arrow such as --> in diagram line "${line}"`);
+      }
+      const arrow = edgeMatch[3] ?? edgeMatch[4];
+      const next = readNode(rest.slice(edgeMatch[0].length), line);
+      edges.push({
+        from,
+        to: next.id,
+        label: unquote(edgeMatch[2] ?? edgeMatch[5] ?? "") || undefined,
+        style: arrow.startsWith("=") ? "thick" : arrow.includes(".") ? "dashed" : "solid",
+        arrow: arrow.endsWith(">")
+      });
+      from = next.id;
+      rest = next.rest;
+    }
+  });
+
+  return { nodes: [...nodes.values()], edges };
+}
+
+function parseSequence(lines: string[]): { participants: DiagramNode[]; messages: DiagramEdge[] } {
+  const participants = new Map<string, DiagramNode>();
+  const messages: DiagramEdge[] = [];
+  const participant = (id: string, label = id): void => {
+    if (!participants.has(id)) {
+      participants.set(id, { id, label: unquote(label), shape: "rect" });
+    }
+  };
+
+  lines.forEach(line => {
+    const declared = line.match(PARTICIPANT_REGEX);
+    if (declared) {
+      participant(declared[1], declared[2]);
+      return;
+    }
+    const message = line.match(MESSAGE_REGEX);
+    if (!message) {
+      throw new Error(`Expected "A ->> B: text" in diagram line "${line}"`);
+    }
+    const [, from, arrow, to, text] = message;
+    participant(from);
+    participant(to);
+    messages.push({
+      from,
+      to,
+      label: text || undefined,
+      style: arrow.startsWith("--") ? "dashed" : "solid",
+      arrow: arrow.endsWith(">>")
+    });
+  });
+
+  return { participants: [...participants.values()], messages };
+}
+
+export function naturalDiagramHeight(spec: DiagramSpec): number {
+  let height: number;
+  if (spec.kind === "sequence") {
+    height = PARTICIPANT_HEIGHT + 0.3 + spec.messages.length * 0.45 + 0.2;
+  } else {
+    const ranks = rankNodes(spec);
+    const widest = Math.max(...ranks.map(rank => rank.length), 1);
+    height = spec.direction === "TD" || spec.direction === "BT" ? ranks.length : widest * 0.9;
+  }
+  return Math.min(Math.max(height, MIN_DIAGRAM_HEIGHT), MAX_DIAGRAM_HEIGHT);
+}
+
+export function layoutDiagram(spec: DiagramSpec, width: number, height: number): DiagramLayout {
+  return spec.kind === "sequence" ? layoutSequence(spec, width, height) : layoutFlowchart(spec, width, height);
+}
+
+/** Layered layout: ranks by longest path, ordered within a rank by the positions of predecessors. */
+function layoutFlowchart(
+  spec: Extract<DiagramSpec, { kind: "flowchart" }>,
+  width: number,
+  height: number
+): DiagramLayout {
+  const ranks = rankNodes(spec);
+  const vertical = spec.direction === "TD" || spec.direction === "BT";
+  const reversed = spec.direction === "BT" || spec.direction === "RL";
+  const rankCount = ranks.length;
+  const widest = Math.max(...ranks.map(rank => rank.length), 1);
+  const along = vertical ? height : width;
+  const across = vertical ? width : height;
+  const rankSize = along / Math.max(rankCount, 1);
+  const slotSize = across / widest;
+  const nodeW = Math.min(vertical ? slotSize * 0.8 : rankSize * 0.65, MAX_NODE_WIDTH);
+  const nodeH = Math.min(vertical ? rankSize * 0.55 : slotSize * 0.6, MAX_NODE_HEIGHT);
+
+  const placed = new Map<string, PlacedNode>();
+  ranks.forEach((rank, rankIndex) => {
+    const position = reversed ? rankCount - 1 - rankIndex : rankIndex;
+    rank.forEach((node, slot) => {
+      const mainCenter = (position + 0.5) * rankSize;
+      const crossCenter = (across * (slot + 0.5)) / rank.length;
+      const cx = vertical ? crossCenter : mainCenter;
+      const cy = vertical ? mainCenter : crossCenter;
+      placed.set(node.id, { ...node, x: cx - nodeW / 2, y: cy - nodeH / 2, w: nodeW, h: nodeH });
+    });
+  });
+
+  const fontSize = clampFontSize(nodeH * 72 * 0.35);
+  const segments: Segment[] = [];
+  const labels: DiagramLayout["labels"] = [];
+  spec.edges.forEach(edge => {
+    const from = placed.get(edge.from)!;
+    const to = placed.get(edge.to)!;
+    const [x1, y1] = clipToShape(from, to);
+    const [x2, y2] = clipToShape(to, from);
+    segments.push({ x1, y1, x2, y2, style: edge.style, arrow: edge.arrow });
+    if (edge.label) {
+      const labelW = Math.min(Math.max(edge.label.length * fontSize * 0.011, 0.5), nodeW);
+      labels.push({
+        text: edge.label,
+        x: (x1 + x2) / 2 - labelW / 2,
+        y: (y1 + y2) / 2 - LABEL_HEIGHT / 2,
+        w: labelW,
+        h: LABEL_HEIGHT
+      });
+    }
+  });
+
+  return { nodes: [...placed.values()], segments, labels, fontSize };
+}
+
+function layoutSequence(
+  spec: Extract<DiagramSpec, { kind: "sequence" }>,
+  width: number,
+  height: number
+): DiagramLayout {
+  const count = Math.max(spec.participants.length, 1);
+  const slot = width / count;
+  const boxW = Math.min(slot * 0.8, MAX_NODE_WIDTH);
+  const nodes = spec.participants.map((participant, index) => ({
+    ...participant,
+    x: slot * (index + 0.5) - boxW / 2,
+    y: 0,
+    w: boxW,
+    h: PARTICIPANT_HEIGHT
+  }));
+  const centers = new Map(nodes.map(node => [node.id, node.x + node.w / 2]));
+  const top = PARTICIPANT_HEIGHT + 0.3;
+  const step = Math.min(0.45, (height - top - 0.1) / Math.max(spec.messages.length, 1));
+  const fontSize = clampFontSize(Math.min(step * 72 * 0.4, MAX_FONT_SIZE));
+
+  const segments: Segment[] = nodes.map(node => ({
+    x1: node.x + node.w / 2,
+    y1: PARTICIPANT_HEIGHT,
+    x2: node.x + node.w / 2,
+    y2: height,
+    style: "dashed",
+    arrow: false
+  }));
+  const labels: DiagramLayout["labels"] = [];
+
+  spec.messages.forEach((message, index) => {
+    const y = top + index * step;
+    const x1 = centers.get(message.from)!;
+    const x2 = centers.get(message.to)!;
+    if (x1 === x2) {
+      const loop = Math.min(slot * 0.3, 0.4);
+      const drop = step * 0.5;
+      segments.push(
+        { x1, y1: y - drop / 2, x2: x1 + loop, y2: y - drop / 2, style: message.style, arrow: false },
+        { x1: x1 + loop, y1: y - drop / 2, x2: x1 + loop, y2: y + drop / 2, style: message.style, arrow: false },
+        { x1: x1 + loop, y1: y + drop / 2, x2: x1, y2: y + drop / 2, style: message.style, arrow: message.arrow }
+      );
+    } else {
+      segments.push({ x1, y1: y, x2, y2: y, style: message.style, arrow: message.arrow });
+    }
+    if (message.label) {
+      const left = Math.min(x1, x2);
+      const span = Math.max(Math.abs(x2 - x1), slot * 0.8);
+      labels.push({
+        text: message.label,
+        x: left + (x1 === x2 ? 0.05 : 0),
+        y: y - LABEL_HEIGHT,
+        w: span,
+        h: LABEL_HEIGHT
+      });
+    }
+  });
+
+  return { nodes, segments, labels, fontSize };
+}
+
+export function drawDiagram(
+  slide: PptxGenJS.Slide,
+  layout: DiagramLayout,
+  x: number,
+  y: number,
+  theme: Theme,
+  lang: string
+): void {
+  const accent = theme.palette.accents[0];
+  const lineColor = theme.palette.text;
+
+  layout.segments.forEach(segment => {
+    slide.addShape("line", {
+      x: x + Math.min(segment.x1, segment.x2),
+      y: y + Math.min(segment.y1, segment.y2),
+      w: Math.abs(segment.x2 - segment.x1),
+      h: Math.abs(segment.y2 - segment.y1),
+      flipH: segment.x2 < segment.x1,
+      flipV: segment.y2 < segment.y1,
+      line: {
+        color: lineColor,
+        width: segment.style === "thick" ? 2.5 : 1.25,
+        dashType: segment.style === "dashed" ? "dash" : "solid",
+        endArrowType: segment.arrow ? "triangle" : undefined
+      }
+    });
+  });
+
+  layout.nodes.forEach(node => {
+    slide.addText(node.label, {
+      shape: SHAPE_NAMES[node.shape],
+      x: x + node.x,
+      y: y + node.y,
+      w: node.w,
+      h: node.h,
+      fill: { color: accent },
+      line: { color: accent },
+      color: "FFFFFF",
+      fontFace: theme.body.fontFace,
+      fontSize: layout.fontSize,
+      align: "center",
+      valign: "middle",
+      fit: "shrink",
+      rectRadius: node.shape === "round" ? 0.1 : undefined,
+      lang
+    });
+  });
+
+  layout.labels.forEach(label => {
+    slide.addText(label.text, {
+      x: x + label.x,
+      y: y + label.y,
+      w: label.w,
+      h: label.h,
+      fill: theme.palette.background ? { color: theme.palette.background } : undefined,
+      color: lineColor,
+      fontFace: theme.body.fontFace,
+      fontSize: Math.max(layout.fontSize - 2, MIN_FONT_SIZE),
+      align: "center",
+      valign: "middle",
+      margin: 0,
+      lang
+    });
+  });
+}
+
+/** Edges that close a cycle are ignored for ranking. */
+function rankNodes(spec: Extract<DiagramSpec, { kind: "flowchart" }>): DiagramNode[][] {
+  const order = new Map(spec.nodes.map((node, index) => [node.id, index]));
+  const forward = acyclicEdges(spec);
+  const rank = new Map<string, number>(spec.nodes.map(node => [node.id, 0]));
+  // Longest path by relaxation; at most one pass per node is needed on an acyclic graph.
+  for (let pass = 0; pass < spec.nodes.length; pass += 1) {
+    let changed = false;
+    forward.forEach(edge => {
+      const candidate = rank.get(edge.from)! + 1;
+      if (candidate > rank.get(edge.to)!) {
+        rank.set(edge.to, candidate);
+        changed = true;
+      }
+    });
+    if (!changed) {
+      break;
+    }
+  }
+
+  const ranks: DiagramNode[][] = [];
+  spec.nodes.forEach(node => {
+    const index = rank.get(node.id)!;
+    (ranks[index] ??= []).push(node);
+  });
+  const dense = ranks.filter(Boolean);
+
+  const slotOf = new Map<string, number>();
+  dense.forEach(level => {
+    const keyed = level.map(node => {
+      const predecessors = forward.filter(edge => edge.to === node.id && slotOf.has(edge.from));
+      const mean = predecessors.length
+        ? predecessors.reduce((sum, edge) => sum + slotOf.get(edge.from)!, 0) / predecessors.length
+        : Number.POSITIVE_INFINITY;
+      return { node, mean, order: order.get(node.id)! };
+    });
+    keyed.sort((a, b) => (a.mean === b.mean ? a.order - b.order : a.mean - b.mean));
+    level.splice(0, level.length, ...keyed.map(entry => entry.node));
+    level.forEach((node, slot) => slotOf.set(node.id, slot / Math.max(level.length - 1, 1)));
+  });
+  return dense;
+}
+
+/** Edges without those that close a cycle (found by depth-first search in source order). */
+function acyclicEdges(spec: Extract<DiagramSpec, { kind: "flowchart" }>): DiagramEdge[] {
+  const state = new Map<string, "active" | "done">();
+  const back = new Set<DiagramEdge>();
+  const visit = (id: string): void => {
+    state.set(id, "active");
+    spec.edges
+      .filter(edge => edge.from === id)
+      .forEach(edge => {
+        const target = state.get(edge.to);
+        if (target === "active" || edge.from === edge.to) {
+          back.add(edge);
+        } else if (!target) {
+          visit(edge.to);
+        }
+      });
+    state.set(id, "done");
+  };
+  spec.nodes.forEach(node => {
+    if (!state.has(node.id)) {
+      visit(node.id);
+    }
+  });
+  return spec.edges.filter(edge => !back.has(edge));
+}
+
+/** Where the line towards the centre of `to` leaves `from`. */
+function clipToShape(from: PlacedNode, to: PlacedNode): [number, number] {
+  const cx = from.x + from.w / 2;
+  const cy = from.y + from.h / 2;
+  const dx = to.x + to.w / 2 - cx;
+  const dy = to.y + to.h / 2 - cy;
+  if (dx === 0 && dy === 0) {
+    return [cx, cy];
+  }
+  const rx = from.w / 2;
+  const ry = from.h / 2;
+  let t: number;
+  if (from.shape === "diamond") {
+    t = 1 / (Math.abs(dx) / rx + Math.abs(dy) / ry);
+  } else if (from.shape === "circle") {
+    t = 1 / Math.sqrt((dx / rx) ** 2 + (dy / ry) ** 2);
+  } else {
+    t = Math.min(dx === 0 ? Infinity : rx / Math.abs(dx), dy === 0 ? Infinity : ry / Math.abs(dy));
+  }
+  return [cx + dx * t, cy + dy * t];
+}
+
+function clampFontSize(size: number): number {
+  return Math.round(Math.min(Math.max(size, MIN_FONT_SIZE), MAX_FONT_SIZE));
+}
+
+/** Labels with brackets are quoted so they do not end the node shape early. */
+function quoteLabel(label: string): string {
+  return /[()[\]{}|]/.test(label) ? `"${label}"` : label;
+}
+
+function unquote(text: string): string {
+  return text.trim().replace(/^"(.*)"$/, "$1");
+}
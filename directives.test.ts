@@ -0,0 +1,113 @@
+import JSZip from "jszip";
+import PptxGenJS from "pptxgenjs";
+import { inflateSync } from "zlib";
+import { parseDirective, resolveSlideStyle, styleTheme } from "./directives";
+import { backgroundFillProps } from "./gradient";
+import { parseImageDimensions } from "./images";
+import { createDeckLayout } from "./recorder";
+import { addTransitions } from "./transitions";
+import { DEFAULT_THEME, parseDocument, parseSlides, renderSlides } from "./txt2ppt";
+
+describe("parseDirective", () => {
+  it("parses every directive", () => {
+    expect(parseDirective("align", "middle center")).toEqual({ align: { vertical: "middle", horizontal: "center" } });
+    expect(parseDirective("bg-color", "#123 #abcdef 90deg")).toEqual({
+      backgroundFill: { colors: ["112233", "ABCDEF"], angle: 90 }
+    });
+    expect(parseDirective("color", "fff")).toEqual({ color: "FFFFFF" });
+    expect(parseDirective("title", "Hidden")).toEqual({ hideTitle: true });
+    expect(parseDirective("font-scale", "1.5")).toEqual({ fontScale: 1.5 });
+    expect(parseDirective("transition", "fade slow")).toEqual({ transition: { type: "fade", speed: "slow" } });
+    expect(parseDirective("class", "centered, divider")).toEqual({ classes: ["centered", "divider"] });
+  });
+
+  it("rejects values it does not understand", () => {
+    expect(() => parseDirective("class", "fancy")).toThrow('Unknown slide class "fancy"');
+    expect(() => parseDirective("align", "up")).toThrow('not "up"');
+    expect(() => parseDirective("color", "red")).toThrow('"red" is not a colour');
+    expect(() => parseDirective("font-scale", "0")).toThrow("positive number");
+    expect(() => parseDirective("transition", "spin")).toThrow('Unknown transition "spin"');
+    expect(() => parseDirective("transition", "fade quickly")).toThrow("optionally slow, medium or fast");
+    expect(() => parseDirective("title", " ")).toThrow("has no value");
+  });
+});
+
+describe("slide styles", () => {
+  it("applies class presets under the slide's own directives", () => {
+    const [slide] = parseSlides("# A\n>class: statement\n>align: left\n>font-scale: 2\n");
+    expect(resolveSlideStyle(slide)).toEqual({
+      layout: "title",
+      align: { vertical: "middle", horizontal: "left" },
+      fontScale: 2
+    });
+  });
+
+  it("scales text sizes and recolours everything but code", () => {
+    const theme = styleTheme(DEFAULT_THEME, { fontScale: 2, color: "FF0000" });
+    expect(theme.title).toMatchObject({ fontSize: DEFAULT_THEME.title.fontSize * 2, color: "FF0000" });
+    expect(theme.body.lineSpacing).toBe(DEFAULT_THEME.body.lineSpacing! * 2);
+    expect(theme.code.color).toBe(DEFAULT_THEME.code.color);
+    expect(styleTheme(DEFAULT_THEME, {})).toBe(DEFAULT_THEME);
+  });
+
+  it("reports invalid directives as warnings", () => {
+    const { slides, diagnostics } = parseDocument("# A\n>align: sideways\n>color: #00f\n");
+    expect(slides[0].color).toBe("0000FF");
+    expect(diagnostics).toMatchObject([{ code: "invalid-directive", severity: "warning", line: 2 }]);
+  });
+
+  it("hides the title, fills the background and records the transition", async () => {
+    const layout = createDeckLayout();
+    const transitions: unknown[] = [];
+    const specs = parseSlides("# Hidden\n>title: hidden\n>bg-color: #000000\n>transition: push\nBody\n\n# Plain\n");
+    await renderSlides(new PptxGenJS(), specs, {
+      layout: "LAYOUT_16x9",
+      revision: "1",
+      layoutRecord: layout,
+      transitions: transitions as []
+    });
+    const texts = layout.slides[0].elements.map(element =>
+      element.type === "text" ? [element.text].flat().map(run => (typeof run === "string" ? run : run.text)) : []
+    );
+    expect(texts).toEqual([["Body"]]);
+    expect(layout.slides[0].background).toEqual({ color: "000000" });
+    expect(transitions).toEqual([{ type: "push" }, undefined]);
+  });
+});
+
+describe("backgroundFillProps", () => {
+  it("uses a solid colour for one colour and a PNG for a gradient", () => {
+    const size = { width: 10, height: 5.625 };
+    expect(backgroundFillProps({ colors: ["112233"] }, size)).toEqual({ color: "112233" });
+
+    const props = backgroundFillProps({ colors: ["000000", "FFFFFF"], angle: 90 }, size);
+    const png = Buffer.from(props.data!.replace(/^image\/png;base64,/, ""), "base64");
+    const dimensions = parseImageDimensions(png)!;
+    expect(dimensions).toEqual({ width: 320, height: 180 });
+
+    const pixels = inflateSync(png.subarray(png.indexOf("IDAT") + 4, png.indexOf("IEND") - 8));
+    const firstRow = pixels.subarray(1, 1 + dimensions.width * 3);
+    expect(firstRow[0]).toBeLessThan(5);
+    expect(firstRow[firstRow.length - 1]).toBeGreaterThan(250);
+  });
+});
+
+describe("addTransitions", () => {
+  it("adds a transition element after the slide tree", async () => {
+    const zip = new JSZip();
+    zip.file("ppt/slides/slide1.xml", "<p:sld><p:cSld></p:cSld><p:clrMapOvr></p:clrMapOvr></p:sld>");
+    zip.file("ppt/slides/slide2.xml", "<p:sld><p:cSld></p:cSld></p:sld>");
+    zip.file("ppt/slides/slide3.xml", "<p:sld><p:cSld></p:cSld></p:sld>");
+    const input = await zip.generateAsync({ type: "nodebuffer" });
+    const output = await JSZip.loadAsync(
+      await addTransitions(input, [{ type: "fade", speed: "medium" }, { type: "wipe" }, { type: "none" }])
+    );
+    expect(await output.file("ppt/slides/slide1.xml")!.async("string")).toBe(
+      '<p:sld><p:cSld></p:cSld><p:clrMapOvr></p:clrMapOvr><p:transition spd="med"><p:fade/></p:transition></p:sld>'
+    );
+    expect(await output.file("ppt/slides/slide2.xml")!.async("string")).toBe(
+      "<p:sld><p:cSld></p:cSld><p:transition><p:wipe/></p:transition></p:sld>"
+    );
+    expect(await output.file("ppt/slides/slide3.xml")!.async("string")).toBe("<p:sld><p:cSld></p:cSld></p:sld>");
+  });
+});
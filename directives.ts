@@ -0,0 +1,184 @@
+import type { ColumnAlign, SlideSpec } from "./txt2ppt";
+import { Theme, TextStyle } from "./theme";
+
+/** `>align:`: where the body sits between the title and the bottom margin, and how text lines up. */
+export interface SlideAlign {
+  vertical?: "top" | "middle" | "bottom";
+  horizontal?: ColumnAlign;
+}
+
+/** `>bg-color:`: one colour for a solid background, several for a linear gradient. */
+export interface BackgroundFill {
+  /** Hex colours without `#`, spread evenly along the gradient. */
+  colors: string[];
+  /** Gradient direction in degrees as in CSS: 0 runs bottom to top, 90 left to right, 180 (default) top to bottom. */
+  angle?: number;
+}
+
+export type TransitionType = "none" | "fade" | "push" | "wipe" | "cover" | "split" | "dissolve" | "cut" | "zoom";
+
+export interface SlideTransition {
+  type: TransitionType;
+  speed?: "slow" | "medium" | "fast";
+}
+
+/** The slide fields that directives set; `>class:` presets are made of the same fields. */
+export type SlideStyle = Pick<
+  SlideSpec,
+  "layout" | "align" | "backgroundFill" | "color" | "hideTitle" | "fontScale" | "transition"
+>;
+
+export const DIRECTIVE_REGEX = /^>(class|align|bg-color|color|title|font-scale|transition):(.*)$/i;
+
+/** Presets for `>class:`; the slide's own directives win, and of several classes the later ones. */
+export const SLIDE_CLASSES: Record<string, SlideStyle> = {
+  centered: { align: { vertical: "middle", horizontal: "center" } },
+  statement: { layout: "title", align: { vertical: "middle", horizontal: "center" }, fontScale: 1.4 },
+  divider: { layout: "section", align: { horizontal: "center" } }
+};
+
+const TRANSITION_TYPES: TransitionType[] = [
+  "none",
+  "fade",
+  "push",
+  "wipe",
+  "cover",
+  "split",
+  "dissolve",
+  "cut",
+  "zoom"
+];
+const TRANSITION_SPEEDS: Array<NonNullable<SlideTransition["speed"]>> = ["slow", "medium", "fast"];
+const COLOR_REGEX = /^#?([0-9a-f]{3}|[0-9a-f]{6})$/i;
+const ANGLE_REGEX = /^(-?\d+(?:\.\d+)?)deg$/i;
+
+/** Throws with the message for the diagnostic when the value is not understood. */
+export function parseDirective(name: string, value: string): Partial<SlideSpec> {
+  const tokens = value.split(/[\s,]+/).filter(Boolean);
+  if (tokens.length === 0) {
+    throw new Error(`>${name}: has no value and is ignored`);
+  }
+  switch (name.toLowerCase()) {
+    case "class": {
+      const unknown = tokens.filter(token => !SLIDE_CLASSES[token]);
+      if (unknown.length > 0) {
+        const known = Object.keys(SLIDE_CLASSES).join(", ");
+        throw new Error(`Unknown slide class "${unknown.join(", ")}" (available: ${known})`);
+      }
+      return { classes: tokens };
+    }
+    case "align":
+      return { align: parseAlign(tokens) };
+    case "bg-color":
+      return { backgroundFill: parseBackgroundFill(tokens) };
+    case "color":
+      return { color: parseColor(value.trim()) };
+    case "title":
+      if (!["hidden", "visible"].includes(value.trim().toLowerCase())) {
+        throw new Error(`>title: expects hidden or visible, not "${value.trim()}"`);
+      }
+      return { hideTitle: value.trim().toLowerCase() === "hidden" };
+    case "font-scale": {
+      const scale = Number(value.trim());
+      if (!Number.isFinite(scale) || scale <= 0) {
+        throw new Error(`>font-scale: expects a positive number, not "${value.trim()}"`);
+      }
+      return { fontScale: scale };
+    }
+    case "transition":
+      return { transition: parseTransition(tokens) };
+    default:
+      throw new Error(`Unknown directive >${name}:`);
+  }
+}
+
+function parseAlign(tokens: string[]): SlideAlign {
+  const align: SlideAlign = {};
+  tokens.forEach(token => {
+    const value = token.toLowerCase();
+    if (value === "top" || value === "middle" || value === "bottom") {
+      align.vertical = value;
+    } else if (value === "left" || value === "center" || value === "right") {
+      align.horizontal = value;
+    } else {
+      throw new Error(`>align: expects top, middle, bottom, left, center or right, not "${token}"`);
+    }
+  });
+  return align;
+}
+
+function parseBackgroundFill(tokens: string[]): BackgroundFill {
+  const fill: BackgroundFill = { colors: [] };
+  tokens.forEach(token => {
+    const angle = ANGLE_REGEX.exec(token);
+    if (angle) {
+      fill.angle = Number(angle[1]);
+    } else {
+      fill.colors.push(parseColor(token));
+    }
+  });
+  if (fill.colors.length === 0) {
+    throw new Error(">bg-color: needs at least one colour");
+  }
+  return fill;
+}
+
+/** `#1a2`, `#11AA22` or `11AA22` as the upper-case six-digit hex PptxGenJS expects. */
+function parseColor(value: string): string {
+  const match = COLOR_REGEX.exec(value);
+  if (!match) {
+    throw new Error(`"${value}" is not a colour (expected #RRGGBB)`);
+  }
+  const hex = match[1].length === 3 ? match[1].replace(/./g, digit => digit + digit) : match[1];
+  return hex.toUpperCase();
+}
+
+function parseTransition(tokens: string[]): SlideTransition {
+  const [type, speed, ...rest] = tokens.map(token => token.toLowerCase());
+  if (!TRANSITION_TYPES.includes(type as TransitionType)) {
+    throw new Error(`Unknown transition "${tokens[0]}" (available: ${TRANSITION_TYPES.join(", ")})`);
+  }
+  if ((speed && !(TRANSITION_SPEEDS as string[]).includes(speed)) || rest.length > 0) {
+    throw new Error(">transition: expects a transition and optionally slow, medium or fast");
+  }
+  return { type: type as TransitionType, ...(speed && { speed: speed as SlideTransition["speed"] }) };
+}
+
+/** The slide's directives on top of its `>class:` presets. */
+export function resolveSlideStyle(spec: SlideSpec): SlideStyle {
+  const presets = (spec.classes ?? []).map(name => SLIDE_CLASSES[name]).filter(Boolean);
+  const style: SlideStyle = {};
+  [...presets, spec].forEach(layer => {
+    style.layout = layer.layout ?? style.layout;
+    style.align = layer.align ? { ...style.align, ...layer.align } : style.align;
+    style.backgroundFill = layer.backgroundFill ?? style.backgroundFill;
+    style.color = layer.color ?? style.color;
+    style.hideTitle = layer.hideTitle ?? style.hideTitle;
+    style.fontScale = layer.fontScale ?? style.fontScale;
+    style.transition = layer.transition ?? style.transition;
+  });
+  return style;
+}
+
+/** The theme as seen by one slide: text sizes scaled by `fontScale`, text colours replaced by `color`. */
+export function styleTheme(theme: Theme, style: SlideStyle): Theme {
+  const scale = style.fontScale ?? 1;
+  if (scale === 1 && !style.color) {
+    return theme;
+  }
+  const restyle = <T extends TextStyle>(text: T, recolor: boolean): T => ({
+    ...text,
+    fontSize: text.fontSize * scale,
+    lineSpacing: text.lineSpacing === undefined ? undefined : text.lineSpacing * scale,
+    color: recolor && style.color ? style.color : text.color
+  });
+  return {
+    ...theme,
+    title: restyle(theme.title, true),
+    subtitle: restyle(theme.subtitle, true),
+    body: restyle(theme.body, true),
+    bullet: restyle(theme.bullet, true),
+    code: restyle(theme.code, false),
+    table: restyle(theme.table, true)
+  };
+}
@@ -0,0 +1,34 @@
+/** What went wrong, for library callers that need to tell failures apart; see the README. */
+export type ErrorCode =
+  | "invalid-option"
+  | "invalid-input"
+  | "invalid-front-matter"
+  | "missing-asset"
+  | "invalid-chart-data"
+  | "invalid-theme"
+  | "invalid-template"
+  | "invalid-include"
+  | "unknown-layout";
+
+/** Base class of the errors thrown while converting; `code` is stable, messages are not. */
+export class Txt2PptError extends Error {
+  readonly code: ErrorCode;
+
+  constructor(code: ErrorCode, message: string) {
+    super(message);
+    this.name = "Txt2PptError";
+    this.code = code;
+  }
+}
+
+/** Images or backgrounds that neither the asset resolver nor the file system could supply. */
+export class MissingAssetError extends Txt2PptError {
+  /** The paths as written in the Markdown or theme, each with where it is used. */
+  readonly assets: string[];
+
+  constructor(assets: string[]) {
+    super("missing-asset", `Image file not found:\n${assets.map(entry => `  - ${entry}`).join("\n")}`);
+    this.name = "MissingAssetError";
+    this.assets = assets;
+  }
+}
@@ -0,0 +1,34 @@
+import { Txt2PptError } from "./errors";
+import { extractFrontMatter } from "./frontMatter";
+
+describe("extractFrontMatter", () => {
+  it("reads the front matter and keeps the body's line numbers", () => {
+    const { frontMatter, body } = extractFrontMatter("\uFEFF---\ntitle: Deck\nrevision: 2\nagenda: true\n---\n# One");
+    expect(frontMatter).toEqual({ title: "Deck", revision: "2", agenda: true });
+    expect(body).toBe("\n\n\n\n\n# One");
+  });
+
+  it("returns the text as it is without a closed front matter block", () => {
+    expect(extractFrontMatter("# One\n---\n")).toEqual({ frontMatter: {}, body: "# One\n---\n" });
+    expect(extractFrontMatter("---\ntitle: Deck\n")).toEqual({ frontMatter: {}, body: "---\ntitle: Deck\n" });
+  });
+
+  it.each([
+    ["invalid YAML", "title: [unclosed"],
+    ["a list instead of key: value pairs", "- title"],
+    ["a mapping for a string key", "title:\n  text: Deck"],
+    ["a string for titleSlide", "titleSlide: yes please"],
+    ["a number for agenda", "agenda: 3"],
+    ["a list for vars", "vars: [a, b]"]
+  ])("rejects %s with invalid-front-matter", (_, yaml) => {
+    let thrown: unknown;
+    try {
+      extractFrontMatter(`---\n${yaml}\n---\n# One`);
+    } catch (error) {
+      thrown = error;
+    }
+    expect(thrown).toBeInstanceOf(Txt2PptError);
+    expect(thrown).toMatchObject({ code: "invalid-front-matter" });
+    expect((thrown as Error).message).toMatch(/^Invalid front matter: /);
+  });
+});
@@ -0,0 +1,117 @@
+import YAML from "yaml";
+import { Txt2PptError } from "./errors";
+
+export interface FrontMatter {
+  title?: string;
+  author?: string;
+  company?: string;
+  subject?: string;
+  /** Slide size, e.g. LAYOUT_16x9. Validated by the caller against the supported layouts. */
+  layout?: string;
+  bg?: string;
+  theme?: string;
+  /** Existing .pptx whose slide size, theme colours, fonts and master images are reused. */
+  template?: string;
+  lang?: string;
+  /** Notes placement on continuation slides: first, copy or distribute. */
+  notes?: string;
+  /** split or shrink; validated by the caller. */
+  overflow?: string;
+  /** Pagination rules as numbers; validated by the caller. */
+  orphans?: string;
+  widows?: string;
+  revision?: string;
+  /** Values for `{{name}}` placeholders and `{{#each name}}` loops; see variables.ts. */
+  vars?: Record<string, unknown>;
+  /** Opens the deck with a slide made from title, subject, author and company. */
+  titleSlide?: boolean;
+  /** Adds an agenda slide after the title slide; a string is used as its title. */
+  agenda?: boolean | string;
+}
+
+const FRONT_MATTER_FENCE = /^---\s*$/;
+const STRING_KEYS: Array<Exclude<keyof FrontMatter, "vars" | "titleSlide" | "agenda">> = [
+  "title",
+  "author",
+  "company",
+  "subject",
+  "layout",
+  "bg",
+  "theme",
+  "template",
+  "lang",
+  "notes",
+  "overflow",
+  "orphans",
+  "widows",
+  "revision"
+];
+
+/** The front matter lines are blanked so that line numbers in the body stay those of the file. */
+export function extractFrontMatter(text: string): { frontMatter: FrontMatter; body: string } {
+  const lines = text.split("\n");
+  const firstLine = (lines[0] ?? "").replace(/^\uFEFF/, "");
+  if (!FRONT_MATTER_FENCE.test(firstLine)) {
+    return { frontMatter: {}, body: text };
+  }
+
+  const closing = lines.findIndex((line, index) => index > 0 && FRONT_MATTER_FENCE.test(line));
+  if (closing < 0) {
+    return { frontMatter: {}, body: text };
+  }
+
+  const source = lines.slice(1, closing).join("\n");
+  const body = [...lines.slice(0, closing + 1).map(() => ""), ...lines.slice(closing + 1)].join("\n");
+  return { frontMatter: parseFrontMatter(source), body };
+}
+
+function parseFrontMatter(source: string): FrontMatter {
+  let parsed: unknown;
+  try {
+    parsed = YAML.parse(source);
+  } catch (error) {
+    throw frontMatterError((error as Error).message);
+  }
+  if (parsed === null || parsed === undefined) {
+    return {};
+  }
+  if (typeof parsed !== "object" || Array.isArray(parsed)) {
+    throw frontMatterError("expected key: value pairs");
+  }
+
+  const record = parsed as Record<string, unknown>;
+  const frontMatter: FrontMatter = {};
+  STRING_KEYS.forEach(key => {
+    const value = record[key];
+    if (value === undefined || value === null) {
+      return;
+    }
+    if (typeof value !== "string" && typeof value !== "number") {
+      throw frontMatterError(`"${key}" must be a string`);
+    }
+    frontMatter[key] = String(value);
+  });
+  if (record.vars !== undefined && record.vars !== null) {
+    if (typeof record.vars !== "object" || Array.isArray(record.vars)) {
+      throw frontMatterError('"vars" must be key: value pairs');
+    }
+    frontMatter.vars = record.vars as Record<string, unknown>;
+  }
+  if (record.titleSlide !== undefined && record.titleSlide !== null) {
+    if (typeof record.titleSlide !== "boolean") {
+      throw frontMatterError('"titleSlide" must be true or false');
+    }
+    frontMatter.titleSlide = record.titleSlide;
+  }
+  if (record.agenda !== undefined && record.agenda !== null) {
+    if (typeof record.agenda !== "boolean" && typeof record.agenda !== "string") {
+      throw frontMatterError('"agenda" must be true, false or a title');
+    }
+    frontMatter.agenda = record.agenda;
+  }
+  return frontMatter;
+}
+
+function frontMatterError(message: string): Txt2PptError {
+  return new Txt2PptError("invalid-front-matter", `Invalid front matter: ${message}`);
+}
@@ -0,0 +1,81 @@
+import PptxGenJS from "pptxgenjs";
+import { deflateSync } from "zlib";
+import type { BackgroundFill } from "./directives";
+import { SlideSize, imageSource } from "./masters";
+
+/** Width of the generated image; PowerPoint stretches it smoothly to the slide. */
+const GRADIENT_WIDTH = 320;
+const DEFAULT_ANGLE = 180;
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+const CRC_TABLE = Array.from({ length: 256 }, (_, index) => {
+  let value = index;
+  for (let bit = 0; bit < 8; bit += 1) {
+    value = value & 1 ? 0xedb88320 ^ (value >>> 1) : value >>> 1;
+  }
+  return value >>> 0;
+});
+
+/** PptxGenJS only has solid backgrounds, so a gradient is drawn into a PNG with the slide's aspect ratio. */
+export function backgroundFillProps(fill: BackgroundFill, size: SlideSize): PptxGenJS.BackgroundProps {
+  if (fill.colors.length === 1) {
+    return { color: fill.colors[0] };
+  }
+  return imageSource(`data:image/png;base64,${gradientPng(fill, size).toString("base64")}`);
+}
+
+function gradientPng(fill: BackgroundFill, size: SlideSize): Buffer {
+  const width = GRADIENT_WIDTH;
+  const height = Math.max(1, Math.round((GRADIENT_WIDTH * size.height) / size.width));
+  const stops = fill.colors.map(color => [0, 2, 4].map(offset => parseInt(color.slice(offset, offset + 2), 16)));
+  // As in CSS, the gradient line runs through the centre in the given direction and is as long
+  // as needed for the corners to get the first and last colours.
+  const radians = ((fill.angle ?? DEFAULT_ANGLE) * Math.PI) / 180;
+  const dx = Math.sin(radians);
+  const dy = -Math.cos(radians);
+  const length = Math.abs(width * dx) + Math.abs(height * dy);
+
+  const pixels = Buffer.alloc((width * 3 + 1) * height);
+  for (let y = 0; y < height; y += 1) {
+    const row = y * (width * 3 + 1);
+    for (let x = 0; x < width; x += 1) {
+      const t = ((x + 0.5 - width / 2) * dx + (y + 0.5 - height / 2) * dy) / length + 0.5;
+      const position = Math.min(Math.max(t, 0), 1) * (stops.length - 1);
+      const index = Math.min(Math.floor(position), stops.length - 2);
+      const mix = position - index;
+      for (let channel = 0; channel < 3; channel += 1) {
+        const from = stops[index][channel];
+        const to = stops[index + 1][channel];
+        pixels[row + 1 + x * 3 + channel] = Math.round(from + (to - from) * mix);
+      }
+    }
+  }
+
+  const header = Buffer.alloc(13);
+  header.writeUInt32BE(width, 0);
+  header.writeUInt32BE(height, 4);
+  header.writeUInt8(8, 8); // bit depth
+  header.writeUInt8(2, 9); // truecolour RGB
+  return Buffer.concat([
+    PNG_SIGNATURE,
+    chunk("IHDR", header),
+    chunk("IDAT", deflateSync(pixels)),
+    chunk("IEND", Buffer.alloc(0))
+  ]);
+}
+
+function chunk(type: string, data: Buffer): Buffer {
+  const body = Buffer.concat([Buffer.from(type, "ascii"), data]);
+  const length = Buffer.alloc(4);
+  length.writeUInt32BE(data.length, 0);
+  const crc = Buffer.alloc(4);
+  crc.writeUInt32BE(crc32(body), 0);
+  return Buffer.concat([length, body, crc]);
+}
+
+function crc32(data: Buffer): number {
+  let crc = 0xffffffff;
+  for (const byte of data) {
+    crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
@@ -0,0 +1,128 @@
+import PptxGenJS from "pptxgenjs";
+import { highlightCode } from "./highlight";
+import { DEFAULT_THEME, parseSlides, renderSlides } from "./txt2ppt";
+
+describe("highlightCode", () => {
+  it("classifies TypeScript tokens", () => {
+    const [line] = highlightCode('const total = sum(1, "a"); // done', "ts");
+    expect(line.filter(token => token.kind !== "plain")).toEqual([
+      { text: "const", kind: "keyword" },
+      { text: "sum", kind: "function" },
+      { text: "1", kind: "number" },
+      { text: '"a"', kind: "string" },
+      { text: "// done", kind: "comment" }
+    ]);
+    expect(line.map(token => token.text).join("")).toBe('const total = sum(1, "a"); // done');
+  });
+
+  it("does not match keywords inside longer identifiers", () => {
+    const [line] = highlightCode("important = format", "js");
+    expect(line).toEqual([{ text: "important = format", kind: "plain" }]);
+  });
+
+  it("cuts multi-line comments at line breaks", () => {
+    expect(highlightCode("/* one\ntwo */ x", "ts")).toEqual([
+      [{ text: "/* one", kind: "comment" }],
+      [
+        { text: "two */", kind: "comment" },
+        { text: " x", kind: "plain" }
+      ]
+    ]);
+  });
+
+  it("leaves unknown languages plain, one token per line", () => {
+    expect(highlightCode("a\nb", "brainfuck")).toEqual([
+      [{ text: "a", kind: "plain" }],
+      [{ text: "b", kind: "plain" }]
+    ]);
+    expect(highlightCode("# x", undefined)).toEqual([[{ text: "# x", kind: "plain" }]]);
+  });
+
+  it("recognises Python, SQL and YAML", () => {
+    expect(highlightCode("def f(): # c", "py")[0][0]).toEqual({ text: "def", kind: "keyword" });
+    expect(highlightCode("select 1", "sql")[0][0]).toEqual({ text: "select", kind: "keyword" });
+    expect(highlightCode("name: x", "yaml")[0][0]).toMatchObject({ kind: "property" });
+  });
+});
+
+describe("code fence info", () => {
+  it("reads the language, emphasised lines and line numbers", () => {
+    const [slide] = parseSlides("# A\n```ts {1,3-4} showLineNumbers{10}\na\nb\nc\nd\n```\n");
+    expect(slide.blocks).toEqual([
+      expect.objectContaining({
+        type: "code",
+        language: "ts",
+        highlight: [1, 3, 4],
+        lineNumbers: 10,
+        text: "a\nb\nc\nd"
+      })
+    ]);
+  });
+
+  it("keeps a bare language", () => {
+    const [slide] = parseSlides("# A\n```python\nx\n```\n");
+    expect(slide.blocks[0]).toMatchObject({ language: "python", highlight: undefined, lineNumbers: undefined });
+  });
+});
+
+describe("code rendering", () => {
+  interface RenderedSlide {
+    texts: PptxGenJS.TextProps[][];
+    shapes: number;
+  }
+
+  async function render(markdown: string): Promise<RenderedSlide[]> {
+    const pptx = new PptxGenJS();
+    const addSlide = pptx.addSlide.bind(pptx);
+    const slides: RenderedSlide[] = [];
+    jest.spyOn(pptx, "addSlide").mockImplementation(props => {
+      const slide = addSlide(props);
+      const rendered: RenderedSlide = { texts: [], shapes: 0 };
+      slides.push(rendered);
+      jest.spyOn(slide, "addText").mockImplementation(text => {
+        rendered.texts.push(typeof text === "string" ? [{ text }] : text);
+        return slide;
+      });
+      jest.spyOn(slide, "addShape").mockImplementation(() => {
+        rendered.shapes += 1;
+        return slide;
+      });
+      return slide;
+    });
+    await renderSlides(pptx, parseSlides(markdown), { layout: "LAYOUT_16x9", revision: "1" });
+    return slides;
+  }
+
+  it("colours tokens with the theme syntax colours", async () => {
+    const [slide] = await render("# A\n```ts\nreturn 1;\n```\n");
+    const code = slide.texts[1];
+    expect(code[0]).toEqual({ text: "return", options: { color: DEFAULT_THEME.syntax.keyword, italic: false } });
+    expect(slide.shapes).toBe(0);
+  });
+
+  it("draws a bar behind each emphasised line", async () => {
+    const [slide] = await render("# A\n```ts {2}\na\nb\nc\n```\n");
+    expect(slide.shapes).toBe(2);
+  });
+
+  it("continues line numbers on continuation slides", async () => {
+    const lines = Array.from({ length: 40 }, (_, index) => `line${index + 1}`).join("\n");
+    const slides = await render(`# A\n\`\`\`text showLineNumbers\n${lines}\n\`\`\`\n`);
+    expect(slides.length).toBeGreaterThan(1);
+    const gutters = slides.flatMap(slide =>
+      slide.texts.slice(1).flatMap(runs => runs.filter(run => /^\s*\d+ {2}$/.test(run.text ?? "")))
+    );
+    expect(gutters.map(run => Number.parseInt(run.text!, 10))).toEqual(
+      Array.from({ length: 40 }, (_, index) => index + 1)
+    );
+  });
+
+  it("keeps a comment that spans the split coloured on the continuation slide", async () => {
+    const lines = Array.from({ length: 40 }, (_, index) => `  comment line ${index + 1}`).join("\n");
+    const slides = await render(`# A\n\`\`\`ts\n/*\n${lines}\n*/\n\`\`\`\n`);
+    expect(slides.length).toBeGreaterThan(1);
+    const continued = slides[1].texts[1];
+    expect(continued[0].text).toMatch(/comment line/);
+    expect(continued.every(run => run.options?.color === DEFAULT_THEME.syntax.comment)).toBe(true);
+  });
+});
@@ -0,0 +1,247 @@
+// A regex-based highlighter: each language is a list of rules tried in order at every position.
+
+export type TokenKind = "plain" | "keyword" | "string" | "number" | "comment" | "function" | "type" | "property";
+
+export interface CodeToken {
+  text: string;
+  kind: TokenKind;
+}
+
+interface Rule {
+  kind: TokenKind;
+  pattern: RegExp;
+}
+
+const NUMBER = /\b(?:0[xX][\da-fA-F_]+|0[bB][01_]+|\d[\d_]*(?:\.\d+)?(?:[eE][+-]?\d+)?n?)\b/;
+const DOUBLE_QUOTED = /"(?:\\.|[^"\\\n])*"?/;
+const SINGLE_QUOTED = /'(?:\\.|[^'\\\n])*'?/;
+const C_LINE_COMMENT = /\/\/.*/;
+const C_BLOCK_COMMENT = /\/\*[\s\S]*?(?:\*\/|$)/;
+const HASH_COMMENT = /#.*/;
+const FUNCTION_CALL = /\b[A-Za-z_$][\w$]*(?=\s*\()/;
+const CAPITALIZED = /\b[A-Z][\w$]*\b/;
+
+function keywords(words: string, flags = ""): RegExp {
+  return new RegExp(`\\b(?:${words.trim().split(/\s+/).join("|")})\\b`, flags);
+}
+
+const JS_RULES: Rule[] = [
+  { kind: "comment", pattern: C_LINE_COMMENT },
+  { kind: "comment", pattern: C_BLOCK_COMMENT },
+  { kind: "string", pattern: DOUBLE_QUOTED },
+  { kind: "string", pattern: SINGLE_QUOTED },
+  { kind: "string", pattern: /`(?:\\[\s\S]|[^`\\])*`?/ },
+  {
+    kind: "keyword",
+    pattern: keywords(`
+      abstract as async await break case catch class const continue debugger declare default delete do
+      else enum export extends false finally for from function get if implements import in instanceof
+      interface keyof let new null of private protected public readonly return set static super switch
+      this throw true try type typeof undefined var void while yield`)
+  },
+  { kind: "type", pattern: keywords("any boolean never number object string symbol unknown bigint") },
+  { kind: "number", pattern: NUMBER },
+  { kind: "function", pattern: FUNCTION_CALL },
+  { kind: "type", pattern: CAPITALIZED }
+];
+
+const PYTHON_RULES: Rule[] = [
+  { kind: "comment", pattern: HASH_COMMENT },
+  { kind: "string", pattern: /[rRbBuUfF]{0,2}"""[\s\S]*?(?:"""|$)/ },
+  { kind: "string", pattern: /[rRbBuUfF]{0,2}'''[\s\S]*?(?:'''|$)/ },
+  { kind: "string", pattern: new RegExp(`[rRbBuUfF]{0,2}(?:${DOUBLE_QUOTED.source}|${SINGLE_QUOTED.source})`) },
+  { kind: "function", pattern: /@[\w.]+/ },
+  {
+    kind: "keyword",
+    pattern: keywords(`
+      False None True and as assert async await break class continue def del elif else except finally
+      for from global if import in is lambda match case nonlocal not or pass raise return try while with yield self`)
+  },
+  { kind: "number", pattern: NUMBER },
+  { kind: "function", pattern: FUNCTION_CALL },
+  { kind: "type", pattern: CAPITALIZED }
+];
+
+const JSON_RULES: Rule[] = [
+  { kind: "property", pattern: /"(?:\\.|[^"\\\n])*"(?=\s*:)/ },
+  { kind: "string", pattern: DOUBLE_QUOTED },
+  { kind: "keyword", pattern: keywords("true false null") },
+  { kind: "number", pattern: /-?\d+(?:\.\d+)?(?:[eE][+-]?\d+)?/ }
+];
+
+const BASH_RULES: Rule[] = [
+  { kind: "property", pattern: /\$\{[^}\n]*\}|\$[\w@#?$!*-]/ },
+  { kind: "comment", pattern: /(?<![^\s;])#.*/ },
+  { kind: "string", pattern: /"(?:\\.|[^"\\])*"?/ },
+  { kind: "string", pattern: /'[^']*'?/ },
+  {
+    kind: "keyword",
+    pattern: keywords(`
+      if then else elif fi for while until do done case esac function in return export local readonly
+      select break continue exit source alias unset set shift`)
+  },
+  { kind: "function", pattern: /(?<=^|[|;&]\s*|\n\s*)[\w./-]+/ },
+  { kind: "number", pattern: /\b\d+\b/ }
+];
+
+const SQL_RULES: Rule[] = [
+  { kind: "comment", pattern: /--.*/ },
+  { kind: "comment", pattern: C_BLOCK_COMMENT },
+  { kind: "string", pattern: /'(?:''|[^'])*'?/ },
+  { kind: "property", pattern: /"(?:""|[^"])*"?/ },
+  {
+    kind: "keyword",
+    pattern: keywords(
+      `
+      select from where and or not in is null as join inner left right full outer cross on group by
+      order having limit offset insert into values update set delete create table view index drop alter
+      add column primary key foreign references distinct union all case when then else end with exists
+      between like asc desc true false default constraint unique returning`,
+      "i"
+    )
+  },
+  {
+    kind: "type",
+    pattern: keywords(
+      "int integer bigint smallint text varchar char boolean date timestamp numeric decimal real serial",
+      "i"
+    )
+  },
+  { kind: "number", pattern: NUMBER },
+  { kind: "function", pattern: FUNCTION_CALL }
+];
+
+const YAML_RULES: Rule[] = [
+  { kind: "comment", pattern: /(?<![^\s])#.*/ },
+  { kind: "property", pattern: /[\w.$/][\w .$/-]*(?=\s*:(?:\s|$))/ },
+  { kind: "string", pattern: DOUBLE_QUOTED },
+  { kind: "string", pattern: /'(?:''|[^'\n])*'?/ },
+  { kind: "type", pattern: /[&*][\w-]+|!![\w]+/ },
+  { kind: "keyword", pattern: keywords("true false null yes no on off") },
+  { kind: "keyword", pattern: /~/ },
+  { kind: "number", pattern: /-?\b\d+(?:\.\d+)?\b/ }
+];
+
+const GO_RULES: Rule[] = [
+  { kind: "comment", pattern: C_LINE_COMMENT },
+  { kind: "comment", pattern: C_BLOCK_COMMENT },
+  { kind: "string", pattern: DOUBLE_QUOTED },
+  { kind: "string", pattern: /`[^`]*`?/ },
+  { kind: "string", pattern: SINGLE_QUOTED },
+  {
+    kind: "keyword",
+    pattern: keywords(`
+      break case chan const continue default defer else fallthrough for func go goto if import interface
+      map package range return select struct switch type var true false nil iota`)
+  },
+  {
+    kind: "type",
+    pattern: keywords(`
+      bool byte complex64 complex128 error float32 float64 int int8 int16 int32 int64 rune string uint
+      uint8 uint16 uint32 uint64 uintptr any`)
+  },
+  { kind: "number", pattern: NUMBER },
+  { kind: "function", pattern: FUNCTION_CALL },
+  { kind: "type", pattern: CAPITALIZED }
+];
+
+const LANGUAGES: Record<string, Rule[]> = {
+  typescript: JS_RULES,
+  ts: JS_RULES,
+  tsx: JS_RULES,
+  javascript: JS_RULES,
+  js: JS_RULES,
+  jsx: JS_RULES,
+  mjs: JS_RULES,
+  python: PYTHON_RULES,
+  py: PYTHON_RULES,
+  json: JSON_RULES,
+  jsonc: [
+    { kind: "comment", pattern: C_LINE_COMMENT },
+    { kind: "comment", pattern: C_BLOCK_COMMENT },
+    ...JSON_RULES
+  ],
+  bash: BASH_RULES,
+  sh: BASH_RULES,
+  shell: BASH_RULES,
+  zsh: BASH_RULES,
+  sql: SQL_RULES,
+  yaml: YAML_RULES,
+  yml: YAML_RULES,
+  go: GO_RULES,
+  golang: GO_RULES
+};
+
+const STICKY_RULES = new Map<Rule[], Array<{ kind: TokenKind; pattern: RegExp }>>();
+
+/** Tokens never span lines; unknown languages give one plain token per line. */
+export function highlightCode(code: string, language: string | undefined): CodeToken[][] {
+  const rules = language ? LANGUAGES[language.toLowerCase()] : undefined;
+  if (!rules) {
+    return code.split("\n").map(line => [{ text: line, kind: "plain" }]);
+  }
+
+  const sticky = stickyRules(rules);
+  const tokens: CodeToken[] = [];
+  let plain = "";
+  let index = 0;
+
+  while (index < code.length) {
+    let matched: CodeToken | undefined;
+    for (const rule of sticky) {
+      rule.pattern.lastIndex = index;
+      const match = rule.pattern.exec(code);
+      if (match && match[0].length > 0) {
+        matched = { text: match[0], kind: rule.kind };
+        break;
+      }
+    }
+    if (!matched) {
+      // Consume whole identifiers so keywords are never matched inside longer names.
+      const word = /[\w$]+/y;
+      word.lastIndex = index;
+      const text = word.exec(code)?.[0] ?? code[index];
+      plain += text;
+      index += text.length;
+      continue;
+    }
+    if (plain) {
+      tokens.push({ text: plain, kind: "plain" });
+      plain = "";
+    }
+    tokens.push(matched);
+    index += matched.text.length;
+  }
+  if (plain) {
+    tokens.push({ text: plain, kind: "plain" });
+  }
+
+  return splitTokenLines(tokens);
+}
+
+function stickyRules(rules: Rule[]): Array<{ kind: TokenKind; pattern: RegExp }> {
+  let sticky = STICKY_RULES.get(rules);
+  if (!sticky) {
+    sticky = rules.map(rule => ({
+      kind: rule.kind,
+      pattern: new RegExp(rule.pattern.source, `${rule.pattern.flags.replace(/[gy]/g, "")}y`)
+    }));
+    STICKY_RULES.set(rules, sticky);
+  }
+  return sticky;
+}
+
+function splitTokenLines(tokens: CodeToken[]): CodeToken[][] {
+  const lines: CodeToken[][] = [[]];
+  tokens.forEach(token => {
+    token.text.split("\n").forEach((part, partIndex) => {
+      if (partIndex > 0) {
+        lines.push([]);
+      }
+      if (part) {
+        lines[lines.length - 1].push({ text: part, kind: token.kind });
+      }
+    });
+  });
+  return lines;
+}
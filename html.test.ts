@@ -0,0 +1,108 @@
+import { spawnSync } from "child_process";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import PptxGenJS from "pptxgenjs";
+import { renderHtml } from "./html";
+import { DeckLayout, createDeckLayout } from "./recorder";
+import { parseSlides, renderSlides } from "./txt2ppt";
+
+const PNG = Buffer.from(
+  "iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mNkYAAAAAYAAjCB0C8AAAAASUVORK5CYII=",
+  "base64"
+);
+
+const DECK = `# Intro <1>
+
+Text with a [link](https://example.com) & more.
+
+- one
+- two
+
+>note: Remember <this>
+
+# Picture
+
+![A dot](dot.png)
+
+| a | b |
+|---|---|
+| 1 | 2 |
+`;
+
+describe("HTML and JSON output", () => {
+  let dir: string;
+  let layout: DeckLayout;
+
+  beforeAll(async () => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "txt2ppt-html-"));
+    fs.writeFileSync(path.join(dir, "dot.png"), PNG);
+    fs.writeFileSync(path.join(dir, "deck.md"), DECK);
+    layout = createDeckLayout();
+    await renderSlides(new PptxGenJS(), parseSlides(DECK), {
+      layout: "LAYOUT_16x9",
+      revision: "1",
+      baseDir: dir,
+      layoutRecord: layout
+    });
+  });
+
+  afterAll(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+  it("records masters, elements and notes of every slide", () => {
+    expect(layout.size).toEqual({ width: 10, height: 5.625 });
+    expect(layout.lang).toBe("ja-JP");
+    expect(Object.keys(layout.masters)).toEqual(expect.arrayContaining(["title", "section", "content"]));
+    expect(layout.slides).toHaveLength(2);
+    expect(layout.slides[0].notes).toEqual(["Remember <this>"]);
+    expect(layout.slides[1].elements.map(element => element.type)).toEqual(["text", "image", "table"]);
+  });
+
+  it("writes a self-contained slideshow with escaped text, links, images and notes", async () => {
+    const html = await renderHtml(layout, { title: "Deck & co" });
+    expect(html.startsWith("<!DOCTYPE html>")).toBe(true);
+    expect(html).toContain("<title>Deck &#38; co</title>");
+    expect(html.match(/<section class="slide"/g)).toHaveLength(2);
+    expect(html).toContain("Intro &#60;1&#62;");
+    expect(html).toContain('<a href="https://example.com" target="_blank" rel="noopener">');
+    expect(html).toContain(`src="data:image/png;base64,${PNG.toString("base64")}"`);
+    expect(html).toContain('alt="A dot"');
+    expect(html).toContain('<aside class="notes">Remember &#60;this&#62;</aside>');
+    expect(html).toContain("<table");
+  });
+
+  it("keeps web, mail and slide links, including the agenda's, and writes other links as plain text", async () => {
+    const markdown = "# Links\n[web](http://a.test) [mail](mailto:a@b.test) [next](#2) [bad](javascript:void)\n";
+    const links = createDeckLayout();
+    await renderSlides(new PptxGenJS(), parseSlides(markdown), {
+      layout: "LAYOUT_16x9",
+      revision: "1",
+      agenda: "Agenda",
+      layoutRecord: links
+    });
+    const html = await renderHtml(links, {});
+    expect(html.match(/<a href="[^"]*"/g)).toEqual([
+      '<a href="#2"',
+      '<a href="http://a.test"',
+      '<a href="mailto:a@b.test"',
+      '<a href="#2"'
+    ]);
+    expect(JSON.stringify(links.slides)).toContain('"url":"javascript:void"');
+    expect(html).not.toContain("javascript:");
+    expect(html).toContain(">bad<");
+  });
+
+  it("writes the parsed slides and layout as JSON with paths relative to the Markdown file", () => {
+    const outPath = path.join(dir, "deck.json");
+    const result = spawnSync(
+      process.execPath,
+      [require.resolve("ts-node/dist/bin"), "-T", "txt2ppt.ts", "--in", path.join(dir, "deck.md"), "--out", outPath],
+      { cwd: __dirname, encoding: "utf8" }
+    );
+    expect(result.stderr).toBe("");
+    const dump = JSON.parse(fs.readFileSync(outPath, "utf8"));
+    expect(dump.slides.map((slide: { title: string }) => slide.title)).toEqual(["Intro <1>", "Picture"]);
+    expect(dump.layout.slides).toHaveLength(2);
+    expect(dump.layout.slides[1].elements[1].options.path).toBe("dot.png");
+  }, 60000);
+});
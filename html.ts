@@ -0,0 +1,710 @@
+import fs from "fs/promises";
+import path from "path";
+import PptxGenJS from "pptxgenjs";
+import { formatListNumber, toNumberStyle } from "./lists";
+import { DeckLayout, RecordedElement, RecordedSlide } from "./recorder";
+
+export interface HtmlOptions {
+  title?: string;
+}
+
+interface Box {
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+}
+
+type SvgAttributes = Record<string, string | number>;
+
+interface HtmlContext {
+  width: number;
+  height: number;
+  /** Data URIs of the images read so far, keyed by path. */
+  images: Map<string, string>;
+}
+
+const DEFAULT_FONT_SIZE = 18;
+const DEFAULT_COLOR = "000000";
+const BULLET_INDENT_PT = 27;
+const INSET_X = 0.1;
+const INSET_Y = 0.05;
+const CHART_FONT_SIZE = 10;
+const CHART_GRID_LINES = 4;
+const GRID_LINE: SvgAttributes = { stroke: "#D9D9D9", "stroke-width": 0.01 };
+const IMAGE_TYPES: Record<string, string> = {
+  ".png": "image/png",
+  ".jpg": "image/jpeg",
+  ".jpeg": "image/jpeg",
+  ".gif": "image/gif",
+  ".svg": "image/svg+xml",
+  ".webp": "image/webp",
+  ".bmp": "image/bmp"
+};
+const REMOTE_PATH_REGEX = /^(https?:|data:)/i;
+/** Links the page keeps: web pages, mail addresses and other slides (`#3`). */
+const SAFE_LINK_REGEX = /^(?:https?:|mailto:|#\d+$)/i;
+/** Seconds per transition speed, roughly PowerPoint's. */
+const TRANSITION_DURATIONS = { slow: 1, medium: 0.75, fast: 0.5 };
+
+export async function renderHtml(layout: DeckLayout, options: HtmlOptions = {}): Promise<string> {
+  const context: HtmlContext = { width: layout.size.width, height: layout.size.height, images: new Map() };
+  const slides: string[] = [];
+  const notes: string[] = [];
+  for (const [index, slide] of layout.slides.entries()) {
+    slides.push(await renderSlide(slide, index + 1, layout, context));
+    notes.push(`<aside class="notes">${escapeHtml(slide.notes.join("\n\n"))}</aside>`);
+  }
+
+  return [
+    "<!DOCTYPE html>",
+    `<html lang="${escapeHtml(layout.lang)}">`,
+    "<head>",
+    '<meta charset="utf-8">',
+    '<meta name="viewport" content="width=device-width, initial-scale=1">',
+    `<title>${escapeHtml(options.title ?? "Slides")}</title>`,
+    `<style>${styles(layout.size.width / layout.size.height)}</style>`,
+    "</head>",
+    "<body>",
+    '<main class="deck">',
+    ...slides,
+    "</main>",
+    '<div class="notes-panel">',
+    ...notes,
+    "</div>",
+    '<div class="counter"></div>',
+    `<script>${NAVIGATION_SCRIPT}</script>`,
+    "</body>",
+    "</html>",
+    ""
+  ].join("\n");
+}
+
+async function renderSlide(
+  slide: RecordedSlide,
+  number: number,
+  layout: DeckLayout,
+  context: HtmlContext
+): Promise<string> {
+  const master = slide.master ? layout.masters[slide.master] : undefined;
+  const background = await backgroundStyle(slide.background ?? master?.background, context);
+  const parts: string[] = [];
+
+  for (const object of master?.objects ?? []) {
+    if ("image" in object) {
+      parts.push(await renderImage(object.image, context));
+    } else if ("text" in object) {
+      parts.push(renderText(object.text.text ?? "", object.text.options ?? {}, context));
+    } else if ("rect" in object) {
+      parts.push(renderShape("rect", object.rect, context));
+    } else if ("line" in object) {
+      parts.push(renderShape("line", object.line, context));
+    }
+  }
+  if (master?.slideNumber) {
+    parts.push(renderText(String(number), master.slideNumber, context));
+  }
+  for (const element of slide.elements) {
+    parts.push(await renderElement(element, context));
+  }
+
+  const { transition } = slide;
+  const animated = transition && transition.type !== "none" && transition.type !== "cut";
+  const attributes = animated ? ` data-transition="${transition.type}"` : "";
+  const duration = animated && transition.speed ? `animation-duration: ${TRANSITION_DURATIONS[transition.speed]}s` : "";
+  const style = styleAttribute([background, duration]);
+  return `<section class="slide"${attributes}${style}>\n${parts.join("\n")}\n</section>`;
+}
+
+async function renderElement(element: RecordedElement, context: HtmlContext): Promise<string> {
+  switch (element.type) {
+    case "text":
+      return renderText(element.text, element.options, context);
+    case "shape":
+      return renderShape(element.shape, element.options, context);
+    case "image":
+      return renderImage(element.options, context);
+    case "table":
+      return renderTable(element.rows, element.options, context);
+    case "chart":
+      return renderChart(element.chart, element.data, element.options, context);
+    default:
+      return "";
+  }
+}
+
+async function backgroundStyle(
+  background: PptxGenJS.BackgroundProps | undefined,
+  context: HtmlContext
+): Promise<string> {
+  if (!background) {
+    return "";
+  }
+  if (background.path || background.data) {
+    const source = await imageSource(background, context);
+    return `background: url('${source}') center / cover no-repeat`;
+  }
+  return background.color ? `background: #${background.color}` : "";
+}
+
+function renderText(
+  text: string | PptxGenJS.TextProps[],
+  options: PptxGenJS.TextPropsOptions,
+  context: HtmlContext
+): string {
+  const box = toBox(options);
+  const margin = typeof options.margin === "number" ? options.margin / 72 : undefined;
+  const paddingX = margin ?? INSET_X;
+  const paddingY = margin ?? INSET_Y;
+  const valign = { top: "flex-start", middle: "center", bottom: "flex-end" }[options.valign ?? "middle"];
+  const style = [
+    boxStyle(box, context),
+    `padding: ${inches(paddingY, context)} ${inches(paddingX, context)}`,
+    `justify-content: ${valign}`,
+    `font-family: ${fontFamily(options.fontFace)}`,
+    `font-size: ${points(options.fontSize ?? DEFAULT_FONT_SIZE, context)}`,
+    `color: #${options.color ?? DEFAULT_COLOR}`,
+    options.lineSpacing ? `line-height: ${points(options.lineSpacing, context)}` : "",
+    options.bold ? "font-weight: bold" : "",
+    options.italic ? "font-style: italic" : "",
+    `text-align: ${toTextAlign(options.align)}`
+  ];
+  const shape = options.shape ? shapeSvg(options.shape as PptxGenJS.SHAPE_NAME, box, options, context) : "";
+  if (!options.shape && options.fill?.color) {
+    style.push(`background: #${options.fill.color}`);
+  }
+  const runs = typeof text === "string" ? [{ text }] : text;
+  return `${shape}<div class="text"${styleAttribute(style)}>${renderParagraphs(runs, context)}</div>`;
+}
+
+/** A paragraph ends after a `breakLine` run or at a newline and takes its bullet from its first run. */
+function renderParagraphs(runs: PptxGenJS.TextProps[], context: HtmlContext): string {
+  const paragraphs: PptxGenJS.TextProps[][] = [[]];
+  runs.forEach(run => {
+    (run.text ?? "").split("\n").forEach((part, index) => {
+      if (index > 0) {
+        paragraphs.push([]);
+      }
+      paragraphs[paragraphs.length - 1].push({ text: part, options: run.options });
+    });
+    if (run.options?.breakLine) {
+      paragraphs.push([]);
+    }
+  });
+  if (paragraphs.length > 1 && paragraphs[paragraphs.length - 1].length === 0) {
+    paragraphs.pop();
+  }
+
+  const counters: number[] = [];
+  return paragraphs
+    .map(paragraph => {
+      const first = paragraph[0]?.options ?? {};
+      const level = first.indentLevel ?? 0;
+      const style = [first.align ? `text-align: ${toTextAlign(first.align)}` : ""];
+      let marker = "";
+      const bullet = first.bullet;
+      counters.length = bullet && typeof bullet === "object" && bullet.type === "number" ? level + 1 : level;
+      if (bullet) {
+        if (typeof bullet === "object" && bullet.type === "number") {
+          counters[level] = bullet.numberStartAt ?? (counters[level] ?? 0) + 1;
+          marker = `${formatListNumber(counters[level], toNumberStyle(bullet.style))}.`;
+        } else {
+          const code = typeof bullet === "object" ? bullet.characterCode ?? bullet.code : undefined;
+          marker = code ? String.fromCodePoint(Number.parseInt(code, 16)) : "•";
+        }
+        const indent = points(BULLET_INDENT_PT * (level + 1), context);
+        style.push(`padding-left: ${indent}`, `text-indent: -${points(BULLET_INDENT_PT, context)}`);
+      }
+      const content =
+        paragraph.map(run => (run.options?.softBreakBefore ? "<br>" : "") + renderRun(run, context)).join("") ||
+        "&#8203;";
+      const markerStyle = styleAttribute([`width: ${points(BULLET_INDENT_PT, context)}`]);
+      const markerHtml = marker ? `<span class="marker"${markerStyle}>${marker}</span>` : "";
+      return `<p${styleAttribute(style)}>${markerHtml}${content}</p>`;
+    })
+    .join("");
+}
+
+function renderRun(run: PptxGenJS.TextProps, context: HtmlContext): string {
+  const options = run.options ?? {};
+  const style = [
+    options.fontFace ? `font-family: ${fontFamily(options.fontFace)}` : "",
+    options.fontSize ? `font-size: ${points(options.fontSize, context)}` : "",
+    options.color ? `color: #${options.color}` : "",
+    options.bold !== undefined ? `font-weight: ${options.bold ? "bold" : "normal"}` : "",
+    options.italic !== undefined ? `font-style: ${options.italic ? "italic" : "normal"}` : "",
+    options.strike ? "text-decoration: line-through" : ""
+  ];
+  const text = escapeHtml(run.text ?? "");
+  const span = joinStyle(style) ? `<span${styleAttribute(style)}>${text}</span>` : text;
+  const href = linkTarget(options.hyperlink);
+  if (!href) {
+    return span;
+  }
+  return href.startsWith("#")
+    ? `<a href="${href}">${span}</a>`
+    : `<a href="${escapeHtml(href)}" target="_blank" rel="noopener">${span}</a>`;
+}
+
+/** Where a link goes in the page; other schemes, such as `javascript:`, are shown as plain text. */
+function linkTarget(link: PptxGenJS.HyperlinkProps | undefined): string | undefined {
+  if (link?.slide) {
+    return `#${link.slide}`;
+  }
+  const url = link?.url?.trim();
+  return url && SAFE_LINK_REGEX.test(url) ? url : undefined;
+}
+
+function renderShape(shape: PptxGenJS.SHAPE_NAME, options: PptxGenJS.ShapeProps, context: HtmlContext): string {
+  return shapeSvg(shape, toBox(options), options, context);
+}
+
+/** An SVG covering the whole slide, in inches, so that strokes and arrow heads keep their proportions. */
+function shapeSvg(
+  shape: PptxGenJS.SHAPE_NAME,
+  box: Box,
+  options: PptxGenJS.ShapeProps | PptxGenJS.TextPropsOptions,
+  context: HtmlContext
+): string {
+  const fill = options.fill?.color ? `#${options.fill.color}` : "none";
+  const line = options.line;
+  const strokeWidth = (line?.width ?? 1) / 72;
+  const stroke = line?.color ? `#${line.color}` : "none";
+  const paint: SvgAttributes = { fill, stroke, "stroke-width": strokeWidth };
+  if (line?.dashType && line.dashType !== "solid") {
+    paint["stroke-dasharray"] = `${strokeWidth * 4} ${strokeWidth * 3}`;
+  }
+  const { x, y, w, h } = box;
+  let body: string;
+  let defs = "";
+
+  switch (shape) {
+    case "line": {
+      const [x1, x2] = "flipH" in options && options.flipH ? [x + w, x] : [x, x + w];
+      const [y1, y2] = "flipV" in options && options.flipV ? [y + h, y] : [y, y + h];
+      const attributes: SvgAttributes = { x1, y1, x2, y2, ...paint };
+      if (line?.endArrowType) {
+        const id = `arrow-${stroke.slice(1)}`;
+        const head = svg("path", { d: "M0,0 L10,5 L0,10 z", fill: stroke });
+        const marker = { id, viewBox: "0 0 10 10", refX: 9, refY: 5, markerWidth: 5, markerHeight: 5, orient: "auto" };
+        defs = `<defs>${svg("marker", marker, head)}</defs>`;
+        attributes["marker-end"] = `url(#${id})`;
+      }
+      body = svg("line", attributes);
+      break;
+    }
+    case "ellipse":
+      body = svg("ellipse", { cx: x + w / 2, cy: y + h / 2, rx: w / 2, ry: h / 2, ...paint });
+      break;
+    case "diamond":
+      const points = [`${x + w / 2},${y}`, `${x + w},${y + h / 2}`, `${x + w / 2},${y + h}`, `${x},${y + h / 2}`];
+      body = svg("polygon", { points: points.join(" "), ...paint });
+      break;
+    case "can": {
+      const ry = Math.min(h / 8, w / 4);
+      const side = `M${x},${y + ry} A${w / 2},${ry} 0 0 0 ${x + w},${y + ry} V${y + h - ry}`;
+      const bottom = `A${w / 2},${ry} 0 0 1 ${x},${y + h - ry} Z`;
+      const top = `M${x},${y + ry} A${w / 2},${ry} 0 0 1 ${x + w},${y + ry}`;
+      body = svg("path", { d: `${side} ${bottom}`, ...paint }) + svg("path", { d: top, ...paint });
+      break;
+    }
+    default: {
+      const radius = shape === "roundRect" ? Math.min(options.rectRadius ?? 0.1, w / 2, h / 2) : 0;
+      body = svg("rect", { x, y, width: w, height: h, rx: radius, ...paint });
+    }
+  }
+
+  return `<svg class="shape" viewBox="0 0 ${context.width} ${context.height}">${defs}${body}</svg>`;
+}
+
+async function renderImage(options: PptxGenJS.ImageProps, context: HtmlContext): Promise<string> {
+  const source = await imageSource(options, context);
+  const sizing = options.sizing?.type;
+  const fit = sizing === "cover" || sizing === "crop" ? "cover" : sizing ? "contain" : "fill";
+  const style = [boxStyle(toBox(options), context), `object-fit: ${fit}`];
+  const alt = escapeHtml(options.altText ?? "");
+  return `<img class="image" src="${escapeHtml(source)}" alt="${alt}"${styleAttribute(style)}>`;
+}
+
+function renderTable(rows: PptxGenJS.TableRow[], options: PptxGenJS.TableProps, context: HtmlContext): string {
+  const rowHeights = Array.isArray(options.rowH) ? options.rowH : [];
+  const border = options.border && !Array.isArray(options.border) ? options.border : undefined;
+  const cellBorder =
+    border && border.type !== "none"
+      ? `border: ${points(border.pt ?? 1, context)} solid #${border.color ?? DEFAULT_COLOR}`
+      : "";
+  const body = rows
+    .map((row, rowIndex) => {
+      const height = rowHeights[rowIndex] ? `height: ${inches(rowHeights[rowIndex], context)}` : "";
+      const cells = row.map(cell => {
+        const cellOptions = cell.options ?? {};
+        const style = [
+          cellBorder,
+          `padding: ${inches(INSET_Y, context)} ${inches(INSET_X, context)}`,
+          `text-align: ${toTextAlign(cellOptions.align)}`,
+          cellOptions.fill?.color ? `background: #${cellOptions.fill.color}` : ""
+        ];
+        // Cell text is either a string or runs; nested cells are not used by txt2ppt.
+        const runs = typeof cell.text === "string" ? [{ text: cell.text }] : (cell.text ?? []);
+        const spans = [
+          cellOptions.colspan ? ` colspan="${cellOptions.colspan}"` : "",
+          cellOptions.rowspan ? ` rowspan="${cellOptions.rowspan}"` : ""
+        ].join("");
+        const content = renderParagraphs(runs as PptxGenJS.TextProps[], context);
+        return `<td${spans}${styleAttribute(style)}>${content}</td>`;
+      });
+      return `<tr${styleAttribute([height])}>${cells.join("")}</tr>`;
+    })
+    .join("");
+  const columns = Array.isArray(options.colW)
+    ? `<colgroup>${options.colW.map(width => `<col style="width: ${inches(width, context)}">`).join("")}</colgroup>`
+    : "";
+  const style = [
+    boxStyle({ ...toBox(options), h: 0 }, context),
+    "height: auto",
+    `font-family: ${fontFamily(options.fontFace)}`,
+    `font-size: ${points(options.fontSize ?? DEFAULT_FONT_SIZE, context)}`,
+    `color: #${options.color ?? DEFAULT_COLOR}`
+  ];
+  return `<table class="table"${styleAttribute(style)}>${columns}${body}</table>`;
+}
+
+/** Bar, line, area and pie charts are drawn as SVG; other kinds fall back to a table of their data. */
+function renderChart(
+  kind: PptxGenJS.CHART_NAME,
+  data: PptxGenJS.OptsChartData[],
+  options: PptxGenJS.IChartOpts,
+  context: HtmlContext
+): string {
+  const box = toBox(options);
+  const colors = (options.chartColors ?? ["4472C4"]).map(color => `#${color}`);
+  const color = `#${options.catAxisLabelColor ?? options.legendColor ?? DEFAULT_COLOR}`;
+  const font = options.legendFontFace ?? options.catAxisLabelFontFace;
+  const fontSize = (options.legendFontSize ?? CHART_FONT_SIZE) / 72;
+  const title = options.showTitle && options.title ? options.title : "";
+  const parts: string[] = [];
+  let top = 0.1;
+  if (title) {
+    const titleSize = (options.titleFontSize ?? CHART_FONT_SIZE + 4) / 72;
+    const titleColor = `#${options.titleColor ?? DEFAULT_COLOR}`;
+    parts.push(svgText(box.w / 2, top + titleSize, title, titleSize, titleColor, "middle"));
+    top += titleSize * 1.6;
+  }
+  const legend = options.showLegend ? data.map(series => series.name ?? "") : [];
+  const bottom = box.h - (legend.length > 0 ? fontSize * 2.2 : 0.1);
+  if (legend.length > 0) {
+    const names = kind === "pie" || kind === "doughnut" ? data[0]?.labels?.map(String) ?? [] : legend;
+    const step = box.w / Math.max(names.length, 1);
+    names.forEach((name, index) => {
+      const x = step * index + step / 2;
+      const swatch = { width: fontSize * 0.7, height: fontSize * 0.7, fill: colors[index % colors.length] };
+      parts.push(
+        svg("rect", { x: x - fontSize * 0.9, y: bottom + fontSize * 0.6, ...swatch }),
+        svgText(x, bottom + fontSize * 1.25, name, fontSize, color, "start")
+      );
+    });
+  }
+
+  const plot = { x: 0, y: top, w: box.w, h: bottom - top };
+  if (kind === "pie" || kind === "doughnut") {
+    parts.push(pieSvg(data[0]?.values ?? [], plot, colors, kind === "doughnut" ? (options.holeSize ?? 50) / 100 : 0));
+  } else if (kind === "bar" || kind === "line" || kind === "area") {
+    parts.push(plotSvg(kind, data, options, plot, colors, { color, fontSize }));
+  } else {
+    return renderChartTable(data, box, options, context);
+  }
+
+  const style = joinStyle([boxStyle(box, context), `font-family: ${fontFamily(font)}`]);
+  return svg("svg", { class: "chart", viewBox: `0 0 ${box.w} ${box.h}`, style }, parts.join(""));
+}
+
+function plotSvg(
+  kind: "bar" | "line" | "area",
+  data: PptxGenJS.OptsChartData[],
+  options: PptxGenJS.IChartOpts,
+  area: Box,
+  colors: string[],
+  label: { color: string; fontSize: number }
+): string {
+  const categories = data[0]?.labels?.map(String) ?? [];
+  const stacked = options.barGrouping === "stacked";
+  const horizontal = kind === "bar" && options.barDir === "bar";
+  const totals = categories.map((_, index) =>
+    data.reduce((sum, series) => sum + Math.max(series.values?.[index] ?? 0, 0), 0)
+  );
+  const values = data.flatMap(series => series.values ?? []);
+  const max = niceMax(Math.max(stacked ? Math.max(...totals, 0) : Math.max(...values, 0), 1));
+  const min = Math.min(...values, 0) < 0 ? -niceMax(-Math.min(...values)) : 0;
+  const { fontSize, color } = label;
+  const labelWidth = fontSize * Math.max(String(max).length, String(min).length) * 0.7 + 0.1;
+  const plot = horizontal
+    ? { x: area.x + fontSize * 6, y: area.y, w: area.w - fontSize * 6 - 0.1, h: area.h - fontSize * 1.8 }
+    : { x: area.x + labelWidth, y: area.y, w: area.w - labelWidth - 0.1, h: area.h - fontSize * 1.8 };
+  const length = horizontal ? plot.w : plot.h;
+  const scale = (value: number): number => ((value - min) / (max - min)) * length;
+  const parts: string[] = [];
+
+  for (let index = 0; index <= CHART_GRID_LINES; index += 1) {
+    const value = min + ((max - min) * index) / CHART_GRID_LINES;
+    const offset = scale(value);
+    const text = String(Math.round(value * 100) / 100);
+    if (horizontal) {
+      const x = plot.x + offset;
+      parts.push(svg("line", { x1: x, y1: plot.y, x2: x, y2: plot.y + plot.h, ...GRID_LINE }));
+      parts.push(svgText(x, plot.y + plot.h + fontSize * 1.2, text, fontSize, color, "middle"));
+    } else {
+      const y = plot.y + plot.h - offset;
+      parts.push(svg("line", { x1: plot.x, y1: y, x2: plot.x + plot.w, y2: y, ...GRID_LINE }));
+      parts.push(svgText(plot.x - 0.08, y + fontSize * 0.35, text, fontSize, color, "end"));
+    }
+  }
+
+  const band = (horizontal ? plot.h : plot.w) / Math.max(categories.length, 1);
+  categories.forEach((category, index) => {
+    const center = band * index + band / 2;
+    parts.push(
+      horizontal
+        ? svgText(plot.x - 0.08, plot.y + center + fontSize * 0.35, category, fontSize, color, "end")
+        : svgText(plot.x + center, plot.y + plot.h + fontSize * 1.2, category, fontSize, color, "middle")
+    );
+  });
+
+  if (kind === "bar") {
+    const groupWidth = band * 0.7;
+    const barWidth = stacked ? groupWidth : groupWidth / Math.max(data.length, 1);
+    const stackOffsets = categories.map(() => 0);
+    data.forEach((series, seriesIndex) => {
+      (series.values ?? []).forEach((value, index) => {
+        const start = stacked ? stackOffsets[index] : 0;
+        stackOffsets[index] += Math.max(value, 0);
+        const from = scale(Math.min(start, start + value));
+        const size = Math.abs(scale(start + value) - scale(start));
+        const across = band * index + (band - groupWidth) / 2 + (stacked ? 0 : barWidth * seriesIndex);
+        const rect = horizontal
+          ? { x: plot.x + from, y: plot.y + across, w: size, h: barWidth }
+          : { x: plot.x + across, y: plot.y + plot.h - from - size, w: barWidth, h: size };
+        const fill = colors[seriesIndex % colors.length];
+        parts.push(svg("rect", { x: rect.x, y: rect.y, width: rect.w, height: rect.h, fill }));
+      });
+    });
+  } else {
+    const baseline = plot.y + plot.h - scale(Math.max(min, 0));
+    data.forEach((series, seriesIndex) => {
+      const points = (series.values ?? []).map(
+        (value, index) => `${plot.x + band * index + band / 2},${plot.y + plot.h - scale(value)}`
+      );
+      const seriesColor = colors[seriesIndex % colors.length];
+      if (kind === "area" && points.length > 0) {
+        const first = plot.x + band / 2;
+        const last = plot.x + band * (points.length - 1) + band / 2;
+        const outline = `${first},${baseline} ${points.join(" ")} ${last},${baseline}`;
+        parts.push(svg("polygon", { points: outline, fill: seriesColor, "fill-opacity": 0.7 }));
+      } else {
+        const stroke = { fill: "none", stroke: seriesColor, "stroke-width": 0.03 };
+        parts.push(svg("polyline", { points: points.join(" "), ...stroke }));
+      }
+    });
+  }
+
+  return parts.join("");
+}
+
+function pieSvg(values: number[], area: Box, colors: string[], hole: number): string {
+  const total = values.reduce((sum, value) => sum + Math.max(value, 0), 0);
+  const radius = Math.min(area.w, area.h) / 2 - 0.05;
+  const cx = area.x + area.w / 2;
+  const cy = area.y + area.h / 2;
+  let angle = -Math.PI / 2;
+  const sectors = values.map((value, index) => {
+    const sweep = total > 0 ? (Math.max(value, 0) / total) * Math.PI * 2 : 0;
+    const point = (a: number): string => `${cx + radius * Math.cos(a)},${cy + radius * Math.sin(a)}`;
+    const arc = (end: number): string => `A${radius},${radius} 0 ${sweep > Math.PI ? 1 : 0} 1 ${point(end)}`;
+    const fill = colors[index % colors.length];
+    const sector =
+      sweep >= Math.PI * 2 - 1e-6
+        ? svg("circle", { cx, cy, r: radius, fill })
+        : svg("path", { d: `M${cx},${cy} L${point(angle)} ${arc(angle + sweep)} Z`, fill });
+    angle += sweep;
+    return sector;
+  });
+  if (hole > 0) {
+    sectors.push(svg("circle", { cx, cy, r: radius * hole, fill: "#FFFFFF" }));
+  }
+  return sectors.join("");
+}
+
+function renderChartTable(
+  data: PptxGenJS.OptsChartData[],
+  box: Box,
+  options: PptxGenJS.IChartOpts,
+  context: HtmlContext
+): string {
+  const header = ["", ...data.map(series => series.name ?? "")];
+  const rows = (data[0]?.values ?? []).map((_, index) => [
+    data[0]?.labels?.[index] !== undefined ? String(data[0].labels[index]) : String(index + 1),
+    ...data.map(series => String(series.values?.[index] ?? ""))
+  ]);
+  const cells = (row: string[], tag: string): string =>
+    `<tr>${row.map(cell => `<${tag}>${escapeHtml(cell)}</${tag}>`).join("")}</tr>`;
+  const caption = options.title ? `<caption>${escapeHtml(options.title)}</caption>` : "";
+  const style = [boxStyle(box, context), `font-size: ${points(CHART_FONT_SIZE, context)}`];
+  const body = [cells(header, "th"), ...rows.map(row => cells(row, "td"))].join("");
+  return `<table class="chart-data"${styleAttribute(style)}>${caption}${body}</table>`;
+}
+
+async function imageSource(options: PptxGenJS.DataOrPathProps, context: HtmlContext): Promise<string> {
+  if (options.data) {
+    return options.data.startsWith("data:") ? options.data : `data:${options.data}`;
+  }
+  const imagePath = options.path ?? "";
+  if (REMOTE_PATH_REGEX.test(imagePath)) {
+    return imagePath;
+  }
+  const known = context.images.get(imagePath);
+  if (known) {
+    return known;
+  }
+  const type = IMAGE_TYPES[path.extname(imagePath).toLowerCase()] ?? "application/octet-stream";
+  const source = `data:${type};base64,${(await fs.readFile(imagePath)).toString("base64")}`;
+  context.images.set(imagePath, source);
+  return source;
+}
+
+function svgText(x: number, y: number, text: string, size: number, color: string, anchor: string): string {
+  return svg("text", { x, y, "font-size": size, fill: color, "text-anchor": anchor }, escapeHtml(text));
+}
+
+/** An SVG element; without content it is written self-closing. */
+function svg(name: string, attributes: SvgAttributes, content?: string): string {
+  const written = Object.entries(attributes)
+    .map(([key, value]) => ` ${key}="${escapeHtml(String(typeof value === "number" ? round(value) : value))}"`)
+    .join("");
+  return content === undefined ? `<${name}${written}/>` : `<${name}${written}>${content}</${name}>`;
+}
+
+/** Rounds the axis maximum up to 1, 2 or 5 times a power of ten. */
+function niceMax(value: number): number {
+  const magnitude = 10 ** Math.floor(Math.log10(value));
+  const step = [1, 2, 5, 10].find(candidate => candidate * magnitude >= value) ?? 10;
+  return step * magnitude;
+}
+
+function toBox(options: PptxGenJS.PositionProps): Box {
+  const value = (coordinate: PptxGenJS.Coord | undefined): number => (typeof coordinate === "number" ? coordinate : 0);
+  return { x: value(options.x), y: value(options.y), w: value(options.w), h: value(options.h) };
+}
+
+/** Positions in cqw (hundredths of the slide width), so the slide scales with the window. */
+function boxStyle(box: Box, context: HtmlContext): string {
+  return joinStyle([
+    `left: ${inches(box.x, context)}`,
+    `top: ${inches(box.y, context)}`,
+    `width: ${inches(box.w, context)}`,
+    box.h ? `height: ${inches(box.h, context)}` : ""
+  ]);
+}
+
+function inches(value: number, context: HtmlContext): string {
+  return `${round((value / context.width) * 100)}cqw`;
+}
+
+function points(value: number, context: HtmlContext): string {
+  return inches(value / 72, context);
+}
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
+
+function toTextAlign(align: PptxGenJS.HAlign | undefined): string {
+  return align === "center" || align === "right" || align === "justify" ? align : "left";
+}
+
+function fontFamily(fontFace: string | undefined): string {
+  return fontFace ? `'${fontFace.replace(/'/g, "")}', sans-serif` : "sans-serif";
+}
+
+function joinStyle(declarations: string[]): string {
+  return declarations.filter(Boolean).join("; ");
+}
+
+function styleAttribute(declarations: string[]): string {
+  const style = joinStyle(declarations);
+  return style ? ` style="${style}"` : "";
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/[&<>"']/g, char => `&#${char.charCodeAt(0)};`);
+}
+
+function styles(aspectRatio: number): string {
+  return `
+* { box-sizing: border-box; }
+html, body { margin: 0; height: 100%; background: #1E1E1E; }
+body { display: flex; flex-direction: column; align-items: center; justify-content: center; overflow: hidden; }
+.slide { display: none; position: relative; overflow: hidden; container-type: inline-size; background: #FFFFFF;
+  width: min(100vw, calc(100vh * ${aspectRatio})); aspect-ratio: ${aspectRatio}; }
+.slide.current { display: block; }
+.slide > * { position: absolute; margin: 0; }
+.slide > svg.shape { left: 0; top: 0; width: 100%; height: 100%; overflow: visible; }
+.text { display: flex; flex-direction: column; overflow: visible; white-space: pre-wrap; word-break: break-word; }
+.text p, td p { margin: 0; }
+.marker { display: inline-block; text-indent: 0; }
+.table { border-collapse: collapse; table-layout: fixed; }
+.table td { vertical-align: middle; white-space: pre-wrap; }
+.chart-data { border-collapse: collapse; background: #FFFFFF; }
+.chart-data th, .chart-data td { border: 1px solid #BFBFBF; padding: 0.2em 0.5em; }
+.notes-panel { display: none; width: min(100vw, calc(70vh * ${aspectRatio})); height: 30vh; overflow: auto;
+  padding: 1em; color: #F0F0F0; font: 16px/1.5 sans-serif; white-space: pre-wrap; }
+.notes { display: none; }
+.notes.current { display: block; }
+body.notes-view .slide { width: min(100vw, calc(70vh * ${aspectRatio})); }
+body.notes-view .notes-panel { display: block; }
+.counter { position: fixed; right: 1em; bottom: 0.5em; color: #9E9E9E; font: 12px sans-serif; }
+.slide.current[data-transition] { animation: fade-in 0.6s ease-out both; }
+.slide.current[data-transition="push"], .slide.current[data-transition="cover"] { animation-name: slide-in; }
+.slide.current[data-transition="wipe"] { animation-name: wipe-in; }
+.slide.current[data-transition="split"] { animation-name: split-in; }
+.slide.current[data-transition="zoom"] { animation-name: zoom-in; }
+@keyframes fade-in { from { opacity: 0; } }
+@keyframes slide-in { from { transform: translateX(100%); } }
+@keyframes wipe-in { from { clip-path: inset(0 100% 0 0); } }
+@keyframes split-in { from { clip-path: inset(0 50%); } }
+@keyframes zoom-in { from { opacity: 0; transform: scale(0.5); } }
+@media print {
+  html, body { height: auto; background: none; overflow: visible; }
+  .slide { display: block; width: 100%; break-after: page; animation: none !important; }
+  .notes-panel, .counter { display: none; }
+}`;
+}
+
+/** ←/→ (also Space, PageUp/PageDown, Home/End) move between slides; N toggles the notes view. */
+const NAVIGATION_SCRIPT = `
+const slides = Array.from(document.querySelectorAll(".slide"));
+const notes = Array.from(document.querySelectorAll(".notes"));
+const counter = document.querySelector(".counter");
+let current = 0;
+function show(index) {
+  current = Math.max(0, Math.min(slides.length - 1, index));
+  slides.forEach((slide, i) => slide.classList.toggle("current", i === current));
+  notes.forEach((note, i) => note.classList.toggle("current", i === current));
+  counter.textContent = (current + 1) + " / " + slides.length;
+  history.replaceState(null, "", "#" + (current + 1));
+}
+document.addEventListener("keydown", event => {
+  if (event.altKey || event.ctrlKey || event.metaKey) return;
+  if (["ArrowRight", "ArrowDown", "PageDown", " "].includes(event.key)) show(current + 1);
+  else if (["ArrowLeft", "ArrowUp", "PageUp"].includes(event.key)) show(current - 1);
+  else if (event.key === "Home") show(0);
+  else if (event.key === "End") show(slides.length - 1);
+  else if (event.key === "n" || event.key === "N") document.body.classList.toggle("notes-view");
+  else if (event.key === "f" || event.key === "F") document.documentElement.requestFullscreen?.();
+  else return;
+  event.preventDefault();
+});
+document.querySelector(".deck").addEventListener("click", event => {
+  if (!event.target.closest("a")) show(current + 1);
+});
+window.addEventListener("hashchange", () => show(Number(location.hash.slice(1)) - 1));
+show((Number(location.hash.slice(1)) || 1) - 1);
+`;
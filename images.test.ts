@@ -0,0 +1,115 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import PptxGenJS from "pptxgenjs";
+import { parseImageDimensions } from "./images";
+import { parseSlides, renderSlides } from "./txt2ppt";
+
+function png(width: number, height: number): Buffer {
+  const buffer = Buffer.alloc(24);
+  buffer.writeUInt32BE(0x89504e47, 0);
+  buffer.writeUInt32BE(0x0d0a1a0a, 4);
+  buffer.writeUInt32BE(13, 8);
+  buffer.write("IHDR", 12, "ascii");
+  buffer.writeUInt32BE(width, 16);
+  buffer.writeUInt32BE(height, 20);
+  return buffer;
+}
+
+describe("parseImageDimensions", () => {
+  it("reads PNG, GIF and JPEG headers", () => {
+    expect(parseImageDimensions(png(640, 480))).toEqual({ width: 640, height: 480 });
+
+    const gif = Buffer.alloc(10);
+    gif.write("GIF89a", 0, "ascii");
+    gif.writeUInt16LE(320, 6);
+    gif.writeUInt16LE(200, 8);
+    expect(parseImageDimensions(gif)).toEqual({ width: 320, height: 200 });
+
+    const jpeg = Buffer.from([
+      0xff, 0xd8, 0xff, 0xe0, 0x00, 0x04, 0x00, 0x00, 0xff, 0xc0, 0x00, 0x11, 0x08, 0x01, 0x2c, 0x01, 0x90, 0x03
+    ]);
+    expect(parseImageDimensions(jpeg)).toEqual({ width: 400, height: 300 });
+  });
+
+  it("reads SVG sizes from width/height and falls back to the viewBox", () => {
+    const svg = Buffer.from('<svg width="2in" height="1in"></svg>');
+    expect(parseImageDimensions(svg)).toEqual({ width: 192, height: 96 });
+    expect(parseImageDimensions(Buffer.from('<svg width="200" viewBox="0 0 100 50"></svg>'))).toEqual({
+      width: 200,
+      height: 100
+    });
+    expect(parseImageDimensions(Buffer.from('<svg viewBox="0 0 30 20"></svg>'))).toEqual({ width: 30, height: 20 });
+  });
+
+  it("returns undefined for unknown formats", () => {
+    expect(parseImageDimensions(Buffer.from("plain text"))).toBeUndefined();
+  });
+});
+
+describe("image size hints", () => {
+  it("parses the hint and the sizing suffix in either order", () => {
+    const [slide] = parseSlides(
+      "# Images\n\n![a](a.png =640x480)\n![b](b.png#cover =50%)\n![c](c.png =x3cm#contain)\n![d](my photo.png)\n"
+    );
+    expect(slide.blocks).toMatchObject([
+      { type: "image", path: "a.png", size: { width: { value: 640, unit: "px" }, height: { value: 480, unit: "px" } } },
+      { type: "image", path: "b.png", sizing: "cover", size: { width: { value: 50, unit: "%" } } },
+      { type: "image", path: "c.png", sizing: "contain", size: { height: { value: 3, unit: "cm" } } },
+      { type: "image", path: "my photo.png", size: undefined }
+    ]);
+  });
+});
+
+describe("image placement", () => {
+  let dir: string;
+
+  beforeAll(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "txt2ppt-images-"));
+    fs.writeFileSync(path.join(dir, "wide.png"), png(192, 96));
+  });
+
+  afterAll(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+  async function imageBoxes(markdown: string): Promise<PptxGenJS.ImageProps[]> {
+    const pptx = new PptxGenJS();
+    const addSlide = pptx.addSlide.bind(pptx);
+    const images: PptxGenJS.ImageProps[] = [];
+    jest.spyOn(pptx, "addSlide").mockImplementation(props => {
+      const slide = addSlide(props);
+      jest.spyOn(slide, "addImage").mockImplementation(options => {
+        images.push(options);
+        return slide;
+      });
+      return slide;
+    });
+    await renderSlides(pptx, parseSlides(markdown), { layout: "LAYOUT_16x9", revision: "1", baseDir: dir });
+    return images;
+  }
+
+  it("uses the natural size at 96 dpi without a hint", async () => {
+    const [image] = await imageBoxes("# A\n\n![w](wide.png)\n");
+    expect(image.w).toBeCloseTo(2);
+    expect(image.h).toBeCloseTo(1);
+    expect(image.sizing).toBeUndefined();
+  });
+
+  it("keeps the aspect ratio when only one side is given", async () => {
+    const [image] = await imageBoxes("# A\n\n![w](wide.png =x1.5in)\n");
+    expect(image.w).toBeCloseTo(3);
+    expect(image.h).toBeCloseTo(1.5);
+  });
+
+  it("stretches to an explicit box with cover sizing", async () => {
+    const [image] = await imageBoxes("# A\n\n![w](wide.png#cover =2inx2in)\n");
+    expect(image.w).toBeCloseTo(2);
+    expect(image.h).toBeCloseTo(2);
+    expect(image.sizing).toMatchObject({ type: "cover", w: image.w, h: image.h });
+  });
+
+  it("reports every missing file at once", async () => {
+    await expect(imageBoxes("# A\n\n![a](gone-a.png)\n![b](gone-b.png)\n")).rejects.toThrow(
+      /gone-a\.png[\s\S]*gone-b\.png/
+    );
+  });
+});
@@ -0,0 +1,120 @@
+import fs from "fs/promises";
+
+export interface ImageDimensions {
+  /** Intrinsic size in pixels (CSS pixels for SVG). */
+  width: number;
+  height: number;
+}
+
+export const PIXELS_PER_INCH = 96;
+
+const SVG_UNITS: Record<string, number> = {
+  px: 1,
+  pt: 96 / 72,
+  pc: 16,
+  in: 96,
+  cm: 96 / 2.54,
+  mm: 96 / 25.4
+};
+
+const dimensionCache = new Map<string, { mtimeMs: number; dimensions?: ImageDimensions }>();
+
+/** Cached per path and modification time, so watch mode only re-reads images that changed. */
+export async function readImageDimensions(filePath: string): Promise<ImageDimensions | undefined> {
+  const { mtimeMs } = await fs.stat(filePath);
+  const cached = dimensionCache.get(filePath);
+  if (cached && cached.mtimeMs === mtimeMs) {
+    return cached.dimensions;
+  }
+  const dimensions = parseImageDimensions(await fs.readFile(filePath));
+  dimensionCache.set(filePath, { mtimeMs, dimensions });
+  return dimensions;
+}
+
+export function detectImageType(buffer: Buffer): string | undefined {
+  if (buffer.length >= 4 && buffer.readUInt32BE(0) === 0x89504e47) {
+    return "image/png";
+  }
+  if (buffer.length >= 3 && buffer.toString("ascii", 0, 3) === "GIF") {
+    return "image/gif";
+  }
+  if (buffer.length >= 2 && buffer[0] === 0xff && buffer[1] === 0xd8) {
+    return "image/jpeg";
+  }
+  return /<svg[\s>]/i.test(buffer.toString("utf8", 0, Math.min(buffer.length, 4096))) ? "image/svg+xml" : undefined;
+}
+
+export function parseImageDimensions(buffer: Buffer): ImageDimensions | undefined {
+  if (buffer.length >= 24 && buffer.readUInt32BE(0) === 0x89504e47 && buffer.toString("ascii", 12, 16) === "IHDR") {
+    return { width: buffer.readUInt32BE(16), height: buffer.readUInt32BE(20) };
+  }
+  if (buffer.length >= 10 && buffer.toString("ascii", 0, 3) === "GIF") {
+    return { width: buffer.readUInt16LE(6), height: buffer.readUInt16LE(8) };
+  }
+  if (buffer.length >= 4 && buffer[0] === 0xff && buffer[1] === 0xd8) {
+    return parseJpeg(buffer);
+  }
+  const head = buffer.toString("utf8", 0, Math.min(buffer.length, 4096));
+  if (/<svg[\s>]/i.test(head)) {
+    return parseSvg(head);
+  }
+  return undefined;
+}
+
+function parseJpeg(buffer: Buffer): ImageDimensions | undefined {
+  let offset = 2;
+  while (offset + 9 < buffer.length) {
+    if (buffer[offset] !== 0xff) {
+      offset += 1;
+      continue;
+    }
+    const marker = buffer[offset + 1];
+    if (marker === 0xff) {
+      offset += 1;
+      continue;
+    }
+    if (marker === 0xd8 || marker === 0x01 || (marker >= 0xd0 && marker <= 0xd7)) {
+      offset += 2;
+      continue;
+    }
+    const isStartOfFrame = marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc;
+    if (isStartOfFrame) {
+      return { width: buffer.readUInt16BE(offset + 7), height: buffer.readUInt16BE(offset + 5) };
+    }
+    offset += 2 + buffer.readUInt16BE(offset + 2);
+  }
+  return undefined;
+}
+
+function parseSvg(source: string): ImageDimensions | undefined {
+  const tag = source.match(/<svg\b[^>]*>/i)?.[0] ?? "";
+  const width = parseSvgLength(tag.match(/\swidth\s*=\s*["']([^"']+)["']/i)?.[1]);
+  const height = parseSvgLength(tag.match(/\sheight\s*=\s*["']([^"']+)["']/i)?.[1]);
+  if (width && height) {
+    return { width, height };
+  }
+  const viewBox = tag.match(/\sviewBox\s*=\s*["']([^"']+)["']/i)?.[1];
+  if (viewBox) {
+    const [, , boxWidth, boxHeight] = viewBox.split(/[\s,]+/).map(Number);
+    if (boxWidth > 0 && boxHeight > 0) {
+      if (width) {
+        return { width, height: (width * boxHeight) / boxWidth };
+      }
+      if (height) {
+        return { width: (height * boxWidth) / boxHeight, height };
+      }
+      return { width: boxWidth, height: boxHeight };
+    }
+  }
+  return undefined;
+}
+
+function parseSvgLength(value: string | undefined): number | undefined {
+  const match = value?.trim().match(/^([\d.]+)\s*(px|pt|pc|in|cm|mm)?$/i);
+  if (!match) {
+    return undefined;
+  }
+  const amount = Number.parseFloat(match[1]);
+  const unit = (match[2] ?? "px").toLowerCase();
+  return amount > 0 ? amount * SVG_UNITS[unit] : undefined;
+}
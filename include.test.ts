@@ -0,0 +1,84 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { expandSources, readSourceFile, relocateDocument, resolveInputs } from "./include";
+import { parseDocument } from "./txt2ppt";
+
+describe("includes", () => {
+  let dir: string;
+  const file = (name: string): string => path.join(dir, name);
+
+  beforeAll(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "txt2ppt-include-"));
+    fs.mkdirSync(file("parts"));
+    fs.mkdirSync(file("chapters"));
+    const files: Record<string, string> = {
+      "main.md": "---\ntitle: Main\n---\n# Main\n>include: parts/intro.md\n```\n>include: parts/intro.md\n```\n",
+      "parts/intro.md": "---\ntitle: Ignored\n---\n# Intro\n![pic](img/a.png)\n!include missing.md\n",
+      "cycle-a.md": "# A\n>include: cycle-b.md\n",
+      "cycle-b.md": "# B\n>include: cycle-a.md\n",
+      "chapters/10-end.md": "# End\n",
+      "chapters/2-middle.md": "# Middle\n",
+      "chapters/notes.txt": "not markdown\n"
+    };
+    Object.entries(files).forEach(([name, text]) => fs.writeFileSync(file(name), text));
+  });
+
+  afterAll(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+  it("resolves directories and wildcards in natural order", async () => {
+    expect(await resolveInputs(["chapters"], dir)).toEqual([file("chapters/2-middle.md"), file("chapters/10-end.md")]);
+    expect(await resolveInputs(["chapters/*-e*.md", "main.md", "chapters/10-end.md"], dir)).toEqual([
+      file("chapters/10-end.md"),
+      file("main.md")
+    ]);
+    await expect(resolveInputs(["chapters/*.pdf"], dir)).rejects.toThrow("No Markdown files match chapters/*.pdf");
+    await expect(resolveInputs(["*/x.md"], dir)).rejects.toThrow("Wildcards are only supported in the file name");
+  });
+
+  it("replaces include lines outside code blocks and blanks the front matter of included files", async () => {
+    const main = file("main.md");
+    const source = await expandSources([{ path: main, text: fs.readFileSync(main, "utf8") }], dir, readSourceFile);
+    expect(source.text).toBe(
+      "---\ntitle: Main\n---\n# Main\n\n\n\n# Intro\n![pic](img/a.png)\n\n```\n>include: parts/intro.md\n```\n"
+    );
+    expect(source.lines[7]).toEqual({ file: file("parts/intro.md"), line: 4 });
+    expect(source.files).toEqual([main, file("parts/intro.md"), file("parts/missing.md")]);
+    expect(source.diagnostics).toEqual([
+      {
+        severity: "error",
+        code: "missing-include",
+        message: "Included file not found: missing.md",
+        file: file("parts/intro.md"),
+        line: 6,
+        column: 1
+      }
+    ]);
+  });
+
+  it("reports include cycles instead of recursing forever", async () => {
+    const a = file("cycle-a.md");
+    const source = await expandSources([{ path: a, text: fs.readFileSync(a, "utf8") }], dir, readSourceFile);
+    expect(source.text).toBe("# A\n# B\n\n");
+    expect(source.diagnostics).toMatchObject([
+      { code: "include-cycle", message: "Include cycle: cycle-a.md -> cycle-b.md -> cycle-a.md", line: 2 }
+    ]);
+  });
+
+  it("maps positions back to the included file and rebases its relative paths", async () => {
+    const main = file("main.md");
+    const source = await expandSources([{ path: main, text: fs.readFileSync(main, "utf8") }], dir, readSourceFile);
+    const document = relocateDocument(parseDocument(source.text), source, dir);
+    const intro = document.slides[1];
+    expect(intro.title).toBe("Intro");
+    expect(intro.position).toEqual({ line: 4, column: 1, file: file("parts/intro.md") });
+    expect(intro.blocks[0]).toMatchObject({ type: "image", path: "parts/img/a.png" });
+    expect(document.frontMatter.title).toBe("Main");
+    expect(document.diagnostics[0]).toMatchObject({ code: "missing-include" });
+  });
+
+  it("resolves includes in Markdown without a path against the base directory", async () => {
+    const source = await expandSources([{ text: "# Memory\n>include: chapters/2-middle.md\n" }], dir, readSourceFile);
+    expect(source.text).toBe("# Memory\n# Middle\n\n");
+  });
+});
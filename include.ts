@@ -0,0 +1,251 @@
+import { Dirent, promises as fs, Stats } from "fs";
+import path from "path";
+import { Diagnostic } from "./diagnostics";
+import { extractFrontMatter } from "./frontMatter";
+import type { Block, ParsedDocument, SourcePosition } from "./txt2ppt";
+
+/** A Markdown input; `path` is absolute, and absent for Markdown passed in memory to `convert`. */
+export interface SourceFile {
+  path?: string;
+  text: string;
+}
+
+/** Where a line of the assembled deck comes from; `file` is absent for the first input. */
+export interface SourceLine {
+  file?: string;
+  line: number;
+}
+
+/** The inputs concatenated with every include replaced by the lines of the included file. */
+export interface ExpandedSource {
+  text: string;
+  /** Origin of each line of `text`; index 0 is line 1. */
+  lines: SourceLine[];
+  /** Every file read, inputs first, including included files that could not be read. */
+  files: string[];
+  /** Missing and cyclic includes, located at the include line. */
+  diagnostics: Diagnostic[];
+}
+
+/** Returns the text of an included file, or undefined when it does not exist. */
+export type SourceReader = (filePath: string) => Promise<string | undefined>;
+
+const INCLUDE_REGEX = /^(?:>include:|!include\s)\s*(.+)$/i;
+const CODE_FENCE_REGEX = /^```/;
+const MARKDOWN_EXTENSION_REGEX = /\.(md|markdown)$/i;
+const WILDCARD_REGEX = /[*?]/;
+const REMOTE_PATH_REGEX = /^(https?:|data:)/i;
+
+/** A directory stands for the .md files in it, a `*` or `?` for the files it matches, in natural order. */
+export async function resolveInputs(patterns: string[], cwd: string = process.cwd()): Promise<string[]> {
+  const files: string[] = [];
+  for (const pattern of patterns) {
+    const resolved = path.resolve(cwd, pattern);
+    const directory = path.dirname(resolved);
+    if (WILDCARD_REGEX.test(directory)) {
+      throw new Error(`Wildcards are only supported in the file name: ${pattern}`);
+    }
+    let matches: string[];
+    if (WILDCARD_REGEX.test(path.basename(resolved))) {
+      const matcher = wildcardRegex(path.basename(resolved));
+      matches = (await listFiles(directory, pattern)).filter(name => matcher.test(name));
+      matches = matches.map(name => path.join(directory, name));
+    } else if ((await statOrUndefined(resolved))?.isDirectory()) {
+      matches = (await listFiles(resolved, pattern)).filter(name => MARKDOWN_EXTENSION_REGEX.test(name));
+      matches = matches.map(name => path.join(resolved, name));
+    } else {
+      matches = [resolved];
+    }
+    if (matches.length === 0) {
+      throw new Error(`No Markdown files match ${pattern}`);
+    }
+    files.push(...matches.filter(file => !files.includes(file)));
+  }
+  return files;
+}
+
+/** For directories and wildcards a pattern such as `/deck/*.md`, so that files added later are seen. */
+export async function inputWatchPaths(patterns: string[], cwd: string = process.cwd()): Promise<string[]> {
+  const paths: string[] = [];
+  for (const pattern of patterns) {
+    const resolved = path.resolve(cwd, pattern);
+    if (!WILDCARD_REGEX.test(path.basename(resolved)) && (await statOrUndefined(resolved))?.isDirectory()) {
+      paths.push(path.join(resolved, "*.md"), path.join(resolved, "*.markdown"));
+    } else {
+      paths.push(resolved);
+    }
+  }
+  return paths;
+}
+
+/** Whether `filePath` is `pattern`, an absolute path that may have `*` or `?` in its file name. */
+export function matchesPath(pattern: string, filePath: string): boolean {
+  if (!WILDCARD_REGEX.test(path.basename(pattern))) {
+    return pattern === filePath;
+  }
+  return (
+    path.dirname(pattern) === path.dirname(filePath) &&
+    wildcardRegex(path.basename(pattern)).test(path.basename(filePath))
+  );
+}
+
+async function listFiles(directory: string, pattern: string): Promise<string[]> {
+  let entries: Dirent[];
+  try {
+    entries = await fs.readdir(directory, { withFileTypes: true });
+  } catch (error) {
+    throw new Error(`Failed to read input directory for ${pattern}: ${(error as Error).message}`);
+  }
+  return entries
+    .filter(entry => entry.isFile())
+    .map(entry => entry.name)
+    .sort((a, b) => a.localeCompare(b, undefined, { numeric: true }));
+}
+
+async function statOrUndefined(filePath: string): Promise<Stats | undefined> {
+  try {
+    return await fs.stat(filePath);
+  } catch {
+    return undefined;
+  }
+}
+
+function wildcardRegex(pattern: string): RegExp {
+  const source = pattern
+    .split("")
+    .map(char => (char === "*" ? "[^/]*" : char === "?" ? "[^/]" : char.replace(/[.+^${}()|[\]\\]/g, "\\$&")))
+    .join("");
+  return new RegExp(`^${source}$`);
+}
+
+/** Include paths are relative to the including file; only the first input's front matter is kept. */
+export async function expandSources(
+  inputs: SourceFile[],
+  baseDir: string,
+  read: SourceReader
+): Promise<ExpandedSource> {
+  const mainFile = inputs[0]?.path;
+  const result: ExpandedSource = { text: "", lines: [], files: [], diagnostics: [] };
+  const output: string[] = [];
+
+  const expand = async (source: SourceFile, stack: string[], keepFrontMatter: boolean): Promise<void> => {
+    const normalized = source.text.replace(/\r\n?/g, "\n").replace(/^\uFEFF/, "");
+    const lines = keepFrontMatter ? normalized.split("\n") : extractFrontMatter(normalized).body.split("\n");
+    const file = source.path === mainFile ? undefined : source.path;
+    let inCode = false;
+
+    for (let index = 0; index < lines.length; index += 1) {
+      const line = lines[index];
+      const trimmed = line.trim();
+      if (CODE_FENCE_REGEX.test(trimmed)) {
+        inCode = !inCode;
+      }
+      const match = inCode ? null : INCLUDE_REGEX.exec(trimmed);
+      if (!match) {
+        output.push(line);
+        result.lines.push({ file, line: index + 1 });
+        continue;
+      }
+
+      const target = match[1].trim();
+      const included = path.resolve(source.path ? path.dirname(source.path) : baseDir, target);
+      const position = { file, line: index + 1, column: line.length - line.trimStart().length + 1 };
+      if (!result.files.includes(included)) {
+        result.files.push(included);
+      }
+      if (stack.includes(included)) {
+        const chain = [...stack, included].map(entry => path.basename(entry)).join(" -> ");
+        report(result, "include-cycle", `Include cycle: ${chain}`, position);
+        continue;
+      }
+      const text = await read(included);
+      if (text === undefined) {
+        report(result, "missing-include", `Included file not found: ${target}`, position);
+        continue;
+      }
+      await expand({ path: included, text }, [...stack, included], false);
+    }
+  };
+
+  for (const [index, input] of inputs.entries()) {
+    if (input.path && !result.files.includes(input.path)) {
+      result.files.push(input.path);
+    }
+    await expand(input, input.path ? [input.path] : [], index === 0);
+  }
+  result.text = output.join("\n");
+  return result;
+}
+
+function report(
+  result: ExpandedSource,
+  code: "include-cycle" | "missing-include",
+  message: string,
+  position: SourcePosition
+): void {
+  result.diagnostics.push({ severity: "error", code, message, ...position });
+}
+
+/** Reads a Markdown file from disk; a missing file is undefined, other failures are thrown. */
+export async function readSourceFile(filePath: string): Promise<string | undefined> {
+  try {
+    return await fs.readFile(filePath, "utf8");
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return undefined;
+    }
+    throw error;
+  }
+}
+
+/** Maps lines back to their files and rebases relative paths written in other directories on `sourceDir`. */
+export function relocateDocument(document: ParsedDocument, source: ExpandedSource, sourceDir: string): ParsedDocument {
+  const locate = (position?: SourcePosition): SourcePosition | undefined => {
+    const origin = position && source.lines[position.line - 1];
+    if (!position || !origin) {
+      return position;
+    }
+    return { line: origin.line, column: position.column, ...(origin.file && { file: origin.file }) };
+  };
+  const rebase = (assetPath: string, position?: SourcePosition): string => {
+    const file = position && source.lines[position.line - 1]?.file;
+    if (!file || REMOTE_PATH_REGEX.test(assetPath) || path.isAbsolute(assetPath)) {
+      return assetPath;
+    }
+    return path.relative(sourceDir, path.resolve(path.dirname(file), assetPath)).split(path.sep).join("/");
+  };
+  const relocateBlocks = (blocks: Block[]): Block[] =>
+    blocks.map(block => {
+      const copy = { ...block };
+      if (block.position) {
+        copy.position = locate(block.position);
+      }
+      if (copy.type === "image") {
+        copy.path = rebase(copy.path, block.position);
+      } else if (copy.type === "chart" && copy.chart.source) {
+        copy.chart = { ...copy.chart, source: rebase(copy.chart.source, block.position) };
+      } else if (copy.type === "columns") {
+        copy.columns = copy.columns.map(column => ({ ...column, blocks: relocateBlocks(column.blocks) }));
+      } else if (copy.type === "keep") {
+        copy.blocks = relocateBlocks(copy.blocks);
+      }
+      return copy;
+    });
+
+  const slides = document.slides.map(spec => {
+    const copy = { ...spec, blocks: relocateBlocks(spec.blocks) };
+    if (spec.position) {
+      copy.position = locate(spec.position);
+    }
+    if (spec.background) {
+      copy.background = rebase(spec.background, spec.backgroundPosition);
+      copy.backgroundPosition = locate(spec.backgroundPosition);
+    }
+    return copy;
+  });
+  const diagnostics = document.diagnostics.map(diagnostic => {
+    const origin = diagnostic.line ? source.lines[diagnostic.line - 1] : undefined;
+    return origin ? { ...diagnostic, line: origin.line, ...(origin.file && { file: origin.file }) } : diagnostic;
+  });
+  return { frontMatter: document.frontMatter, slides, diagnostics: [...source.diagnostics, ...diagnostics] };
+}
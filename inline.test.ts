@@ -0,0 +1,32 @@
+import { parseInline } from "./inline";
+
+describe("parseInline", () => {
+  it("keeps plain text as one run", () => {
+    expect(parseInline("plain text")).toEqual([{ text: "plain text" }]);
+  });
+
+  it("reads bold, italic, strikethrough and links", () => {
+    expect(parseInline("**bold** and *it* ~~gone~~ [link](https://example.com)")).toEqual([
+      { text: "bold", bold: true },
+      { text: " and " },
+      { text: "it", italic: true },
+      { text: " " },
+      { text: "gone", strike: true },
+      { text: " " },
+      { text: "link", link: "https://example.com" }
+    ]);
+  });
+
+  it("combines bold and italic", () => {
+    expect(parseInline("***both***")).toEqual([{ text: "both", bold: true, italic: true }]);
+  });
+
+  it("does not read markers inside code", () => {
+    expect(parseInline("`code *x*`")).toEqual([{ text: "code *x*", code: true }]);
+  });
+
+  it("keeps escaped and unmatched markers as text", () => {
+    expect(parseInline("a \\*lit\\* b")).toEqual([{ text: "a *lit* b" }]);
+    expect(parseInline("**unclosed")).toEqual([{ text: "**unclosed" }]);
+  });
+});
@@ -0,0 +1,353 @@
+import PptxGenJS from "pptxgenjs";
+
+export interface InlineRun {
+  text: string;
+  bold?: boolean;
+  italic?: boolean;
+  code?: boolean;
+  strike?: boolean;
+  link?: string;
+}
+
+export interface InlineStyleOptions {
+  codeFont: string;
+  linkColor?: string;
+}
+
+type InlineStyle = Omit<InlineRun, "text">;
+
+const ESCAPABLE = /[\\`*_~[\]()#!|>.:?<^-]/;
+const LINK_REGEX = /^\[((?:\\.|[^\]\\])*)]\(([^)\s]+)\)/;
+
+/** Unmatched markers are kept as literal text. */
+export function parseInline(source: string): InlineRun[] {
+  return mergeRuns(scanInline(source, {}));
+}
+
+export function runsToPlainText(runs: InlineRun[]): string {
+  return runs.map(run => run.text).join("");
+}
+
+export function splitRunsByLine(runs: InlineRun[]): InlineRun[][] {
+  const lines: InlineRun[][] = [[]];
+  runs.forEach(run => {
+    const parts = run.text.split("\n");
+    parts.forEach((part, index) => {
+      if (index > 0) {
+        lines.push([]);
+      }
+      if (part) {
+        lines[lines.length - 1].push({ ...run, text: part });
+      }
+    });
+  });
+  return lines;
+}
+
+/** The runs covering the plain-text range [start, end). */
+export function sliceRuns(runs: InlineRun[], start: number, end = Number.POSITIVE_INFINITY): InlineRun[] {
+  const sliced: InlineRun[] = [];
+  let offset = 0;
+  runs.forEach(run => {
+    const runStart = offset;
+    const runEnd = offset + run.text.length;
+    offset = runEnd;
+    const from = Math.max(start, runStart);
+    const to = Math.min(end, runEnd);
+    if (from < to) {
+      sliced.push({ ...run, text: run.text.slice(from - runStart, to - runStart) });
+    }
+  });
+  return sliced;
+}
+
+/** Line breaks inside runs become `breakLine`, which PowerPoint keeps as separate paragraphs. */
+export function toTextProps(
+  runs: InlineRun[],
+  base: PptxGenJS.TextPropsOptions,
+  style: InlineStyleOptions
+): PptxGenJS.TextProps[] {
+  const lines = splitRunsByLine(runs);
+  const props: PptxGenJS.TextProps[] = [];
+
+  lines.forEach((line, lineIndex) => {
+    const isLastLine = lineIndex === lines.length - 1;
+    const segments = line.length > 0 ? line : [{ text: "" }];
+    segments.forEach((run, runIndex) => {
+      const options: PptxGenJS.TextPropsOptions = { ...base };
+      if (run.bold) {
+        options.bold = true;
+      }
+      if (run.italic) {
+        options.italic = true;
+      }
+      if (run.strike) {
+        options.strike = "sngStrike";
+      }
+      if (run.code) {
+        options.fontFace = style.codeFont;
+      }
+      if (run.link) {
+        options.hyperlink = { url: run.link };
+        if (style.linkColor) {
+          options.color = style.linkColor;
+        }
+      }
+      if (!isLastLine && runIndex === segments.length - 1) {
+        options.breakLine = true;
+      }
+      props.push({ text: run.text, options });
+    });
+  });
+
+  return props;
+}
+
+/** Turns paragraph breaks into line breaks, so that an item written over several lines keeps one bullet. */
+export function toSoftBreaks(props: PptxGenJS.TextProps[]): PptxGenJS.TextProps[] {
+  return props.map((prop, index) => {
+    const { breakLine, ...options } = prop.options ?? {};
+    const softBreakBefore = index > 0 && !!props[index - 1].options?.breakLine;
+    return { text: prop.text, options: softBreakBefore ? { ...options, softBreakBefore } : options };
+  });
+}
+
+/** Styles nest as link > strike > bold > italic; characters in `escape` are escaped too. */
+export function serializeInline(runs: InlineRun[], escape = ""): string {
+  const open: string[] = [];
+  let output = "";
+
+  const closeTo = (depth: number): void => {
+    while (open.length > depth) {
+      const wrapper = open.pop()!;
+      output += wrapper.startsWith("link:") ? `](${wrapper.slice(5)})` : wrapper;
+    }
+  };
+
+  splitEdgeWhitespace(mergeRuns(runs)).forEach((run, index, all) => {
+    const wrappers = [
+      ...(run.link ? [`link:${run.link.replace(/\s/g, "%20").replace(/\)/g, "%29")}`] : []),
+      ...(run.strike ? ["~~"] : []),
+      ...(run.bold ? ["**"] : []),
+      ...(run.italic ? [isWordChar(output.slice(-1)) || isWordChar(all[index + 1]?.text[0]) ? "*" : "_"] : [])
+    ];
+    let shared = 0;
+    while (shared < open.length && shared < wrappers.length && open[shared] === wrappers[shared]) {
+      shared += 1;
+    }
+    closeTo(shared);
+    wrappers.slice(shared).forEach(wrapper => {
+      output += wrapper.startsWith("link:") ? "[" : wrapper;
+      open.push(wrapper);
+    });
+    output +=
+      run.code && !run.text.includes("`")
+        ? `\`${run.text}\``
+        : escapeInline(run.text, run.link ? `${escape}]` : escape);
+  });
+  closeTo(0);
+  return output;
+}
+
+/** Markers may not touch whitespace on their inner side, so edge whitespace only keeps the outer styles. */
+function splitEdgeWhitespace(runs: InlineRun[]): InlineRun[] {
+  const flanking = (run: InlineRun, neighbour: InlineRun | undefined, text: string): InlineRun => ({
+    text,
+    link: run.link,
+    bold: run.bold && neighbour?.bold,
+    italic: run.italic && neighbour?.italic,
+    strike: run.strike && neighbour?.strike
+  });
+  return mergeRuns(
+    runs.flatMap((run, index) => {
+      if (!(run.bold || run.italic || run.strike) || run.code) {
+        return [run];
+      }
+      const core = run.text.trim();
+      if (!core) {
+        return [flanking(run, runs[index + 1], run.text)];
+      }
+      const leading = run.text.slice(0, run.text.indexOf(core));
+      const trailing = run.text.slice(leading.length + core.length);
+      return [
+        flanking(run, runs[index - 1], leading),
+        { ...run, text: core },
+        flanking(run, runs[index + 1], trailing)
+      ];
+    })
+  );
+}
+
+function escapeInline(text: string, extra: string): string {
+  let escaped = "";
+  for (let index = 0; index < text.length; index += 1) {
+    const char = text[index];
+    const previous = text[index - 1];
+    const next = text[index + 1];
+    const needsEscape =
+      char === "*" ||
+      char === "`" ||
+      char === "[" ||
+      extra.includes(char) ||
+      (char === "\\" && (next === undefined || ESCAPABLE.test(next))) ||
+      (char === "~" && (previous === "~" || next === "~")) ||
+      (char === "_" && !(isWordChar(previous) && isWordChar(next)));
+    escaped += needsEscape ? `\\${char}` : char;
+  }
+  return escaped;
+}
+
+function scanInline(source: string, style: InlineStyle): InlineRun[] {
+  const runs: InlineRun[] = [];
+  let buffer = "";
+  let index = 0;
+
+  const flush = (): void => {
+    if (buffer) {
+      runs.push({ ...style, text: buffer });
+      buffer = "";
+    }
+  };
+
+  while (index < source.length) {
+    const char = source[index];
+    const rest = source.slice(index);
+
+    if (char === "\\" && index + 1 < source.length && ESCAPABLE.test(source[index + 1])) {
+      buffer += source[index + 1];
+      index += 2;
+      continue;
+    }
+
+    if (char === "`") {
+      const close = source.indexOf("`", index + 1);
+      if (close > index + 1) {
+        flush();
+        runs.push({ ...style, code: true, text: source.slice(index + 1, close) });
+        index = close + 1;
+        continue;
+      }
+    }
+
+    if (char === "[") {
+      const match = rest.match(LINK_REGEX);
+      if (match) {
+        flush();
+        runs.push(...scanInline(match[1], { ...style, link: match[2] }));
+        index += match[0].length;
+        continue;
+      }
+    }
+
+    const delimiter = matchDelimiter(source, index);
+    if (delimiter) {
+      const close = findClosing(source, index + delimiter.marker.length, delimiter.marker);
+      if (close >= 0) {
+        flush();
+        const inner = source.slice(index + delimiter.marker.length, close);
+        runs.push(...scanInline(inner, { ...style, ...delimiter.style }));
+        index = close + delimiter.marker.length;
+        continue;
+      }
+    }
+
+    buffer += char;
+    index += 1;
+  }
+
+  flush();
+  return runs;
+}
+
+function matchDelimiter(
+  source: string,
+  index: number
+): { marker: string; style: InlineStyle } | undefined {
+  const rest = source.slice(index);
+  if (rest.startsWith("~~")) {
+    return { marker: "~~", style: { strike: true } };
+  }
+  if (rest.startsWith("**") || rest.startsWith("__")) {
+    if (rest.startsWith("_") && isWordChar(source[index - 1])) {
+      return undefined;
+    }
+    return { marker: rest.slice(0, 2), style: { bold: true } };
+  }
+  if (rest.startsWith("*") || rest.startsWith("_")) {
+    if (rest.startsWith("_") && isWordChar(source[index - 1])) {
+      return undefined;
+    }
+    return { marker: rest[0], style: { italic: true } };
+  }
+  return undefined;
+}
+
+function findClosing(source: string, from: number, marker: string): number {
+  if (from >= source.length || /\s/.test(source[from])) {
+    return -1;
+  }
+  let index = from;
+  while (index < source.length) {
+    const char = source[index];
+    if (char === "\\") {
+      index += 2;
+      continue;
+    }
+    if (char === "`") {
+      const close = source.indexOf("`", index + 1);
+      index = close > index ? close + 1 : index + 1;
+      continue;
+    }
+    if (source.startsWith(marker, index) && index > from && !/\s/.test(source[index - 1])) {
+      const isSingle = marker.length === 1;
+      const doubled = source[index + 1] === marker;
+      if (!isSingle || !doubled) {
+        if (marker === "_" || marker === "__") {
+          if (isWordChar(source[index + marker.length])) {
+            index += marker.length;
+            continue;
+          }
+        }
+        let close = index;
+        while (!isSingle && source[close + marker.length] === marker[0]) {
+          close += 1;
+        }
+        return close;
+      }
+      index += 2;
+      continue;
+    }
+    index += 1;
+  }
+  return -1;
+}
+
+function isWordChar(char: string | undefined): boolean {
+  return !!char && /[A-Za-z0-9]/.test(char);
+}
+
+function mergeRuns(runs: InlineRun[]): InlineRun[] {
+  const merged: InlineRun[] = [];
+  runs.forEach(run => {
+    if (!run.text) {
+      return;
+    }
+    const previous = merged[merged.length - 1];
+    if (previous && sameStyle(previous, run)) {
+      previous.text += run.text;
+      return;
+    }
+    merged.push({ ...run });
+  });
+  return merged;
+}
+
+function sameStyle(a: InlineRun, b: InlineRun): boolean {
+  return (
+    !!a.bold === !!b.bold &&
+    !!a.italic === !!b.italic &&
+    !!a.code === !!b.code &&
+    !!a.strike === !!b.strike &&
+    a.link === b.link
+  );
+}
@@ -0,0 +1,162 @@
+import PptxGenJS from "pptxgenjs";
+import { followsMarker, formatListNumber, listMarker, markerKind, toNumberStyle } from "./lists";
+import { Block, BulletItem, parseSlides, renderSlides } from "./txt2ppt";
+
+function blocksOf(markdown: string): Block[] {
+  return parseSlides(`# Slide\n\n${markdown}\n`)[0].blocks;
+}
+
+function itemsOf(markdown: string): Array<Partial<BulletItem>> {
+  return blocksOf(markdown).flatMap(block =>
+    block.type === "bullets"
+      ? block.items.map(({ text, bulletType, indentLevel, number, numberStyle, checked }) => ({
+          text,
+          bulletType,
+          indentLevel,
+          number,
+          numberStyle,
+          checked
+        }))
+      : []
+  );
+}
+
+describe("list markers", () => {
+  it("reads digits without any context", () => {
+    expect(itemsOf("3. three")).toEqual([
+      { text: "three", bulletType: "number", indentLevel: 0, number: 3, numberStyle: "decimal" }
+    ]);
+  });
+
+  it("reads letters and roman numerals followed by the next marker of their list", () => {
+    expect(itemsOf("b. bee\nc. sea").map(item => [item.number, item.numberStyle])).toEqual([
+      [2, "lower-alpha"],
+      [3, "lower-alpha"]
+    ]);
+    expect(itemsOf("iv. four\nv. five").map(item => [item.number, item.numberStyle])).toEqual([
+      [4, "lower-roman"],
+      [5, "lower-roman"]
+    ]);
+    expect(itemsOf("h. eight\ni. nine").map(item => item.numberStyle)).toEqual(["lower-alpha", "lower-alpha"]);
+  });
+
+  it("reads a capital marker on its own when two spaces follow it", () => {
+    expect(itemsOf("B.  two spaces")).toEqual([
+      { text: "two spaces", bulletType: "number", indentLevel: 0, number: 2, numberStyle: "upper-alpha" }
+    ]);
+  });
+
+  it("keeps prose that starts with an initial as a paragraph", () => {
+    expect(blocksOf("A. Lincoln said hi.\nI. e. this")).toMatchObject([
+      { type: "paragraph", text: "A. Lincoln said hi.\nI. e. this" }
+    ]);
+    expect(blocksOf("A. Lincoln\nB. Obama")).toMatchObject([{ type: "bullets" }]);
+    expect(blocksOf("A. Lincoln\nC. Obama")).toMatchObject([{ type: "paragraph" }]);
+  });
+
+  it("starts a new list at a marker of another kind", () => {
+    expect(itemsOf("1. one\n2. two\na.  ay\n- dash\n1. one").map(item => [item.number, item.numberStyle])).toEqual([
+      [1, "decimal"],
+      [2, "decimal"],
+      [1, "lower-alpha"],
+      [undefined, undefined],
+      [1, "decimal"]
+    ]);
+  });
+
+  it("continues a letter list below a nested item", () => {
+    const items = itemsOf("a. first\n   - nested\nb. second");
+    expect(items.map(item => [item.text, item.indentLevel, item.number])).toEqual([
+      ["first", 0, 1],
+      ["nested", 1, undefined],
+      ["second", 0, 2]
+    ]);
+  });
+
+  it("reads task boxes", () => {
+    expect(itemsOf("- [x] done\n- [ ] open\n- plain").map(item => item.checked)).toEqual([true, false, undefined]);
+  });
+
+  it("tells the kinds of markers apart", () => {
+    expect(["-", "*", "12.", "c.", "iv.", "C."].map(markerKind)).toEqual([
+      "bullet",
+      "bullet",
+      "decimal",
+      "lower",
+      "lower",
+      "upper"
+    ]);
+    expect(followsMarker("a.", "c.")).toBe(false);
+    expect(followsMarker("A.", "b.")).toBe(false);
+    expect(followsMarker("9.", "10.")).toBe(true);
+  });
+});
+
+describe("list structure", () => {
+  it("nests items by the indentation of their markers", () => {
+    const items = itemsOf("1. first\n   - under the text\n     1. deeper\n2. second");
+    expect(items.map(item => [item.text, item.indentLevel, item.number])).toEqual([
+      ["first", 0, 1],
+      ["under the text", 1, undefined],
+      ["deeper", 2, 1],
+      ["second", 0, 2]
+    ]);
+  });
+
+  it("joins indented lines to the item above", () => {
+    expect(itemsOf("- first\n  more of it\n- second").map(item => item.text)).toEqual(["first\nmore of it", "second"]);
+  });
+});
+
+describe("list rendering", () => {
+  async function renderRuns(markdown: string): Promise<PptxGenJS.TextProps[]> {
+    const pptx = new PptxGenJS();
+    const addSlide = pptx.addSlide.bind(pptx);
+    const runs: PptxGenJS.TextProps[] = [];
+    jest.spyOn(pptx, "addSlide").mockImplementation(props => {
+      const slide = addSlide(props);
+      const addText = slide.addText.bind(slide);
+      jest.spyOn(slide, "addText").mockImplementation((text, options) => {
+        if (typeof text !== "string") {
+          runs.push(...text);
+        }
+        return addText(text, options);
+      });
+      return slide;
+    });
+    await renderSlides(pptx, parseSlides(`# Slide\n\n${markdown}\n`), { layout: "LAYOUT_16x9", revision: "1" });
+    return runs;
+  }
+
+  it("numbers items with PowerPoint's schemes from their start numbers", async () => {
+    const runs = await renderRuns("b. bee\nc. sea");
+    expect(runs.map(run => run.options?.bullet)).toEqual([
+      { type: "number", style: "alphaLcPeriod", numberStartAt: 2 },
+      { type: "number", style: "alphaLcPeriod", numberStartAt: 3 }
+    ]);
+  });
+
+  it("shows task boxes as bullets, or in front of the text of a numbered item", async () => {
+    const runs = await renderRuns("- [x] done\n1. [ ] open");
+    expect(runs[0].options?.bullet).toEqual({ characterCode: "2611" });
+    expect(runs.slice(1).map(run => run.text)).toEqual(["☐ ", "open"]);
+  });
+});
+
+describe("list numbers", () => {
+  it("formats numbers in each style", () => {
+    expect(formatListNumber(28, "lower-alpha")).toBe("bb");
+    expect(formatListNumber(14, "upper-roman")).toBe("XIV");
+    expect(listMarker(30, "lower-alpha")).toBe("z.");
+    expect(listMarker(7)).toBe("7.");
+  });
+
+  it("maps PowerPoint's numbering schemes to styles", () => {
+    expect(["alphaUcParenR", "romanLcPeriod", "arabicPeriod", undefined].map(toNumberStyle)).toEqual([
+      "upper-alpha",
+      "lower-roman",
+      "decimal",
+      "decimal"
+    ]);
+  });
+});
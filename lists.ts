@@ -0,0 +1,158 @@
+import type { BulletItem } from "./txt2ppt";
+
+/** How a numbered list counts: `1.`, `a.`, `A.`, `i.` or `I.`. */
+export type NumberStyle = "decimal" | "lower-alpha" | "upper-alpha" | "lower-roman" | "upper-roman";
+
+/** `bullet` for `-` and `*`; otherwise what a numbered marker counts with. */
+export type MarkerKind = "bullet" | "decimal" | "lower" | "upper";
+
+/** Deepest list level; PowerPoint has nine (0 to 8). */
+export const MAX_LIST_LEVEL = 8;
+
+/** Up to nine digits, one letter or a roman numeral up to 39; longer numerals would catch words like "mix.". */
+export const LIST_NUMBER_PATTERN =
+  "\\d{1,9}|[a-zA-Z]|(?=[ivx])x{0,3}(?:ix|iv|v?i{0,3})|(?=[IVX])X{0,3}(?:IX|IV|V?I{0,3})";
+
+/** PowerPoint's automatic numbering schemes for each style. */
+export const AUTO_NUMBER_TYPES: Record<NumberStyle, string> = {
+  decimal: "arabicPeriod",
+  "lower-alpha": "alphaLcPeriod",
+  "upper-alpha": "alphaUcPeriod",
+  "lower-roman": "romanLcPeriod",
+  "upper-roman": "romanUcPeriod"
+};
+
+/** Bullets of task list items. */
+export const TASK_BOXES = { open: "☐", done: "☑" };
+
+/** PowerPoint numbers from 1 to 32767. */
+const MAX_LIST_NUMBER = 32767;
+/** Highest numbers a single letter and the roman numerals of `LIST_NUMBER_PATTERN` reach. */
+const MAX_LETTER = 26;
+const MAX_ROMAN = 39;
+const ROMAN_NUMERALS: Array<[number, string]> = [
+  [1000, "m"],
+  [900, "cm"],
+  [500, "d"],
+  [400, "cd"],
+  [100, "c"],
+  [90, "xc"],
+  [50, "l"],
+  [40, "xl"],
+  [10, "x"],
+  [9, "ix"],
+  [5, "v"],
+  [4, "iv"],
+  [1, "i"]
+];
+
+/** Ordered items count on from the first marker; a bullet or a marker of another kind starts a new list. */
+export function numberItems(entries: Array<{ item: BulletItem; marker: string }>): BulletItem[] {
+  const open: Array<{ kind: MarkerKind; style: NumberStyle; next: number } | undefined> = [];
+  return entries.map(({ item, marker }) => {
+    const level = item.indentLevel;
+    open.length = level + 1;
+    if (item.bulletType !== "number") {
+      open[level] = undefined;
+      return item;
+    }
+    const value = marker.replace(/\.$/, "");
+    const kind = markerKind(marker);
+    const previous = open[level];
+    const list = previous?.kind === kind ? previous : { kind, ...startNumber(value) };
+    open[level] = { ...list, next: Math.min(list.next + 1, MAX_LIST_NUMBER) };
+    return { ...item, number: list.next, numberStyle: list.style };
+  });
+}
+
+export function markerKind(marker: string): MarkerKind {
+  if (marker === "-" || marker === "*") {
+    return "bullet";
+  }
+  if (/^\d/.test(marker)) {
+    return "decimal";
+  }
+  return marker === marker.toLowerCase() ? "lower" : "upper";
+}
+
+/** Whether `next` is the marker after `marker` in its list, as `b.` after `a.` or `iv.` after `iii.`. */
+export function followsMarker(marker: string, next: string): boolean {
+  if (markerKind(marker) !== markerKind(next)) {
+    return false;
+  }
+  const current = startNumber(marker.replace(/\.$/, ""));
+  const value = next.replace(/\.$/, "").toLowerCase();
+  // Read in the style of the list: `i.` after `h.` is a letter, `v.` after `iv.` a numeral.
+  let number: number;
+  if (current.style.endsWith("alpha")) {
+    number = value.length === 1 ? value.charCodeAt(0) - 96 : 0;
+  } else if (current.style.endsWith("roman")) {
+    number = parseRoman(value);
+  } else {
+    number = Number(value);
+  }
+  return number === current.next + 1;
+}
+
+function startNumber(value: string): { style: NumberStyle; next: number } {
+  const upper = value !== value.toLowerCase();
+  const lower = value.toLowerCase();
+  let style: NumberStyle;
+  let number: number;
+  if (/^\d+$/.test(value)) {
+    style = "decimal";
+    number = Number(value);
+  } else if (lower.length === 1 && lower !== "i") {
+    style = upper ? "upper-alpha" : "lower-alpha";
+    number = lower.charCodeAt(0) - 96;
+  } else {
+    style = upper ? "upper-roman" : "lower-roman";
+    number = parseRoman(lower);
+  }
+  return { style, next: Math.min(Math.max(number, 1), MAX_LIST_NUMBER) };
+}
+
+function parseRoman(value: string): number {
+  const digits: Record<string, number> = { i: 1, v: 5, x: 10 };
+  return [...value].reduce((sum, digit, index) => {
+    const current = digits[digit];
+    return sum + (current < (digits[value[index + 1]] ?? 0) ? -current : current);
+  }, 0);
+}
+
+/** The number as PowerPoint shows it in the style, without the dot: `3`, `c`, `aa`, `iii`. */
+export function formatListNumber(number: number, style: NumberStyle = "decimal"): string {
+  let text: string;
+  if (style === "lower-alpha" || style === "upper-alpha") {
+    text = String.fromCharCode(97 + ((number - 1) % MAX_LETTER)).repeat(Math.ceil(number / MAX_LETTER));
+  } else if (style === "lower-roman" || style === "upper-roman") {
+    text = "";
+    let rest = number;
+    ROMAN_NUMERALS.forEach(([value, numeral]) => {
+      while (rest >= value) {
+        text += numeral;
+        rest -= value;
+      }
+    });
+  } else {
+    return String(number);
+  }
+  return style.startsWith("upper") ? text.toUpperCase() : text;
+}
+
+/** Letters stop at `z.` and roman numerals at `xxxix.`; later items are counted from the first anyway. */
+export function listMarker(number: number, style: NumberStyle = "decimal"): string {
+  const limit = style.endsWith("alpha") ? MAX_LETTER : style.endsWith("roman") ? MAX_ROMAN : MAX_LIST_NUMBER;
+  return `${formatListNumber(Math.min(number, limit), style)}.`;
+}
+
+/** The numbering style of a PowerPoint automatic numbering scheme such as `romanLcParenR`. */
+export function toNumberStyle(scheme: string | undefined): NumberStyle {
+  if (scheme?.startsWith("alpha")) {
+    return scheme.startsWith("alphaUc") ? "upper-alpha" : "lower-alpha";
+  }
+  if (scheme?.startsWith("roman")) {
+    return scheme.startsWith("romanUc") ? "upper-roman" : "lower-roman";
+  }
+  return "decimal";
+}
@@ -0,0 +1,32 @@
+import PptxGenJS from "pptxgenjs";
+import { registerMasters, resolveMaster } from "./masters";
+import { DEFAULT_THEME, mergeTheme } from "./theme";
+
+describe("resolveMaster", () => {
+  it("puts the master's own settings over masterDefaults", () => {
+    const theme = mergeTheme(DEFAULT_THEME, {
+      masterDefaults: { footer: "ACME", slideNumber: false },
+      masters: { closing: { slideNumber: true } }
+    });
+    expect(resolveMaster(theme, "closing")).toEqual({ footer: "ACME", slideNumber: true });
+  });
+
+  it("names the slide and the available masters for an unknown one", () => {
+    expect(() => resolveMaster(DEFAULT_THEME, "missing", 'slide 2 "B", line 4')).toThrow(
+      'Unknown slide layout "missing" on slide 2 "B", line 4 (available: title, section, content)'
+    );
+  });
+});
+
+describe("registerMasters", () => {
+  it("defines a slide master for each master of the theme", () => {
+    const pptx = new PptxGenJS();
+    const defineSlideMaster = jest.spyOn(pptx, "defineSlideMaster");
+    const theme = mergeTheme(DEFAULT_THEME, { masterDefaults: { footer: "ACME" } });
+    registerMasters(pptx, theme, { width: 10, height: 5.625 }, "en-US");
+    expect(defineSlideMaster.mock.calls.map(([master]) => master.title)).toEqual(["title", "section", "content"]);
+    const content = defineSlideMaster.mock.calls[2][0];
+    expect(content.objects).toContainEqual({ text: expect.objectContaining({ text: "ACME" }) });
+    expect(content.slideNumber).toBeDefined();
+  });
+});
@@ -0,0 +1,131 @@
+import PptxGenJS from "pptxgenjs";
+import { Txt2PptError } from "./errors";
+import { MasterSpec, Theme } from "./theme";
+
+export const DEFAULT_MASTER = "content";
+
+export interface SlideSize {
+  width: number;
+  height: number;
+}
+
+const FOOTER_HEIGHT = 0.3;
+const FOOTER_FONT_SIZE = 10;
+const SLIDE_NUMBER_WIDTH = 0.6;
+const DATE_WIDTH = 1.8;
+const LABEL_WIDTH = 3;
+const LOGO_WIDTH = 1.2;
+const LOGO_HEIGHT = 0.5;
+
+/** `where` names the slide that asked for an unknown master in the error. */
+export function resolveMaster(theme: Theme, name: string, where?: string): MasterSpec {
+  const master = theme.masters[name];
+  if (!master) {
+    const names = Object.keys(theme.masters).join(", ");
+    const location = where ? ` on ${where}` : "";
+    throw new Txt2PptError("unknown-layout", `Unknown slide layout "${name}"${location} (available: ${names})`);
+  }
+  return { ...theme.masterDefaults, ...master };
+}
+
+export function registerMasters(pptx: PptxGenJS, theme: Theme, size: SlideSize, lang: string): void {
+  Object.keys(theme.masters).forEach(name => {
+    pptx.defineSlideMaster(buildMaster(name, resolveMaster(theme, name), theme, size, lang));
+  });
+}
+
+function buildMaster(
+  name: string,
+  master: MasterSpec,
+  theme: Theme,
+  size: SlideSize,
+  lang: string
+): PptxGenJS.SlideMasterProps {
+  const { marginX, marginBottom, titleY } = theme.spacing;
+  const footerY = size.height - marginBottom + (marginBottom - FOOTER_HEIGHT) / 2;
+  const footerColor = master.titleColor ?? theme.subtitle.color;
+  const footerText: PptxGenJS.TextPropsOptions = {
+    y: footerY,
+    h: FOOTER_HEIGHT,
+    fontFace: theme.body.fontFace,
+    fontSize: FOOTER_FONT_SIZE,
+    color: footerColor,
+    valign: "middle",
+    lang
+  };
+  const objects: NonNullable<PptxGenJS.SlideMasterProps["objects"]> = [];
+
+  if (master.logo) {
+    const w = master.logo.w ?? LOGO_WIDTH;
+    const h = master.logo.h ?? LOGO_HEIGHT;
+    objects.push({
+      image: {
+        ...imageSource(master.logo.path),
+        x: master.logo.x ?? size.width - marginX - w,
+        y: master.logo.y ?? titleY,
+        w,
+        h,
+        sizing: { type: "contain", w, h }
+      }
+    });
+  }
+
+  if (master.footer) {
+    objects.push({
+      text: {
+        text: master.footer,
+        options: { ...footerText, x: marginX, w: size.width / 2 - LABEL_WIDTH / 2 - marginX, align: "left" }
+      }
+    });
+  }
+
+  if (master.label) {
+    objects.push({
+      text: {
+        text: master.label,
+        options: { ...footerText, x: (size.width - LABEL_WIDTH) / 2, w: LABEL_WIDTH, align: "center", bold: true }
+      }
+    });
+  }
+
+  if (master.date) {
+    const dateText = master.date === true ? new Date().toLocaleDateString(lang) : master.date;
+    const rightEdge = size.width - marginX - (master.slideNumber ? SLIDE_NUMBER_WIDTH : 0);
+    objects.push({
+      text: {
+        text: dateText,
+        options: { ...footerText, x: rightEdge - DATE_WIDTH, w: DATE_WIDTH, align: "right" }
+      }
+    });
+  }
+
+  const background = master.backgroundImage
+    ? imageSource(master.backgroundImage)
+    : master.background ?? theme.palette.background
+      ? { color: master.background ?? theme.palette.background }
+      : undefined;
+
+  return {
+    title: name,
+    background,
+    objects,
+    slideNumber: master.slideNumber
+      ? {
+          x: size.width - marginX - SLIDE_NUMBER_WIDTH,
+          y: footerY,
+          w: SLIDE_NUMBER_WIDTH,
+          h: FOOTER_HEIGHT,
+          fontFace: theme.body.fontFace,
+          fontSize: FOOTER_FONT_SIZE,
+          color: footerColor,
+          align: "right"
+        }
+      : undefined
+  };
+}
+
+/** Template images are data URIs, which PptxGenJS expects as `data`; `path` only gives the extension. */
+export function imageSource(source: string): { path: string; data?: string } {
+  const match = source.match(/^data:(image\/(\w+)[^,]*,.*)$/s);
+  return match ? { path: `preencoded.${match[2]}`, data: match[1] } : { path: source };
+}
@@ -0,0 +1,55 @@
+import { assignNotes, parseNotesMode } from "./notes";
+import { parseSlides } from "./txt2ppt";
+
+describe("parseSlides notes", () => {
+  it("joins >note: lines and keeps part-specific notes apart", () => {
+    const [slide] = parseSlides("# A\n>note: one\n>note: two\n>note[2]: later\n\nBody\n");
+    expect(slide.notes).toBe("one\ntwo");
+    expect(slide.partNotes).toEqual({ 2: "later" });
+    expect(slide.blocks).toHaveLength(1);
+  });
+
+  it("reads a ??? section up to the next heading", () => {
+    const [first, second] = parseSlides("# A\nBody\n\n???\nLine 1\n\nLine 2\n- not a bullet\n# B\nNext\n");
+    expect(first.blocks).toHaveLength(1);
+    expect(first.notes).toBe("Line 1\n\nLine 2\n- not a bullet");
+    expect(second.title).toBe("B");
+    expect(second.notes).toBeUndefined();
+  });
+
+  it("reads <!-- notes --> sections closed by a tag or by the end of the comment", () => {
+    const [slide] = parseSlides(
+      "# A\n<!-- notes 2 -->\nFor part two\n<!-- /notes -->\nBody\n<!-- notes\nInside the comment\n-->\n"
+    );
+    expect(slide.partNotes).toEqual({ 2: "For part two" });
+    expect(slide.notes).toBe("Inside the comment");
+    expect(slide.blocks).toMatchObject([{ type: "paragraph", text: "Body" }]);
+  });
+});
+
+describe("assignNotes", () => {
+  const notes = "First\n\nSecond\n\nThird";
+
+  it("keeps notes on the first part by default", () => {
+    expect(assignNotes(notes, undefined, 3, "first")).toEqual([notes, undefined, undefined]);
+  });
+
+  it("copies notes to every part", () => {
+    expect(assignNotes("Same", undefined, 2, "copy")).toEqual(["Same", "Same"]);
+  });
+
+  it("distributes paragraphs over the parts in order", () => {
+    expect(assignNotes(notes, undefined, 2, "distribute")).toEqual(["First\n\nSecond", "Third"]);
+    expect(assignNotes("Only", undefined, 3, "distribute")).toEqual(["Only", undefined, undefined]);
+  });
+
+  it("appends part notes and moves parts past the end to the last slide", () => {
+    expect(assignNotes("General", { 1: "Intro", 5: "Late" }, 2, "first")).toEqual(["General\n\nIntro", "Late"]);
+    expect(assignNotes(undefined, { 2: "Two" }, 1, "first")).toEqual(["Two"]);
+  });
+
+  it("rejects unknown modes", () => {
+    expect(parseNotesMode("COPY")).toBe("copy");
+    expect(() => parseNotesMode("all")).toThrow("Unsupported notes mode: all");
+  });
+});
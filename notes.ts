@@ -0,0 +1,45 @@
+import { Txt2PptError } from "./errors";
+
+/** How general notes are spread when a slide's content is split across continuation slides. */
+export type NotesMode = "first" | "copy" | "distribute";
+
+export const NOTES_MODES: NotesMode[] = ["first", "copy", "distribute"];
+
+export function parseNotesMode(value: string): NotesMode {
+  const mode = value.toLowerCase() as NotesMode;
+  if (!NOTES_MODES.includes(mode)) {
+    throw new Txt2PptError("invalid-option", `Unsupported notes mode: ${value} (expected ${NOTES_MODES.join(", ")})`);
+  }
+  return mode;
+}
+
+/** Notes for parts past the end land on the last slide, so nothing is lost when the content is shorter. */
+export function assignNotes(
+  notes: string | undefined,
+  partNotes: Record<number, string> | undefined,
+  partCount: number,
+  mode: NotesMode
+): Array<string | undefined> {
+  const parts: string[][] = Array.from({ length: Math.max(partCount, 1) }, () => []);
+
+  if (notes) {
+    if (mode === "copy") {
+      parts.forEach(part => part.push(notes));
+    } else if (mode === "distribute") {
+      const paragraphs = notes.split(/\n\s*\n/).filter(paragraph => paragraph.trim());
+      paragraphs.forEach((paragraph, index) => {
+        parts[Math.floor((index * parts.length) / paragraphs.length)].push(paragraph);
+      });
+    } else {
+      parts[0].push(notes);
+    }
+  }
+
+  Object.entries(partNotes ?? {})
+    .sort(([a], [b]) => Number(a) - Number(b))
+    .forEach(([part, text]) => {
+      parts[Math.min(Number(part), parts.length) - 1].push(text);
+    });
+
+  return parts.map(part => (part.length > 0 ? part.join("\n\n") : undefined));
+}
@@ -0,0 +1,131 @@
+import PptxGenJS from "pptxgenjs";
+import { listSplitTests, splitPoint } from "./pagination";
+import { BulletItem, Diagnostic, RenderOptions, parseDocument, parseSlides, renderSlides } from "./txt2ppt";
+
+interface RenderedSlide {
+  texts: string[];
+  fontSizes: Array<number | undefined>;
+}
+
+async function render(markdown: string, options: Partial<RenderOptions> = {}): Promise<RenderedSlide[]> {
+  const pptx = new PptxGenJS();
+  const addSlide = pptx.addSlide.bind(pptx);
+  const slides: RenderedSlide[] = [];
+  jest.spyOn(pptx, "addSlide").mockImplementation(props => {
+    const slide = addSlide(props);
+    const rendered: RenderedSlide = { texts: [], fontSizes: [] };
+    slides.push(rendered);
+    const addText = slide.addText.bind(slide);
+    jest.spyOn(slide, "addText").mockImplementation((text, textOptions) => {
+      rendered.texts.push(typeof text === "string" ? text : text.map(run => run.text).join("|"));
+      rendered.fontSizes.push(typeof text === "string" ? textOptions?.fontSize : text[0].options?.fontSize);
+      return addText(text, textOptions);
+    });
+    return slide;
+  });
+  await renderSlides(pptx, parseSlides(markdown), { layout: "LAYOUT_16x9", revision: "1", ...options });
+  return slides;
+}
+
+function lines(count: number): string {
+  return Array.from({ length: count }, (_, index) => `line ${index + 1}`).join("\n");
+}
+
+function bullets(count: number): string {
+  return Array.from({ length: count }, (_, index) => `- item ${index + 1}`).join("\n");
+}
+
+describe("splitPoint", () => {
+  const rules = { orphans: 2, widows: 2 };
+
+  it("keeps the orphans and widows", () => {
+    expect(splitPoint(10, 9, rules, false)).toBe(8);
+    expect(splitPoint(10, 4, rules, false)).toBe(4);
+    expect(splitPoint(10, 1, rules, false)).toBe(0);
+    expect(splitPoint(3, 2, rules, false)).toBe(0);
+  });
+
+  it("breaks the rules rather than move a block that already starts its area", () => {
+    expect(splitPoint(10, 1, rules, true)).toBe(1);
+    expect(splitPoint(3, 2, rules, true)).toBe(2);
+  });
+
+  it("splits lists before top-level items, then anywhere but before a first child", () => {
+    const items = [0, 1, 1, 0, 1, 2, 1].map(indentLevel => ({ indentLevel }) as BulletItem);
+    const tests = listSplitTests(items);
+    expect(splitPoint(items.length, 5, rules, false, tests)).toBe(3);
+    expect(splitPoint(items.length, 2, rules, true, tests)).toBe(2);
+    expect(splitPoint(items.length, 6, { orphans: 1, widows: 1 }, true, tests.slice(1))).toBe(6);
+    expect(splitPoint(items.length, 5, { orphans: 1, widows: 1 }, true, tests.slice(1))).toBe(3);
+  });
+});
+
+describe("page breaks and :::keep", () => {
+  it("parses --- as a page break and leaves the front matter fence alone", () => {
+    const { frontMatter, slides } = parseDocument("---\ntitle: Deck\n---\n# A\nOne\n\n---\n\nTwo\n");
+    expect(frontMatter.title).toBe("Deck");
+    expect(slides[0].blocks.map(block => block.type)).toEqual(["paragraph", "break", "paragraph"]);
+  });
+
+  it("parses :::keep into one block", () => {
+    const [slide] = parseSlides("# A\n:::keep\nText\n\n- item\n:::\n");
+    expect(slide.blocks).toMatchObject([{ type: "keep", blocks: [{ type: "paragraph" }, { type: "bullets" }] }]);
+  });
+
+  it("continues after a page break without reporting an overflow", async () => {
+    const diagnostics: Diagnostic[] = [];
+    const slides = await render("# A\nOne\n\n---\n\nTwo\n", { diagnostics });
+    expect(slides.map(slide => slide.texts)).toEqual([
+      ["A", "One"],
+      ["A (cont.)", "Two"]
+    ]);
+    expect(diagnostics).toEqual([]);
+  });
+
+  it("moves a :::keep block on whole instead of splitting it", async () => {
+    const split = await render(`# A\n${lines(4)}\n\n${lines(5)}\n`);
+    expect(split.map(slide => slide.texts.slice(1))).toEqual([
+      [lines(4).replace(/\n/g, "|"), "line 1|line 2|line 3"],
+      ["line 4|line 5"]
+    ]);
+
+    const kept = await render(`# A\n${lines(4)}\n\n:::keep\n${lines(5)}\n:::\n`);
+    expect(kept.map(slide => slide.texts.slice(1))).toEqual([
+      [lines(4).replace(/\n/g, "|")],
+      [lines(5).replace(/\n/g, "|")]
+    ]);
+  });
+});
+
+describe("splitting rules", () => {
+  it("carries at least the widows over", async () => {
+    const slides = await render(`# A\n${bullets(10)}\n`);
+    expect(slides.map(slide => slide.texts[1].split("|").length)).toEqual([8, 2]);
+
+    const relaxed = await render(`# A\n${bullets(10)}\n`, { pagination: { orphans: 2, widows: 1 } });
+    expect(relaxed.map(slide => slide.texts[1].split("|").length)).toEqual([9, 1]);
+  });
+
+  it("moves a block on whole when fewer than the orphans would stay", async () => {
+    const markdown = `# A\n${lines(6)}\n\n${bullets(5)}\n`;
+    const slides = await render(markdown);
+    expect(slides[0].texts[2]).toBe("item 1|item 2");
+
+    const strict = await render(markdown, { pagination: { orphans: 3, widows: 2 } });
+    expect(strict.map(slide => slide.texts.length)).toEqual([2, 2]);
+    expect(strict[1].texts[1]).toBe("item 1|item 2|item 3|item 4|item 5");
+  });
+
+  it("keeps a list item together with its children", async () => {
+    const children = "  - child 1\n  - child 2\n  - child 3";
+    const slides = await render(`# A\n${bullets(7)}\n- parent\n${children}\n`);
+    expect(slides[1].texts[1]).toBe("parent|child 1|child 2|child 3");
+  });
+
+  it("sets overflowing text smaller to fit one slide with overflow: shrink", async () => {
+    const slides = await render(`# A\n${bullets(12)}\n`, { overflow: "shrink" });
+    expect(slides).toHaveLength(1);
+    expect(slides[0].fontSizes[1]).toBeLessThan(20);
+    expect(slides[0].fontSizes[1]).toBeGreaterThanOrEqual(20 * 0.6);
+  });
+});
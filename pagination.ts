@@ -0,0 +1,58 @@
+import type { BulletItem } from "./txt2ppt";
+
+/** `split` continues overflowing slides on `(cont.)` slides; `shrink` first sets their text smaller. */
+export type OverflowMode = "split" | "shrink";
+
+/** Units are lines of paragraphs and code, list items and table body rows. */
+export interface PaginationRules {
+  /** Fewest units left at the bottom of a slide; a block that would leave fewer moves on whole. */
+  orphans: number;
+  /** Fewest units carried over to the next slide. */
+  widows: number;
+}
+
+export const DEFAULT_PAGINATION: PaginationRules = { orphans: 2, widows: 2 };
+export const OVERFLOW_MODES: OverflowMode[] = ["split", "shrink"];
+
+/** A split point is the number of units that stay on the slide, from 1 to count - 1. */
+export type SplitTest = (index: number) => boolean;
+
+/** Returns 0 to move the block on whole; with `first` the rules are relaxed before giving up. */
+export function splitPoint(
+  count: number,
+  fit: number,
+  rules: PaginationRules,
+  first: boolean,
+  tests: SplitTest[] = []
+): number {
+  const search = (low: number, high: number, test: SplitTest): number => {
+    for (let index = Math.min(high, count - 1); index >= Math.max(low, 1); index -= 1) {
+      if (test(index)) {
+        return index;
+      }
+    }
+    return 0;
+  };
+  const withRules = (test: SplitTest): number => search(rules.orphans, Math.min(fit, count - rules.widows), test);
+  const candidates = [...tests, () => true];
+  const preferred = withRules(candidates[0]);
+  if (preferred > 0 || !first) {
+    return preferred;
+  }
+  for (const test of candidates) {
+    const point = withRules(test) || search(1, fit, test);
+    if (point > 0) {
+      return point;
+    }
+  }
+  return 0;
+}
+
+/** Splits only before a top-level item if possible, and never between an item and its first child. */
+export function listSplitTests(items: BulletItem[]): SplitTest[] {
+  const topLevel = Math.min(...items.map(item => item.indentLevel));
+  return [
+    index => items[index].indentLevel === topLevel,
+    index => items[index].indentLevel <= items[index - 1].indentLevel
+  ];
+}
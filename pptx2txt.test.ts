@@ -0,0 +1,191 @@
+import { spawnSync } from "child_process";
+import fs from "fs";
+import JSZip from "jszip";
+import os from "os";
+import path from "path";
+import { ExtractedDeck, readPptx } from "./pptx2txt";
+
+const PNG = Buffer.from(
+  "iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mNkYAAAAAYAAjCB0C8AAAAASUVORK5CYII=",
+  "base64"
+);
+
+const rows = Array.from({ length: 40 }, (_, index) => `| ${index + 1} | row ${index + 1} |`).join("\n");
+
+const DECK = `---
+title: Round trip
+author: Tester
+---
+# Intro
+## Welcome
+
+Some **bold** and *italic* text with a [link](https://example.com).
+
+- one
+  - nested
+- two
+
+>note: Say hello
+
+# Picture
+
+![A dot](dot.png)
+
+# Numbers
+
+| No | Name |
+|---|--:|
+${rows}
+
+# Code
+
+\`\`\`ts
+const a = 1;
+\`\`\`
+
+\`\`\`chart
+type: bar
+Q, Sales
+Q1, 1
+\`\`\`
+`;
+
+const SECTIONS_DECK = `---
+title: Deck
+titleSlide: true
+agenda: Contents
+---
+# Intro
+>section: Part 1
+## Why
+# A
+`;
+
+/** Adds a picture to the first slide of a deck, as if it had been pasted in PowerPoint. */
+async function addPicture(pptxPath: string): Promise<void> {
+  const zip = await JSZip.loadAsync(fs.readFileSync(pptxPath));
+  const slidePath = "ppt/slides/slide1.xml";
+  const relsPath = "ppt/slides/_rels/slide1.xml.rels";
+  const image = "http://schemas.openxmlformats.org/officeDocument/2006/relationships/image";
+  const picture =
+    '<p:pic><p:nvPicPr><p:cNvPr id="99" name="Pasted"/><p:cNvPicPr/><p:nvPr/></p:nvPicPr>' +
+    '<p:blipFill><a:blip r:embed="rIdPasted"/></p:blipFill><p:spPr/></p:pic>';
+  zip.file("ppt/media/pasted.png", PNG);
+  zip.file(slidePath, (await zip.file(slidePath)!.async("string")).replace("</p:spTree>", `${picture}</p:spTree>`));
+  const rels = await zip.file(relsPath)!.async("string");
+  const rel = `<Relationship Id="rIdPasted" Type="${image}" Target="../media/pasted.png"/>`;
+  zip.file(relsPath, rels.replace("</Relationships>", `${rel}</Relationships>`));
+  fs.writeFileSync(pptxPath, await zip.generateAsync({ type: "nodebuffer" }));
+}
+
+/** Converts `markdown` with the txt2ppt CLI and returns the path of the deck. */
+function writeDeck(dir: string, name: string, markdown: string): string {
+  const inPath = path.join(dir, `${name}.md`);
+  const outPath = path.join(dir, `${name}.pptx`);
+  fs.writeFileSync(inPath, markdown);
+  const args = ["-T", "txt2ppt.ts", "--in", inPath, "--out", outPath];
+  const result = spawnSync(process.execPath, [require.resolve("ts-node/dist/bin"), ...args], {
+    cwd: __dirname,
+    encoding: "utf8"
+  });
+  expect(result.stderr).toBe("");
+  return outPath;
+}
+
+describe("readPptx", () => {
+  let dir: string;
+  let deck: ExtractedDeck;
+
+  beforeAll(async () => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "txt2ppt-pptx2txt-"));
+    fs.writeFileSync(path.join(dir, "dot.png"), PNG);
+    deck = await readPptx(writeDeck(dir, "deck", DECK), { assetsDir: path.join(dir, "assets"), markdownDir: dir });
+  }, 60000);
+
+  afterAll(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+  it("reads the document properties and slide size into front matter", () => {
+    expect(deck.frontMatter).toEqual({ title: "Round trip", author: "Tester", layout: "LAYOUT_16x9" });
+  });
+
+  it("reads titles, subtitles, formatted text, bullet levels and notes", () => {
+    const [intro] = deck.slides;
+    expect(intro).toMatchObject({ title: "Intro", subtitle: "Welcome", notes: "Say hello" });
+    expect(intro.blocks[0]).toMatchObject({
+      type: "paragraph",
+      runs: [
+        { text: "Some " },
+        { text: "bold", bold: true },
+        { text: " and " },
+        { text: "italic", italic: true },
+        { text: " text with a " },
+        { text: "link", link: "https://example.com" },
+        { text: "." }
+      ]
+    });
+    expect(intro.blocks[1]).toMatchObject({
+      type: "bullets",
+      items: [
+        { text: "one", indentLevel: 0 },
+        { text: "nested", indentLevel: 1 },
+        { text: "two", indentLevel: 0 }
+      ]
+    });
+  });
+
+  it("extracts pictures next to the Markdown file", () => {
+    const [image] = deck.slides[1].blocks;
+    expect(image).toMatchObject({ type: "image", alt: "A dot" });
+    const imagePath = (image as { path: string }).path;
+    expect(imagePath.startsWith("assets/")).toBe(true);
+    expect(fs.readFileSync(path.join(dir, imagePath))).toEqual(PNG);
+  });
+
+  it("merges continuation slides back into the slide they continue", () => {
+    const numbers = deck.slides[2];
+    expect(deck.slides.map(slide => slide.title)).toEqual(["Intro", "Picture", "Numbers", "Code"]);
+    const bodyRows = numbers.blocks.flatMap(block => (block.type === "table" ? block.rows.slice(1) : []));
+    expect(bodyRows.map(row => row[0].text)).toEqual(Array.from({ length: 40 }, (_, index) => String(index + 1)));
+    expect(numbers.blocks[0]).toMatchObject({ type: "table", header: true, align: [undefined, "right"] });
+  });
+
+  it("reads code and reports content it cannot convert", () => {
+    expect(deck.slides[3].blocks).toEqual([{ type: "code", text: "const a = 1;" }]);
+    expect(deck.skipped).toEqual([expect.stringMatching(/^slide \d+: chart$/)]);
+  });
+
+  it("rejects files that are not presentations", async () => {
+    const notes = path.join(dir, "deck.md");
+    await expect(readPptx(notes, { assetsDir: dir, markdownDir: dir })).rejects.toThrow();
+  });
+});
+
+describe("readPptx with sections", () => {
+  let dir: string;
+  let deck: ExtractedDeck;
+
+  beforeAll(async () => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "txt2ppt-pptx2txt-"));
+    const pptxPath = writeDeck(dir, "sections", SECTIONS_DECK);
+    await addPicture(pptxPath);
+    deck = await readPptx(pptxPath, { assetsDir: path.join(dir, "assets"), markdownDir: dir });
+  }, 60000);
+
+  afterAll(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+  it("turns the generated title and agenda slides back into front matter", () => {
+    expect(deck.frontMatter).toMatchObject({ title: "Deck", titleSlide: true, agenda: "Contents" });
+    expect(deck.slides.map(slide => slide.title)).toEqual(["Intro", "Part 1", "A"]);
+  });
+
+  it("extracts nothing from the generated slides", () => {
+    expect(fs.existsSync(path.join(dir, "assets"))).toBe(false);
+  });
+
+  it("restores >section: from the section dividers", () => {
+    expect(deck.slides[1]).toMatchObject({ section: "Part 1", subtitle: "Why" });
+    expect(deck.slides[1].layout).toBeUndefined();
+    expect(deck.slides[2].section).toBeUndefined();
+    expect(deck.skipped).toEqual([]);
+  });
+});
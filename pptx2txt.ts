@@ -0,0 +1,676 @@
+import crypto from "crypto";
+import fs from "fs/promises";
+import path from "path";
+import process from "process";
+import JSZip from "jszip";
+import { FrontMatter } from "./frontMatter";
+import { InlineRun, sliceRuns } from "./inline";
+import { MAX_LIST_LEVEL, NumberStyle, TASK_BOXES, toNumberStyle } from "./lists";
+import {
+  EMU_PER_INCH,
+  Relationship,
+  XmlElement,
+  childElement,
+  childElements,
+  findElement,
+  findElements,
+  openPackage,
+  parseXml,
+  readPart,
+  readRelationships,
+  textContent
+} from "./pptxPackage";
+import { serializeSlides } from "./serialize";
+import { GENERATED_SLIDE_NAMES } from "./slideNames";
+import type { Block, BulletItem, ColumnAlign, LayoutOption, SlideSpec, TableCell } from "./txt2ppt";
+
+export interface PptxReadOptions {
+  /** Directory that pictures and background images are extracted to. */
+  assetsDir: string;
+  /** Directory of the Markdown file; extracted image paths are written relative to it. */
+  markdownDir: string;
+}
+
+export interface ExtractedDeck {
+  frontMatter: FrontMatter;
+  slides: SlideSpec[];
+  /** Content without a Markdown equivalent that was left out, e.g. "slide 3: chart". */
+  skipped: string[];
+}
+
+interface CliOptions {
+  inPath: string;
+  outPath: string;
+  assetsDir?: string;
+}
+
+interface Paragraph {
+  runs: InlineRun[];
+  level: number;
+  bullet?: BulletItem["bulletType"];
+  numberStyle?: NumberStyle;
+  startAt?: number;
+  /** Set for a bullet that is a task box. */
+  checked?: boolean;
+}
+
+interface SlideContext {
+  zip: JSZip;
+  rels: Map<string, Relationship>;
+  options: PptxReadOptions;
+  /** Extracted media, by part name and by content hash, to the path written into the Markdown. */
+  extracted: Map<string, string>;
+}
+
+const LAYOUT_SIZES: Array<[LayoutOption, number, number]> = [
+  ["LAYOUT_16x9", 10, 5.625],
+  ["LAYOUT_16x10", 10, 6.25],
+  ["LAYOUT_4x3", 10, 7.5],
+  ["LAYOUT_WIDE", 13.333, 7.5]
+];
+/** Slide layout types that map onto the built-in masters; other layouts use `content`. */
+const LAYOUT_MASTERS: Record<string, string> = { title: "title", secHead: "section" };
+const SKIPPED_PLACEHOLDERS = new Set(["dt", "ftr", "sldNum", "hdr", "sldImg"]);
+const TITLE_PLACEHOLDERS = new Set(["title", "ctrTitle"]);
+/** Placeholders that show bullets unless a paragraph turns them off. */
+const BULLETED_PLACEHOLDERS = new Set(["body", "obj"]);
+const MONOSPACE_FONT_REGEX = /consolas|courier|menlo|monaco|mono|source code/i;
+const LINE_NUMBER_REGEX = /^ *(\d+) {2}/;
+const TASK_PREFIX_REGEX = new RegExp(`^(${TASK_BOXES.open}|${TASK_BOXES.done})\\s+`);
+/** A single line this close below an untitled slide's first line is taken as its subtitle. */
+const SUBTITLE_GAP = 0.25;
+/** Suffix txt2ppt gives the titles of continuation slides; such slides are merged back. */
+const CONTINUATION_SUFFIX = " (cont.)";
+/** The agenda title txt2ppt uses for `agenda: true`. */
+const DEFAULT_AGENDA_TITLE = "Agenda";
+/** PowerPoint's (and txt2ppt's) section for the slides before the first named one; it has no divider. */
+const DEFAULT_SECTION = "Default Section";
+/** Document properties PptxGenJS fills in when a deck does not set them. */
+const DEFAULT_PROPERTIES = new Set(["PptxGenJS", "PptxGenJS Presentation"]);
+
+/** Slides without a title placeholder, such as txt2ppt's, take their first single-line text box as title. */
+export async function readPptx(pptxPath: string, options: PptxReadOptions): Promise<ExtractedDeck> {
+  const zip = await openPackage(pptxPath, "presentation");
+  const presentationXml = await readPart(zip, "ppt/presentation.xml");
+  if (!presentationXml) {
+    throw new Error(`"${pptxPath}" is not a PowerPoint file (ppt/presentation.xml is missing)`);
+  }
+  const presentation = parseXml(presentationXml);
+  const presentationRels = await readRelationships(zip, "ppt/presentation.xml");
+  const size = childElement(findElement(presentation, "p:presentation"), "p:sldSz");
+
+  const skipped: string[] = [];
+  const extracted = new Map<string, string>();
+  const slides: SlideSpec[] = [];
+  const partCounts = new Map<SlideSpec, number>();
+  const sections = readSectionStarts(presentation);
+  const generated: Pick<FrontMatter, "titleSlide" | "agenda"> = {};
+  const slideIds = findElements(findElement(presentation, "p:sldIdLst"), "p:sldId");
+  for (const [index, slideId] of slideIds.entries()) {
+    const slidePath = presentationRels.get(slideId.attributes["r:id"])?.target;
+    if (!slidePath) {
+      continue;
+    }
+    const context: SlideContext = { zip, rels: await readRelationships(zip, slidePath), options, extracted };
+    const slide = parseXml(await readPart(zip, slidePath));
+    // Generated slides only become front matter, so nothing else on them is read or extracted.
+    const name = findElement(slide, "p:cSld")?.attributes.name;
+    if (name === GENERATED_SLIDE_NAMES.title) {
+      generated.titleSlide = true;
+      continue;
+    }
+    if (name === GENERATED_SLIDE_NAMES.agenda) {
+      const title = readSlideTitle(slide, context);
+      generated.agenda = !title || title === DEFAULT_AGENDA_TITLE ? true : title;
+      continue;
+    }
+    const spec = await readSlide(slide, context, index + 1, skipped);
+    const section = sections.get(slideId.attributes.id);
+    if (section !== undefined && spec.layout === "section") {
+      // The divider shows the section name; the section list may have " (2)" added to keep it unique.
+      spec.section = spec.title;
+      delete spec.layout;
+    } else if (section !== undefined && section !== DEFAULT_SECTION) {
+      skipped.push(`slide ${index + 1}: section "${section}" (no section header slide)`);
+    }
+    appendSlide(slides, partCounts, spec);
+  }
+
+  return { frontMatter: { ...(await readFrontMatter(zip, size, skipped)), ...generated }, slides, skipped };
+}
+
+/** The name of each section of the presentation by the id of its first slide. */
+function readSectionStarts(presentation: XmlElement): Map<string, string> {
+  const starts = new Map<string, string>();
+  findElements(findElement(presentation, "p14:sectionLst"), "p14:section").forEach(section => {
+    const first = findElement(section, "p14:sldId")?.attributes.id;
+    if (first) {
+      starts.set(first, section.attributes.name ?? "");
+    }
+  });
+  return starts;
+}
+
+/** Merges a `Title (cont.)` slide into the slide it continues; its notes become that part's. */
+function appendSlide(slides: SlideSpec[], partCounts: Map<SlideSpec, number>, spec: SlideSpec): void {
+  const previous = slides[slides.length - 1];
+  if (!previous || spec.title !== `${previous.title}${CONTINUATION_SUFFIX}`) {
+    slides.push(spec);
+    return;
+  }
+  const part = (partCounts.get(previous) ?? 1) + 1;
+  partCounts.set(previous, part);
+  previous.blocks.push(...spec.blocks);
+  if (spec.notes) {
+    previous.partNotes = { ...previous.partNotes, [part]: spec.notes };
+  }
+}
+
+async function readSlide(
+  slide: XmlElement,
+  context: SlideContext,
+  number: number,
+  skipped: string[]
+): Promise<SlideSpec> {
+  const spec: SlideSpec = { title: "", blocks: [] };
+  const tree = findElement(slide, "p:spTree");
+  const shapes = flattenGroups(tree);
+  const hasTitlePlaceholder = shapes.some(shape => TITLE_PLACEHOLDERS.has(placeholderType(shape) ?? ""));
+  let titleBottom: number | undefined;
+
+  for (const shape of shapes) {
+    const placeholder = placeholderType(shape);
+    if (placeholder && SKIPPED_PLACEHOLDERS.has(placeholder)) {
+      continue;
+    }
+
+    if (shape.name === "p:pic") {
+      const block = await readPicture(shape, context);
+      if (block) {
+        spec.blocks.push(block);
+      }
+      continue;
+    }
+
+    if (shape.name === "p:graphicFrame") {
+      const table = findElement(shape, "a:tbl");
+      if (table) {
+        spec.blocks.push(readTable(table, context));
+      } else {
+        skipped.push(`slide ${number}: ${describeFrame(shape)}`);
+      }
+      continue;
+    }
+
+    const body = childElement(shape, "p:txBody");
+    if (shape.name !== "p:sp" || !body) {
+      continue;
+    }
+    const paragraphs = readParagraphs(body, context, BULLETED_PLACEHOLDERS.has(placeholder ?? ""));
+    const text = paragraphs.map(paragraph => plainText(paragraph.runs)).join("\n").trim();
+    if (!text) {
+      continue;
+    }
+    if (placeholder && TITLE_PLACEHOLDERS.has(placeholder)) {
+      spec.title = singleLine(text);
+      continue;
+    }
+    if (placeholder === "subTitle" && !spec.subtitle) {
+      spec.subtitle = singleLine(text);
+      continue;
+    }
+
+    const box = shapeBox(shape);
+    const singleLineText = !placeholder && !text.includes("\n") && paragraphs.every(paragraph => !paragraph.bullet);
+    if (!hasTitlePlaceholder && !spec.title && spec.blocks.length === 0 && singleLineText) {
+      spec.title = text;
+      titleBottom = box ? box.y + box.h : undefined;
+      continue;
+    }
+    if (
+      titleBottom !== undefined &&
+      !spec.subtitle &&
+      spec.blocks.length === 0 &&
+      singleLineText &&
+      box &&
+      box.y < titleBottom + SUBTITLE_GAP
+    ) {
+      spec.subtitle = text;
+      continue;
+    }
+    spec.blocks.push(...toBlocks(paragraphs));
+  }
+
+  spec.title ||= `Slide ${number}`;
+  spec.notes = await readNotes(context);
+  spec.layout = await readLayoutName(context);
+  const background = childElement(findElement(slide, "p:cSld"), "p:bg");
+  const embed = findElement(background, "a:blip")?.attributes["r:embed"];
+  if (embed) {
+    spec.background = await extractMedia(context, embed);
+  }
+  return spec;
+}
+
+/** The text of the title placeholder, or else of the first text box, as `readSlide` takes it. */
+function readSlideTitle(slide: XmlElement, context: SlideContext): string | undefined {
+  const texts = flattenGroups(findElement(slide, "p:spTree")).flatMap(shape => {
+    const body = childElement(shape, "p:txBody");
+    const text = body ? readParagraphs(body, context, false).map(paragraph => plainText(paragraph.runs)) : [];
+    const joined = text.join("\n").trim();
+    return shape.name === "p:sp" && joined ? [{ placeholder: placeholderType(shape), text: joined }] : [];
+  });
+  const title = texts.find(entry => TITLE_PLACEHOLDERS.has(entry.placeholder ?? "")) ?? texts[0];
+  return title && singleLine(title.text);
+}
+
+function describeFrame(frame: XmlElement): string {
+  const uri = findElement(frame, "a:graphicData")?.attributes.uri ?? "";
+  if (uri.includes("chart")) {
+    return "chart";
+  }
+  return uri.includes("diagram") ? "SmartArt" : "embedded object";
+}
+
+/** Shapes in document order, with the members of group shapes in place of the group. */
+function flattenGroups(tree: XmlElement | undefined): XmlElement[] {
+  return childElements(tree).flatMap(child => {
+    if (child.name === "p:grpSp") {
+      return flattenGroups(child);
+    }
+    return ["p:sp", "p:pic", "p:graphicFrame"].includes(child.name) ? [child] : [];
+  });
+}
+
+/** Placeholder type of a shape; placeholders without a type are content (`obj`) placeholders. */
+function placeholderType(shape: XmlElement): string | undefined {
+  const placeholder = findElement(childElements(shape)[0], "p:ph");
+  return placeholder ? (placeholder.attributes.type ?? "obj") : undefined;
+}
+
+function shapeBox(shape: XmlElement): { y: number; h: number } | undefined {
+  const offset = findElement(shape, "a:off");
+  const extent = findElement(shape, "a:ext");
+  if (!offset || !extent) {
+    return undefined;
+  }
+  return { y: Number(offset.attributes.y) / EMU_PER_INCH, h: Number(extent.attributes.cy) / EMU_PER_INCH };
+}
+
+function readParagraphs(body: XmlElement, context: SlideContext, bulletsByDefault: boolean): Paragraph[] {
+  return childElements(body, "a:p").map(paragraph => {
+    const properties = childElement(paragraph, "a:pPr");
+    const autoNumber = childElement(properties, "a:buAutoNum");
+    const bulletChar = childElement(properties, "a:buChar")?.attributes.char;
+    let bullet: Paragraph["bullet"] = bulletsByDefault ? "bullet" : undefined;
+    if (childElement(properties, "a:buNone")) {
+      bullet = undefined;
+    } else if (autoNumber) {
+      bullet = "number";
+    } else if (bulletChar !== undefined || childElement(properties, "a:buBlip")) {
+      bullet = "bullet";
+    }
+
+    const runs: InlineRun[] = [];
+    childElements(paragraph).forEach(child => {
+      if (child.name === "a:br") {
+        runs.push({ text: "\n" });
+      } else if (child.name === "a:r" || child.name === "a:fld") {
+        runs.push(readRun(child, context));
+      }
+    });
+    return {
+      runs,
+      level: Number(properties?.attributes.lvl ?? 0),
+      bullet,
+      ...(autoNumber && {
+        numberStyle: toNumberStyle(autoNumber.attributes.type),
+        startAt: autoNumber.attributes.startAt ? Number(autoNumber.attributes.startAt) : undefined
+      }),
+      ...(bullet === "bullet" && isTaskBox(bulletChar) && { checked: bulletChar === TASK_BOXES.done })
+    };
+  });
+}
+
+function isTaskBox(char: string | undefined): boolean {
+  return char === TASK_BOXES.open || char === TASK_BOXES.done;
+}
+
+function readRun(run: XmlElement, context: SlideContext): InlineRun {
+  const properties = childElement(run, "a:rPr");
+  const attributes = properties?.attributes ?? {};
+  const text = childElements(run, "a:t").map(textContent).join("");
+  const styled: InlineRun = { text };
+  if (attributes.b === "1" || attributes.b === "true") {
+    styled.bold = true;
+  }
+  if (attributes.i === "1" || attributes.i === "true") {
+    styled.italic = true;
+  }
+  if (attributes.strike && attributes.strike !== "noStrike") {
+    styled.strike = true;
+  }
+  if (MONOSPACE_FONT_REGEX.test(childElement(properties, "a:latin")?.attributes.typeface ?? "")) {
+    styled.code = true;
+  }
+  const link = context.rels.get(childElement(properties, "a:hlinkClick")?.attributes["r:id"] ?? "");
+  if (link?.external) {
+    styled.link = link.target;
+  }
+  return styled;
+}
+
+/** Bullet paragraphs become a list, and a box entirely in a monospace font a code block. */
+function toBlocks(paragraphs: Paragraph[]): Block[] {
+  const allRuns = paragraphs.flatMap(paragraph => paragraph.runs.filter(run => run.text.trim()));
+  if (allRuns.length > 0 && allRuns.every(run => run.code)) {
+    const lines = paragraphs.flatMap(paragraph => plainText(paragraph.runs).split("\n"));
+    const lineNumbers = readLineNumbers(lines);
+    const code = lineNumbers === undefined ? lines : lines.map(line => line.replace(LINE_NUMBER_REGEX, ""));
+    return [{ type: "code", text: code.join("\n").replace(/^\n+|\s+$/g, ""), lineNumbers }];
+  }
+
+  const blocks: Block[] = [];
+  let lines: InlineRun[][] = [];
+  // As in PowerPoint, numbered paragraphs count on from the one before at their level unless a
+  // bullet or another scheme comes between; deeper paragraphs do not interrupt them.
+  const counters: Array<{ style: NumberStyle; number: number } | undefined> = [];
+  const flushParagraph = (): void => {
+    if (lines.length > 0) {
+      const runs = lines.flatMap((line, index) => (index === 0 ? line : [{ text: "\n" }, ...line]));
+      blocks.push({ type: "paragraph", text: plainText(runs), runs });
+      lines = [];
+    }
+  };
+
+  paragraphs.forEach(paragraph => {
+    const runs = trimRuns(paragraph.runs);
+    if (runs.length === 0) {
+      flushParagraph();
+      return;
+    }
+    if (!paragraph.bullet) {
+      counters.length = 0;
+      lines.push(runs);
+      return;
+    }
+    flushParagraph();
+    const level = Math.min(paragraph.level, MAX_LIST_LEVEL);
+    counters.length = level + 1;
+    const before = counters[level];
+    const { numberStyle } = paragraph;
+    const counter = numberStyle && {
+      style: numberStyle,
+      number: before?.style === numberStyle ? before.number + 1 : (paragraph.startAt ?? 1)
+    };
+    counters[level] = counter;
+    const item: BulletItem = {
+      text: plainText(runs),
+      runs,
+      bulletType: paragraph.bullet,
+      indentLevel: level,
+      ...(counter && { number: counter.number, numberStyle })
+    };
+    const box = TASK_PREFIX_REGEX.exec(item.text);
+    if (paragraph.checked !== undefined) {
+      item.checked = paragraph.checked;
+    } else if (paragraph.numberStyle && box) {
+      // txt2ppt writes the box of a numbered task in front of its text.
+      item.checked = box[1] === TASK_BOXES.done;
+      item.runs = trimRuns(sliceRuns(item.runs, box[0].length, item.text.length));
+      item.text = plainText(item.runs);
+    }
+    const previous = blocks[blocks.length - 1];
+    if (previous?.type === "bullets" && lines.length === 0) {
+      previous.items.push(item);
+    } else {
+      blocks.push({ type: "bullets", items: [item] });
+    }
+  });
+  flushParagraph();
+  return blocks;
+}
+
+/** The first line number, when every line starts with the numbers `showLineNumbers` writes. */
+function readLineNumbers(lines: string[]): number | undefined {
+  const numbers = lines.map(line => line.match(LINE_NUMBER_REGEX)?.[1]);
+  if (numbers.some(number => number === undefined)) {
+    return undefined;
+  }
+  const first = Number(numbers[0]);
+  return numbers.every((number, index) => Number(number) === first + index) ? first : undefined;
+}
+
+async function readPicture(picture: XmlElement, context: SlideContext): Promise<Block | undefined> {
+  const embed = findElement(picture, "a:blip")?.attributes["r:embed"];
+  const imagePath = embed ? await extractMedia(context, embed) : undefined;
+  if (!imagePath) {
+    return undefined;
+  }
+  const extent = findElement(picture, "a:ext");
+  const width = Number(extent?.attributes.cx ?? 0) / EMU_PER_INCH;
+  return {
+    type: "image",
+    alt: findElement(picture, "p:cNvPr")?.attributes.descr ?? "",
+    path: imagePath,
+    size: width > 0 ? { width: { value: Math.round(width * 100) / 100, unit: "in" } } : undefined
+  };
+}
+
+function readTable(table: XmlElement, context: SlideContext): Extract<Block, { type: "table" }> {
+  const rows: TableCell[][] = childElements(table, "a:tr").map(row =>
+    childElements(row, "a:tc").map((cell): TableCell => {
+      // Cells covered by a merge come back as the `<` and `^` of the table syntax.
+      if (cell.attributes.hMerge === "1" || cell.attributes.vMerge === "1") {
+        return { text: "", runs: [], merge: cell.attributes.hMerge === "1" ? "left" : "up" };
+      }
+      const body = childElement(cell, "a:txBody");
+      const paragraphs = body ? readParagraphs(body, context, false) : [];
+      const runs = trimRuns(
+        paragraphs.flatMap((paragraph, index) => (index === 0 ? paragraph.runs : [{ text: " " }, ...paragraph.runs]))
+      ).map(run => ({ ...run, text: run.text.replace(/\n/g, " ") }));
+      return { text: plainText(runs), runs };
+    })
+  );
+  // PowerPoint marks header rows with firstRow; decks written by txt2ppt set them in bold.
+  const boldHeader =
+    rows.length > 1 &&
+    rows[0].every(cell => cell.merge || (cell.runs.length > 0 && cell.runs.every(run => run.bold)));
+  const header = childElement(table, "a:tblPr")?.attributes.firstRow === "1" || boldHeader;
+  if (boldHeader) {
+    rows[0] = rows[0].map(cell => ({ ...cell, runs: cell.runs.map(run => ({ ...run, bold: undefined })) }));
+  }
+  const align = header
+    ? childElements(childElements(table, "a:tr")[0], "a:tc").map(cell => toColumnAlign(findElement(cell, "a:pPr")))
+    : [];
+  return { type: "table", rows, header, align };
+}
+
+function toColumnAlign(properties: XmlElement | undefined): ColumnAlign | undefined {
+  switch (properties?.attributes.algn) {
+    case "l":
+      return "left";
+    case "ctr":
+      return "center";
+    case "r":
+      return "right";
+    default:
+      return undefined;
+  }
+}
+
+async function readNotes(context: SlideContext): Promise<string | undefined> {
+  const notesPath = [...context.rels.values()].find(rel => rel.type === "notesSlide")?.target;
+  if (!notesPath) {
+    return undefined;
+  }
+  const notes = parseXml(await readPart(context.zip, notesPath));
+  const body = flattenGroups(findElement(notes, "p:spTree")).find(shape => placeholderType(shape) === "body");
+  const text = childElements(childElement(body, "p:txBody"), "a:p")
+    .map(paragraph => findElements(paragraph, "a:t").map(textContent).join(""))
+    .join("\n")
+    .trim();
+  return text || undefined;
+}
+
+/** Title and section header layouts map to those masters; a custom layout keeps its name. */
+async function readLayoutName(context: SlideContext): Promise<string | undefined> {
+  const layoutPath = [...context.rels.values()].find(rel => rel.type === "slideLayout")?.target;
+  if (!layoutPath) {
+    return undefined;
+  }
+  const layout = findElement(parseXml(await readPart(context.zip, layoutPath)), "p:sldLayout");
+  const type = layout?.attributes.type ?? "cust";
+  const name = childElement(layout, "p:cSld")?.attributes.name ?? "";
+  const master = LAYOUT_MASTERS[type] ?? (type === "cust" && /^[\w-]+$/.test(name) ? name : undefined);
+  return master === "content" ? undefined : master;
+}
+
+async function extractMedia(context: SlideContext, relationshipId: string): Promise<string | undefined> {
+  const rel = context.rels.get(relationshipId);
+  if (!rel) {
+    return undefined;
+  }
+  if (rel.external) {
+    return rel.target;
+  }
+  const known = context.extracted.get(rel.target);
+  if (known) {
+    return known;
+  }
+  const file = context.zip.file(rel.target);
+  if (!file) {
+    return undefined;
+  }
+  // PptxGenJS stores a picture once per slide, so identical files are only written once.
+  const data = await file.async("nodebuffer");
+  const hash = `sha1:${crypto.createHash("sha1").update(data).digest("hex")}`;
+  const { assetsDir, markdownDir } = context.options;
+  let relative = context.extracted.get(hash);
+  if (!relative) {
+    const outputPath = path.join(assetsDir, path.posix.basename(rel.target));
+    await fs.mkdir(assetsDir, { recursive: true });
+    await fs.writeFile(outputPath, data);
+    relative = path.relative(markdownDir, outputPath).split(path.sep).join("/");
+    context.extracted.set(hash, relative);
+  }
+  context.extracted.set(rel.target, relative);
+  return relative;
+}
+
+async function readFrontMatter(zip: JSZip, size: XmlElement | undefined, skipped: string[]): Promise<FrontMatter> {
+  const core = parseXml(await readPart(zip, "docProps/core.xml"));
+  const app = parseXml(await readPart(zip, "docProps/app.xml"));
+  const text = (root: XmlElement, name: string): string | undefined => {
+    const element = findElement(root, name);
+    const value = element ? textContent(element).trim() : "";
+    return value && !DEFAULT_PROPERTIES.has(value) ? value : undefined;
+  };
+
+  const frontMatter: FrontMatter = {
+    title: text(core, "dc:title"),
+    author: text(core, "dc:creator"),
+    company: text(app, "Company"),
+    subject: text(core, "dc:subject")
+  };
+  if (size) {
+    const width = Number(size.attributes.cx) / EMU_PER_INCH;
+    const height = Number(size.attributes.cy) / EMU_PER_INCH;
+    const layout = LAYOUT_SIZES.find(([, w, h]) => Math.abs(w - width) < 0.01 && Math.abs(h - height) < 0.01);
+    if (layout) {
+      frontMatter.layout = layout[0];
+    } else {
+      skipped.push(`slide size ${width.toFixed(2)}x${height.toFixed(2)} in (no matching layout)`);
+    }
+  }
+  return frontMatter;
+}
+
+function trimRuns(runs: InlineRun[]): InlineRun[] {
+  const trimmed = runs.map(run => ({ ...run }));
+  while (trimmed.length > 0 && !trimmed[0].text.trim()) {
+    trimmed.shift();
+  }
+  while (trimmed.length > 0 && !trimmed[trimmed.length - 1].text.trim()) {
+    trimmed.pop();
+  }
+  if (trimmed.length > 0) {
+    trimmed[0].text = trimmed[0].text.trimStart();
+    trimmed[trimmed.length - 1].text = trimmed[trimmed.length - 1].text.trimEnd();
+  }
+  return trimmed;
+}
+
+function plainText(runs: InlineRun[]): string {
+  return runs.map(run => run.text).join("");
+}
+
+function singleLine(text: string): string {
+  return text.replace(/\s*\n\s*/g, " ").trim();
+}
+
+function parseArguments(argv: string[]): CliOptions {
+  const args = argv.slice(2);
+  const options: Partial<CliOptions> = {};
+
+  for (let i = 0; i < args.length; i += 1) {
+    const token = args[i];
+    if (!token.startsWith("--")) {
+      throw new Error(`Unexpected argument: ${token}`);
+    }
+    const [flag, valueFromEquals] = token.split("=", 2);
+    const flagName = flag.slice(2);
+    const value = valueFromEquals ?? args[++i];
+    if (!value) {
+      throw new Error(`Missing value for --${flagName}`);
+    }
+    switch (flagName) {
+      case "in":
+        options.inPath = value;
+        break;
+      case "out":
+        options.outPath = value;
+        break;
+      case "assets":
+        options.assetsDir = value;
+        break;
+      default:
+        throw new Error(`Unknown option: --${flagName}`);
+    }
+  }
+
+  if (!options.inPath) {
+    throw new Error("--in is required");
+  }
+  if (!options.outPath) {
+    throw new Error("--out is required");
+  }
+  if (!options.outPath.toLowerCase().endsWith(".md")) {
+    throw new Error("--out must point to a .md file");
+  }
+  return options as CliOptions;
+}
+
+async function main(): Promise<void> {
+  try {
+    const cli = parseArguments(process.argv);
+    const inPath = path.resolve(cli.inPath);
+    const outPath = path.resolve(cli.outPath);
+    const markdownDir = path.dirname(outPath);
+    // Images go next to the Markdown file, e.g. deck.md -> deck-assets/, unless --assets is given.
+    const assetsDir = cli.assetsDir
+      ? path.resolve(cli.assetsDir)
+      : path.join(markdownDir, `${path.basename(outPath, path.extname(outPath))}-assets`);
+
+    const { frontMatter, slides, skipped } = await readPptx(inPath, { assetsDir, markdownDir });
+    skipped.forEach(entry => console.error(`Skipped ${entry}`));
+    await fs.writeFile(outPath, serializeSlides(slides, frontMatter), "utf8");
+  } catch (error) {
+    console.error((error as Error).message);
+    process.exitCode = 1;
+  }
+}
+
+if (require.main === module) {
+  void main();
+}
@@ -0,0 +1,166 @@
+import fs from "fs/promises";
+import path from "path";
+import JSZip from "jszip";
+
+// Reads the parts of a .pptx package for `--template` and `pptx2txt`.
+
+export const EMU_PER_INCH = 914400;
+
+export interface Relationship {
+  /** Part name inside the package, or the URL as written for external targets. */
+  target: string;
+  /** Last segment of the relationship type URI, e.g. `image`, `notesSlide` or `hyperlink`. */
+  type: string;
+  external: boolean;
+}
+
+export interface XmlElement {
+  name: string;
+  attributes: Record<string, string>;
+  children: Array<XmlElement | string>;
+}
+
+/** Start/end tags, CDATA sections, and declarations or comments, which are skipped. */
+const TAG_REGEX = new RegExp(
+  [
+    /<(\/?)([\w:.-]+)((?:\s+[\w:.-]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>/.source,
+    /<!\[CDATA\[([\s\S]*?)]]>/.source,
+    /<\?[\s\S]*?\?>|<!--[\s\S]*?-->|<![^>]*>/.source
+  ].join("|"),
+  "g"
+);
+const ATTRIBUTE_REGEX = /([\w:.-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+
+export async function openPackage(filePath: string, description: string): Promise<JSZip> {
+  try {
+    return await JSZip.loadAsync(await fs.readFile(filePath));
+  } catch (error) {
+    throw new Error(`Failed to read ${description} "${filePath}": ${(error as Error).message}`);
+  }
+}
+
+export async function readPart(zip: JSZip, partPath: string): Promise<string> {
+  return (await zip.file(partPath)?.async("string")) ?? "";
+}
+
+export async function readRelationships(zip: JSZip, partPath: string): Promise<Map<string, Relationship>> {
+  const relsPath = path.posix.join(path.posix.dirname(partPath), "_rels", `${path.posix.basename(partPath)}.rels`);
+  const xml = await readPart(zip, relsPath);
+  const rels = new Map<string, Relationship>();
+  for (const match of xml.matchAll(/<Relationship\b[^>]*>/g)) {
+    const id = match[0].match(/\bId="([^"]+)"/)?.[1];
+    const target = match[0].match(/\bTarget="([^"]+)"/)?.[1];
+    if (!id || !target) {
+      continue;
+    }
+    const type = match[0].match(/\bType="([^"]+)"/)?.[1].split("/").pop() ?? "";
+    const external = /\bTargetMode="External"/.test(match[0]);
+    const decoded = decodeXml(target);
+    const resolved = external
+      ? decoded
+      : decoded.startsWith("/")
+        ? decoded.slice(1)
+        : path.posix.join(path.posix.dirname(partPath), decoded);
+    rels.set(id, { target: resolved, type, external });
+  }
+  return rels;
+}
+
+/** Orders `slide2.xml` before `slide10.xml`. */
+export function comparePartNames(a: string, b: string): number {
+  return a.localeCompare(b, undefined, { numeric: true });
+}
+
+export function decodeXml(text: string): string {
+  return text.replace(/&(lt|gt|quot|apos|amp|#\d+|#x[\da-fA-F]+);/g, (entity, name: string) => {
+    switch (name) {
+      case "lt":
+        return "<";
+      case "gt":
+        return ">";
+      case "quot":
+        return '"';
+      case "apos":
+        return "'";
+      case "amp":
+        return "&";
+      default:
+        return String.fromCodePoint(name[1] === "x" ? Number.parseInt(name.slice(2), 16) : Number(name.slice(1)));
+    }
+  });
+}
+
+/** Enough for Office parts: no DTDs or namespaces, and whitespace-only text is kept only in `<a:t>`. */
+export function parseXml(xml: string): XmlElement {
+  const root: XmlElement = { name: "#document", attributes: {}, children: [] };
+  const stack = [root];
+  let last = 0;
+  for (const match of xml.matchAll(TAG_REGEX)) {
+    const top = stack[stack.length - 1];
+    const text = xml.slice(last, match.index);
+    if (text.trim() || (text && top.name === "a:t")) {
+      top.children.push(decodeXml(text));
+    }
+    last = match.index! + match[0].length;
+    const [, closing, name, attributes, selfClosing, cdata] = match;
+    if (cdata !== undefined) {
+      top.children.push(cdata);
+    } else if (!name) {
+      continue;
+    } else if (closing) {
+      if (stack.length > 1) {
+        stack.pop();
+      }
+    } else {
+      const element: XmlElement = { name, attributes: parseAttributes(attributes), children: [] };
+      top.children.push(element);
+      if (!selfClosing) {
+        stack.push(element);
+      }
+    }
+  }
+  return root;
+}
+
+export function childElements(element: XmlElement | undefined, name?: string): XmlElement[] {
+  return (element?.children ?? []).filter(
+    (child): child is XmlElement => typeof child !== "string" && (!name || child.name === name)
+  );
+}
+
+export function childElement(element: XmlElement | undefined, name: string): XmlElement | undefined {
+  return childElements(element, name)[0];
+}
+
+/** Depth-first search for the first element with the given name below `element`. */
+export function findElement(element: XmlElement | undefined, name: string): XmlElement | undefined {
+  for (const child of childElements(element)) {
+    if (child.name === name) {
+      return child;
+    }
+    const found = findElement(child, name);
+    if (found) {
+      return found;
+    }
+  }
+  return undefined;
+}
+
+export function findElements(element: XmlElement | undefined, name: string): XmlElement[] {
+  return childElements(element).flatMap(child => [
+    ...(child.name === name ? [child] : []),
+    ...findElements(child, name)
+  ]);
+}
+
+export function textContent(element: XmlElement): string {
+  return element.children.map(child => (typeof child === "string" ? child : textContent(child))).join("");
+}
+
+function parseAttributes(source: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  for (const match of source.matchAll(ATTRIBUTE_REGEX)) {
+    attributes[match[1]] = decodeXml(match[2] ?? match[3]);
+  }
+  return attributes;
+}
@@ -0,0 +1,110 @@
+import PptxGenJS from "pptxgenjs";
+import type { SlideTransition } from "./directives";
+import { SlideSize } from "./masters";
+
+/** One object placed on a slide, with the arguments it was added with (positions in inches). */
+export type RecordedElement =
+  | { type: "text"; text: string | PptxGenJS.TextProps[]; options: PptxGenJS.TextPropsOptions }
+  | { type: "shape"; shape: PptxGenJS.SHAPE_NAME; options: PptxGenJS.ShapeProps }
+  | { type: "image"; options: PptxGenJS.ImageProps }
+  | { type: "table"; rows: PptxGenJS.TableRow[]; options: PptxGenJS.TableProps }
+  | { type: "chart"; chart: PptxGenJS.CHART_NAME; data: PptxGenJS.OptsChartData[]; options: PptxGenJS.IChartOpts };
+
+export interface RecordedSlide {
+  master?: string;
+  background?: PptxGenJS.BackgroundProps;
+  elements: RecordedElement[];
+  notes: string[];
+  /** Set by `renderSlides` from `>transition:`; PptxGenJS itself has no transitions. */
+  transition?: SlideTransition;
+}
+
+/** What `renderSlides` placed where, for `--format html|json`. */
+export interface DeckLayout {
+  size: SlideSize;
+  lang: string;
+  masters: Record<string, PptxGenJS.SlideMasterProps>;
+  slides: RecordedSlide[];
+}
+
+export function createDeckLayout(): DeckLayout {
+  return { size: { width: 0, height: 0 }, lang: "", masters: {}, slides: [] };
+}
+
+/** Copies masters, slides and everything added to them into `layout`; otherwise behaves like `pptx`. */
+export function recordPresentation(pptx: PptxGenJS, layout: DeckLayout): PptxGenJS {
+  return new Proxy(pptx, {
+    get(target, property, receiver) {
+      if (property === "defineSlideMaster") {
+        return (props: PptxGenJS.SlideMasterProps): void => {
+          layout.masters[props.title] = structuredClone(props);
+          target.defineSlideMaster(props);
+        };
+      }
+      if (property === "addSlide") {
+        return (props?: PptxGenJS.AddSlideProps): PptxGenJS.Slide => {
+          const slide: RecordedSlide = { master: props?.masterName, elements: [], notes: [] };
+          layout.slides.push(slide);
+          return recordSlide(target.addSlide(props), slide);
+        };
+      }
+      return Reflect.get(target, property, receiver);
+    }
+  });
+}
+
+function recordSlide(slide: PptxGenJS.Slide, record: RecordedSlide): PptxGenJS.Slide {
+  // PptxGenJS may adjust the options it is given, so the record keeps a copy of the originals.
+  const proxy: PptxGenJS.Slide = new Proxy(slide, {
+    get(target, property, receiver) {
+      switch (property) {
+        case "addText":
+          return (text: string | PptxGenJS.TextProps[], options: PptxGenJS.TextPropsOptions = {}) => {
+            record.elements.push({ type: "text", text: structuredClone(text), options: structuredClone(options) });
+            target.addText(text, options);
+            return proxy;
+          };
+        case "addShape":
+          return (shape: PptxGenJS.SHAPE_NAME, options: PptxGenJS.ShapeProps = {}) => {
+            record.elements.push({ type: "shape", shape, options: structuredClone(options) });
+            target.addShape(shape, options);
+            return proxy;
+          };
+        case "addImage":
+          return (options: PptxGenJS.ImageProps) => {
+            record.elements.push({ type: "image", options: structuredClone(options) });
+            target.addImage(options);
+            return proxy;
+          };
+        case "addTable":
+          return (rows: PptxGenJS.TableRow[], options: PptxGenJS.TableProps = {}) => {
+            record.elements.push({ type: "table", rows: structuredClone(rows), options: structuredClone(options) });
+            target.addTable(rows, options);
+            return proxy;
+          };
+        case "addChart":
+          return (chart: PptxGenJS.CHART_NAME, data: PptxGenJS.OptsChartData[], options: PptxGenJS.IChartOpts = {}) => {
+            const copy = { chart, data: structuredClone(data), options: structuredClone(options) };
+            record.elements.push({ type: "chart", ...copy });
+            target.addChart(chart, data, options);
+            return proxy;
+          };
+        case "addNotes":
+          return (notes: string) => {
+            record.notes.push(notes);
+            target.addNotes(notes);
+            return proxy;
+          };
+        default:
+          return Reflect.get(target, property, receiver);
+      }
+    },
+    set(target, property, value, receiver) {
+      if (property === "background") {
+        record.background = structuredClone(value);
+      }
+      return Reflect.set(target, property, value, receiver);
+    }
+  });
+  return proxy;
+}
@@ -0,0 +1,137 @@
+import PptxGenJS from "pptxgenjs";
+import { RenderOptions, parseDocument, parseSlides, renderSlides } from "./txt2ppt";
+
+interface RenderedSlide {
+  sectionTitle?: string;
+  texts: string[];
+  tables: PptxGenJS.TableRow[][];
+}
+
+async function render(
+  markdown: string,
+  options: Partial<RenderOptions>
+): Promise<{ slides: RenderedSlide[]; sections: string[] }> {
+  const pptx = new PptxGenJS();
+  const addSlide = pptx.addSlide.bind(pptx);
+  const addSection = pptx.addSection.bind(pptx);
+  const slides: RenderedSlide[] = [];
+  const sections: string[] = [];
+  jest.spyOn(pptx, "addSection").mockImplementation(props => {
+    sections.push(props.title);
+    addSection(props);
+  });
+  jest.spyOn(pptx, "addSlide").mockImplementation(props => {
+    const slide = addSlide(props);
+    // The typings pick the deprecated `addSlide(masterName)` overload.
+    const { sectionTitle } = (props ?? {}) as PptxGenJS.AddSlideProps;
+    const rendered: RenderedSlide = { sectionTitle, texts: [], tables: [] };
+    slides.push(rendered);
+    const addText = slide.addText.bind(slide);
+    const addTable = slide.addTable.bind(slide);
+    jest.spyOn(slide, "addText").mockImplementation((text, textOptions) => {
+      rendered.texts.push(typeof text === "string" ? text : text.map(run => run.text).join(""));
+      return addText(text, textOptions);
+    });
+    jest.spyOn(slide, "addTable").mockImplementation((rows, tableOptions) => {
+      rendered.tables.push(rows);
+      return addTable(rows, tableOptions);
+    });
+    return slide;
+  });
+  await renderSlides(pptx, parseSlides(markdown), { layout: "LAYOUT_16x9", revision: "1", ...options });
+  return { slides, sections };
+}
+
+/** Title and linked slide number of each agenda row. */
+function agendaEntries(rows: PptxGenJS.TableRow[]): Array<[string, number | undefined, string]> {
+  return rows.map(([title, number]) => {
+    const [run] = title.text as PptxGenJS.TextProps[];
+    return [run.text!, run.options?.hyperlink?.slide, number.text as string];
+  });
+}
+
+describe("sections", () => {
+  it("parses >section: as a divider slide that keeps the lines up to the next heading", () => {
+    const { slides, diagnostics } = parseDocument(
+      "# A\n>section: Part 1\n## Why\n>note: Divider note\n# B\n>section:\n"
+    );
+    expect(slides.map(slide => [slide.title, slide.section, slide.classes])).toEqual([
+      ["A", undefined, undefined],
+      ["Part 1", "Part 1", ["divider"]],
+      ["B", undefined, undefined]
+    ]);
+    expect(slides[1]).toMatchObject({ subtitle: "Why", notes: "Divider note" });
+    expect(diagnostics).toMatchObject([{ code: "empty-section", severity: "warning", line: 6 }]);
+  });
+
+  it("ends a ??? notes section at >section:", () => {
+    const slides = parseSlides("# A\n???\nLong\nnotes\n>section: Part 1\n## Why\n");
+    expect(slides.map(slide => [slide.title, slide.notes])).toEqual([
+      ["A", "Long\nnotes"],
+      ["Part 1", undefined]
+    ]);
+    expect(slides[1]).toMatchObject({ section: "Part 1", subtitle: "Why" });
+  });
+
+  it("reads titleSlide and agenda from the front matter", () => {
+    const { frontMatter } = parseDocument("---\ntitleSlide: true\nagenda: Contents\n---\n# A\n");
+    expect(frontMatter).toMatchObject({ titleSlide: true, agenda: "Contents" });
+    expect(() => parseDocument("---\nagenda: 3\n---\n# A\n")).toThrow('"agenda" must be true, false or a title');
+  });
+
+  it("puts every slide in a section once the deck has one, with unique names", async () => {
+    const { slides, sections } = await render("# A\n>section: Part\n# B\n>section: Part\n# C\n", {});
+    expect(sections).toEqual(["Default Section", "Part", "Part (2)"]);
+    expect(slides.map(slide => slide.sectionTitle)).toEqual([
+      "Default Section",
+      "Part",
+      "Part",
+      "Part (2)",
+      "Part (2)"
+    ]);
+  });
+
+  it("adds no sections to a deck without >section:", async () => {
+    const { slides, sections } = await render("# A\n# B\n", {});
+    expect(sections).toEqual([]);
+    expect(slides.map(slide => slide.sectionTitle)).toEqual([undefined, undefined]);
+  });
+});
+
+describe("title and agenda slides", () => {
+  const rows = Array.from({ length: 40 }, (_, index) => `| ${index + 1} | row ${index + 1} |`);
+  const table = `| No | Name |\n|---|---|\n${rows.join("\n")}`;
+  const markdown = `# Long\n\n${table}\n\n>section: Part 1\n# B\n>section: Part 2\n`;
+
+  it("opens the deck with a title slide made from the metadata", async () => {
+    const { slides } = await render("# First\n", {
+      titleSlide: true,
+      meta: { title: "Deck", subject: "About it", author: "Me", company: "Co" }
+    });
+    expect(slides).toHaveLength(2);
+    expect(slides[0].texts).toEqual(["Deck", "About it", "Me / Co"]);
+
+    const { slides: untitled } = await render("# First\n", { titleSlide: true });
+    expect(untitled[0].texts).toEqual(["First"]);
+  });
+
+  it("lists the sections with links to their slide numbers after continuation slides", async () => {
+    const { slides } = await render(markdown, { titleSlide: true, agenda: "Contents", meta: { title: "Deck" } });
+    const numberOf = (title: string): number => slides.findIndex(slide => slide.texts[0] === title) + 1;
+    expect(slides[1].texts).toEqual(["Contents"]);
+    expect(numberOf("Long (cont.)")).toBe(4);
+    expect(agendaEntries(slides[1].tables[0])).toEqual([
+      ["Part 1", numberOf("Part 1"), String(numberOf("Part 1"))],
+      ["Part 2", numberOf("Part 2"), String(numberOf("Part 2"))]
+    ]);
+  });
+
+  it("lists every slide when the deck has no sections", async () => {
+    const { slides } = await render("# A\n# B\n", { agenda: "Agenda" });
+    expect(slides.map(slide => slide.texts[0])).toEqual(["Agenda", "A", "B"]);
+    expect(agendaEntries(slides[0].tables[0])).toEqual([
+      ["A", 2, "2"],
+      ["B", 3, "3"]
+    ]);
+  });
+});
@@ -0,0 +1,136 @@
+import type { ExpandedSource } from "./include";
+import { serializeSlides } from "./serialize";
+import { parseDocument } from "./txt2ppt";
+import { applyVariables } from "./variables";
+
+const DECK = `---
+title: Deck
+author: Me
+agenda: true
+---
+# Intro
+## Subtitle
+>class: centered
+>bg-color: #000 #fff 45deg
+>transition: fade slow
+
+Some **bold**, *italic*, ~~struck~~ and \`code\` with a [link](https://example.com).
+
+- one
+  - nested *item*
+- [x] done
+- [ ] open
+
+>note: Speaker note
+
+>section: Part A
+
+# Lists
+
+3. three
+4. four
+   continued line
+
+b. bee
+   1. nested number
+c. sea
+
+iv. four
+v. five
+
+B.  alone
+
+# Table
+
+| Name | Value |
+|:-----|------:|
+| a | 1 |
+| ^ | 2 |
+
+# Code
+
+\`\`\`ts {2}
+const a = 1;
+const b = "{{x}}";
+\`\`\`
+
+![alt](img.png#cover)
+`;
+
+/** Reads Markdown the way the CLI does, with `{{placeholders}}` filled in first. */
+function load(markdown: string): ReturnType<typeof parseDocument> {
+  const lines = markdown.split("\n").map((_, index) => ({ line: index + 1 }));
+  const source: ExpandedSource = { text: markdown, lines, files: [], diagnostics: [] };
+  return parseDocument(applyVariables(source, { name: "filled" }).text);
+}
+
+/** The slides without source positions, which move when the Markdown is rewritten. */
+function withoutPositions(value: unknown): unknown {
+  return JSON.parse(
+    JSON.stringify(value, (key, field) => (key === "position" || key === "backgroundPosition" ? undefined : field))
+  );
+}
+
+describe("serializeSlides", () => {
+  it("writes Markdown that parses back to the same slides and front matter", () => {
+    const parsed = parseDocument(DECK);
+    const reparsed = parseDocument(serializeSlides(parsed.slides, parsed.frontMatter));
+    expect(parsed.diagnostics).toEqual([]);
+    expect(reparsed.diagnostics).toEqual([]);
+    expect(reparsed.frontMatter).toEqual(parsed.frontMatter);
+    expect(withoutPositions(reparsed.slides)).toEqual(withoutPositions(parsed.slides));
+  });
+
+  it("escapes text that would otherwise read as Markdown syntax", () => {
+    const markdown = "# Escapes\n\nA. Lincoln said hi.\nI. e. this\n\n1\\. not a list\n\n\\# not a heading\n";
+    const parsed = parseDocument(markdown);
+    const serialized = serializeSlides(parsed.slides);
+    expect(withoutPositions(parseDocument(serialized).slides)).toEqual(withoutPositions(parsed.slides));
+  });
+
+  it("escapes {{ so that text which looked like a placeholder is not filled in on the next read", () => {
+    const markdown = [
+      "# \\{{name}}",
+      "",
+      "Hello \\{{name}} and `\\{{name}}`",
+      "",
+      "- \\{{ name }}",
+      "",
+      "| A |",
+      "|---|",
+      "| \\{{name}} |",
+      "",
+      "```",
+      "{{name}}",
+      "```",
+      "",
+      ">note: \\{{name}}",
+      ""
+    ].join("\n");
+    const parsed = load(markdown);
+    expect(parsed.slides[0].title).toBe("{{name}}");
+    const serialized = serializeSlides(parsed.slides);
+    expect(serialized).toContain("# \\{{name}}");
+    expect(serialized).toContain("```\n{{name}}\n```");
+    expect(withoutPositions(load(serialized).slides)).toEqual(withoutPositions(parsed.slides));
+  });
+
+  it("keeps multi-line notes apart from the >section: that follows them", () => {
+    const parsed = parseDocument("# A\n???\nTwo\nlines\n>section: Part 1\n");
+    const serialized = serializeSlides(parsed.slides);
+    expect(serialized).toBe("# A\n\n???\nTwo\nlines\n\n>section: Part 1\n");
+    expect(withoutPositions(parseDocument(serialized).slides)).toEqual(withoutPositions(parsed.slides));
+  });
+
+  it("writes notes as a comment when one of their lines would start a slide", () => {
+    const parsed = parseDocument("# A\n<!-- notes\nSay\n>section: aloud\n# and clear\n-->\n");
+    const serialized = serializeSlides(parsed.slides);
+    expect(serialized).toBe("# A\n\n<!-- notes\nSay\n>section: aloud\n# and clear\n-->\n");
+    expect(withoutPositions(parseDocument(serialized).slides)).toEqual(withoutPositions(parsed.slides));
+  });
+
+  it("writes the marker of each list item", () => {
+    const parsed = parseDocument("# Lists\n\n3. three\n4. four\n\nb. bee\nc. sea\n");
+    expect(serializeSlides(parsed.slides)).toBe("# Lists\n\n3. three\n4. four\n\nb.  bee\nc.  sea\n");
+  });
+});
@@ -0,0 +1,238 @@
+import YAML from "yaml";
+import { serializeChartBlock } from "./chart";
+import { serializeDiagram } from "./diagram";
+import { FrontMatter } from "./frontMatter";
+import { InlineRun, serializeInline } from "./inline";
+import { LIST_NUMBER_PATTERN, listMarker } from "./lists";
+import type { Block, BulletItem, ColumnAlign, ImageLength, SlideSpec, TableCell } from "./txt2ppt";
+import { escapePlaceholders } from "./variables";
+
+/** Line starts that the parser would take as something other than paragraph text. */
+const BLOCK_START_REGEX = /^(?:#|>|!\[|\||[-*]\s|-{3,}$|```|\?\?\?|:::|<!--)/;
+const NUMBERED_START_REGEX = new RegExp(`^(${LIST_NUMBER_PATTERN})\\.(\\s)`);
+const TASK_TEXT_REGEX = /^\[[ xX]](?:\s|$)/;
+/** Lines that end a `???` notes section, as they start the next slide. */
+const NOTES_END_REGEX = /^(?:#\s|>section:)/i;
+
+/** Writes slides as Markdown that `parseDocument` reads back as the same slides. */
+export function serializeSlides(specs: SlideSpec[], frontMatter: FrontMatter = {}): string {
+  const sections: string[] = [];
+  const entries = Object.entries(frontMatter).filter(([, value]) => value !== undefined && value !== "");
+  if (entries.length > 0) {
+    sections.push(`---\n${YAML.stringify(Object.fromEntries(entries), { lineWidth: 0 })}---`);
+  }
+  specs.forEach(spec => sections.push(serializeSlide(spec)));
+  return `${sections.join("\n\n")}\n`;
+}
+
+function serializeSlide(spec: SlideSpec): string {
+  const header = [spec.section ? `>section: ${singleLine(spec.section)}` : `# ${singleLine(spec.title)}`];
+  if (spec.subtitle) {
+    header.push(`## ${singleLine(spec.subtitle)}`);
+  }
+  if (spec.layout) {
+    header.push(`>layout: ${spec.layout}`);
+  }
+  if (spec.background) {
+    header.push(`>bg: ${spec.background}`);
+  }
+  header.push(...serializeDirectives(spec));
+
+  const parts = [header.join("\n"), ...spec.blocks.map(serializeBlock).filter(Boolean)];
+  // Notes go last because a `???` section runs until the next heading.
+  const notes = [
+    ...(spec.notes ? [{ part: undefined, text: spec.notes }] : []),
+    ...Object.entries(spec.partNotes ?? {}).map(([part, text]) => ({ part: Number(part), text }))
+  ];
+  notes.forEach((note, index) => {
+    parts.push(serializeNotes(escapePlaceholders(note.text), note.part, index === notes.length - 1));
+  });
+  return parts.join("\n\n");
+}
+
+function serializeDirectives(spec: SlideSpec): string[] {
+  const lines: string[] = [];
+  // `>section:` already makes its slide a divider.
+  const classes = spec.section ? spec.classes?.filter(name => name !== "divider") : spec.classes;
+  if (classes?.length) {
+    lines.push(`>class: ${classes.join(" ")}`);
+  }
+  if (spec.align?.vertical || spec.align?.horizontal) {
+    lines.push(`>align: ${[spec.align.vertical, spec.align.horizontal].filter(Boolean).join(" ")}`);
+  }
+  if (spec.backgroundFill) {
+    const angle = spec.backgroundFill.angle === undefined ? [] : [`${spec.backgroundFill.angle}deg`];
+    lines.push(`>bg-color: ${[...spec.backgroundFill.colors.map(color => `#${color}`), ...angle].join(" ")}`);
+  }
+  if (spec.color) {
+    lines.push(`>color: #${spec.color}`);
+  }
+  if (spec.hideTitle !== undefined) {
+    lines.push(`>title: ${spec.hideTitle ? "hidden" : "visible"}`);
+  }
+  if (spec.fontScale !== undefined) {
+    lines.push(`>font-scale: ${spec.fontScale}`);
+  }
+  if (spec.transition) {
+    lines.push(`>transition: ${[spec.transition.type, spec.transition.speed].filter(Boolean).join(" ")}`);
+  }
+  return lines;
+}
+
+function serializeBlock(block: Block): string {
+  switch (block.type) {
+    case "paragraph":
+      return inlineMarkdown(block.runs)
+        .split("\n")
+        .map(line => escapeLineStart(line.trim()))
+        .filter(Boolean)
+        .join("\n");
+    case "bullets":
+      return block.items.map(serializeItem).join("\n");
+    case "image":
+      return serializeImage(block);
+    case "code": {
+      const info = [block.language ?? ""];
+      if (block.highlight?.length) {
+        info.push(`{${toRanges(block.highlight)}}`);
+      }
+      if (block.lineNumbers !== undefined) {
+        info.push(block.lineNumbers === 1 ? "showLineNumbers" : `showLineNumbers{${block.lineNumbers}}`);
+      }
+      return fence(info.join(" ").trim(), block.text);
+    }
+    case "table":
+      return serializeTable(block.rows, block.header, block.align);
+    case "columns": {
+      const ratios = block.columns.map(column => column.ratio);
+      const lines = [ratios.every(ratio => ratio === 1) ? ":::columns" : `:::columns ${ratios.join(":")}`];
+      block.columns.forEach(column => {
+        lines.push(":::column", ...column.blocks.map(serializeBlock).filter(Boolean).map(text => `${text}\n`));
+      });
+      lines.push(":::");
+      return lines.join("\n");
+    }
+    case "keep":
+      return [":::keep", block.blocks.map(serializeBlock).filter(Boolean).join("\n\n"), ":::"].join("\n");
+    case "break":
+      return "---";
+    case "chart":
+      return fence("chart", serializeChartBlock(block.chart));
+    case "diagram":
+      return fence("diagram", serializeDiagram(block.diagram));
+    default:
+      return "";
+  }
+}
+
+function serializeImage(block: Extract<Block, { type: "image" }>): string {
+  const length = (value?: ImageLength): string => (value ? `${round(value.value)}${value.unit}` : "");
+  let target = block.path;
+  if (block.sizing) {
+    target += `#${block.sizing}`;
+  }
+  if (block.size?.width || block.size?.height) {
+    target += ` =${length(block.size.width)}${block.size.height ? `x${length(block.size.height)}` : ""}`;
+  }
+  return `![${singleLine(block.alt).replace(/]/g, ")")}](${target})`;
+}
+
+/** Letter and roman markers take two spaces, which makes them an item without a list around them. */
+function serializeItem(item: BulletItem): string {
+  const marker = item.bulletType === "number" ? listMarker(item.number ?? 1, item.numberStyle) : "-";
+  const task = item.checked === undefined ? "" : item.checked ? "[x] " : "[ ] ";
+  const indent = "  ".repeat(item.indentLevel);
+  const [first = "", ...rest] = inlineMarkdown(item.runs)
+    .split("\n")
+    .map(line => line.trim())
+    .filter(Boolean);
+  const text = !task && TASK_TEXT_REGEX.test(first) ? `\\${first}` : first;
+  const gap = /^[a-z]/i.test(marker) ? "  " : " ";
+  const continuation = " ".repeat(indent.length + marker.length + gap.length);
+  const lines = rest.map(line => continuation + escapeLineStart(line));
+  return [`${indent}${marker}${gap}${task}${text}`, ...lines].join("\n");
+}
+
+function serializeTable(rows: TableCell[][], header: boolean, align: Array<ColumnAlign | undefined>): string {
+  const lines = rows.map(row => `| ${row.map(serializeCell).join(" | ")} |`);
+  if (header && rows.length > 0) {
+    const separator = rows[0].map((_, column) => {
+      switch (align[column]) {
+        case "left":
+          return ":---";
+        case "center":
+          return ":---:";
+        case "right":
+          return "---:";
+        default:
+          return "---";
+      }
+    });
+    lines.splice(1, 0, `| ${separator.join(" | ")} |`);
+  }
+  return lines.join("\n");
+}
+
+/** Merged cells are written as `<` and `^`; a cell that only holds one of those is escaped. */
+function serializeCell(cell: TableCell): string {
+  if (cell.merge) {
+    return cell.merge === "left" ? "<" : "^";
+  }
+  const text = singleLine(serializeInline(cell.runs, "|"));
+  return text === "<" || text === "^" ? `\\${text}` : text;
+}
+
+/** Notes with a line that would start the next slide are written as a comment, which reads on past it. */
+function serializeNotes(text: string, part: number | undefined, last: boolean): string {
+  const lines = text.split("\n");
+  if (lines.length === 1) {
+    return part ? `>note[${part}]: ${text}` : `>note: ${text}`;
+  }
+  const suffix = part ? ` ${part}` : "";
+  if (lines.some(line => NOTES_END_REGEX.test(line.trim()))) {
+    return [`<!-- notes${suffix}`, ...lines, "-->"].join("\n");
+  }
+  if (!last) {
+    return [`<!-- notes${suffix} -->`, ...lines, "<!-- /notes -->"].join("\n");
+  }
+  return [`???${suffix}`, ...lines].join("\n");
+}
+
+function fence(info: string, body: string): string {
+  return `\`\`\`${info}\n${body}\n\`\`\``;
+}
+
+/** Escapes the first character of a paragraph line that would otherwise start another block. */
+function escapeLineStart(line: string): string {
+  if (NUMBERED_START_REGEX.test(line)) {
+    return line.replace(NUMBERED_START_REGEX, "$1\\.$2");
+  }
+  return BLOCK_START_REGEX.test(line) && !line.startsWith("\\") ? `\\${line}` : line;
+}
+
+/** `[1, 2, 3, 5]` becomes `1-3,5`. */
+function toRanges(lines: number[]): string {
+  const sorted = [...new Set(lines)].sort((a, b) => a - b);
+  const ranges: string[] = [];
+  let start = sorted[0];
+  sorted.forEach((line, index) => {
+    if (sorted[index + 1] !== line + 1) {
+      ranges.push(start === line ? String(start) : `${start}-${line}`);
+      start = sorted[index + 1];
+    }
+  });
+  return ranges.join(",");
+}
+
+function singleLine(text: string): string {
+  return escapePlaceholders(text.replace(/\s*\n\s*/g, " ").trim());
+}
+
+/** `serializeInline`, with `{{` escaped where the text would otherwise read as a variable. */
+function inlineMarkdown(runs: InlineRun[], escape?: string): string {
+  return escapePlaceholders(serializeInline(runs, escape));
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
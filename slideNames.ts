@@ -0,0 +1,18 @@
+import JSZip from "jszip";
+
+/** Names of the slides txt2ppt generates rather than reads from Markdown; pptx2txt leaves them out. */
+export const GENERATED_SLIDE_NAMES = { title: "txt2ppt title slide", agenda: "txt2ppt agenda" };
+
+/** PptxGenJS always names slides "Slide N"; slides without a name in `names` are left as they are. */
+export async function nameSlides(data: Buffer | Uint8Array, names: Array<string | undefined>): Promise<Buffer> {
+  const zip = await JSZip.loadAsync(data);
+  for (const [index, name] of names.entries()) {
+    const file = zip.file(`ppt/slides/slide${index + 1}.xml`);
+    if (!name || !file) {
+      continue;
+    }
+    const xml = await file.async("string");
+    zip.file(file.name, xml.replace(/<p:cSld(?: name="[^"]*")?>/, `<p:cSld name="${name}">`));
+  }
+  return zip.generateAsync({ type: "nodebuffer", compression: "DEFLATE" });
+}
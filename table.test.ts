@@ -0,0 +1,115 @@
+import PptxGenJS from "pptxgenjs";
+import { canSplitBefore, columnWidths, resolveSpans } from "./table";
+import { measureMinWidth } from "./textMetrics";
+import { DEFAULT_THEME, TableCell, parseDocument, parseSlides, renderSlides } from "./txt2ppt";
+
+function cells(...texts: string[]): TableCell[] {
+  return texts.map(text =>
+    text === "<" || text === "^" ? { text: "", runs: [], merge: text === "<" ? "left" : "up" } : { text, runs: [] }
+  );
+}
+
+interface RenderedTable {
+  rows: PptxGenJS.TableRow[];
+  options: PptxGenJS.TableProps;
+}
+
+async function renderTables(markdown: string): Promise<RenderedTable[]> {
+  const pptx = new PptxGenJS();
+  const addSlide = pptx.addSlide.bind(pptx);
+  const tables: RenderedTable[] = [];
+  jest.spyOn(pptx, "addSlide").mockImplementation(props => {
+    const slide = addSlide(props);
+    const addTable = slide.addTable.bind(slide);
+    jest.spyOn(slide, "addTable").mockImplementation((rows, options) => {
+      tables.push({ rows, options: options! });
+      return addTable(rows, options);
+    });
+    return slide;
+  });
+  await renderSlides(pptx, parseSlides(markdown), { layout: "LAYOUT_16x9", revision: "1" });
+  return tables;
+}
+
+describe("resolveSpans", () => {
+  it("merges < cells to the left and ^ cells upwards", () => {
+    const spans = resolveSpans([cells("a", "<", "b"), cells("^", "^", "c"), cells("d", "e", "^")]);
+    expect(spans).toEqual([
+      [{ colspan: 2, rowspan: 2 }, undefined, { colspan: 1, rowspan: 1 }],
+      [undefined, undefined, { colspan: 1, rowspan: 2 }],
+      [{ colspan: 1, rowspan: 1 }, { colspan: 1, rowspan: 1 }, undefined]
+    ]);
+  });
+
+  it("only splits a table where no vertical merge continues", () => {
+    expect(canSplitBefore(cells("a", "b"))).toBe(true);
+    expect(canSplitBefore(cells("^", "b"))).toBe(false);
+    expect(canSplitBefore(undefined)).toBe(true);
+  });
+});
+
+describe("columnWidths", () => {
+  const metrics = { fontSize: 14 };
+  const sum = (widths: number[]): number => widths.reduce((total, width) => total + width, 0);
+
+  it("shares the width out by the length of the cell text", () => {
+    const rows = [cells("No", "Description"), cells("1", "A much longer description of the row")];
+    const widths = columnWidths(rows, 8, metrics);
+    expect(sum(widths)).toBeCloseTo(8);
+    expect(widths[1]).toBeGreaterThan(widths[0] * 3);
+  });
+
+  it("gives every column its longest word before sharing out the rest", () => {
+    const long = "word ".repeat(60).trim();
+    const widths = columnWidths([cells("Internationalisation", long)], 6, metrics);
+    expect(sum(widths)).toBeCloseTo(6);
+    expect(widths[0]).toBeGreaterThan(measureMinWidth("Internationalisation", metrics));
+    expect(widths[0]).toBeLessThan(widths[1]);
+  });
+
+  it("leaves cells that span columns out of the measure", () => {
+    const widths = columnWidths([cells("A very long merged heading text", "<"), cells("a", "b")], 4, metrics);
+    expect(widths[0]).toBeCloseTo(widths[1]);
+  });
+});
+
+describe("table cells", () => {
+  it("parses merges and reports < and ^ with nothing to join", () => {
+    const { slides, diagnostics } = parseDocument(
+      "# T\n| < | A | < |\n|---|---|---|\n| ^ | b | ^ |\n| c | \\^ | ^ |\n"
+    );
+    const { rows } = slides[0].blocks[0] as { rows: TableCell[][] };
+    expect(rows.map(row => row.map(cell => cell.merge ?? cell.text))).toEqual([
+      ["<", "A", "left"],
+      ["^", "b", "^"],
+      ["c", "^", "up"]
+    ]);
+    expect(diagnostics.map(diagnostic => [diagnostic.code, diagnostic.line])).toEqual([
+      ["invalid-table-merge", 2],
+      ["invalid-table-merge", 4],
+      ["invalid-table-merge", 4]
+    ]);
+  });
+
+  it("fills the header and every other body row and passes the merges on", async () => {
+    const [table] = await renderTables(
+      "# T\n| Region | Sales | < |\n|---|---|---|\n| East | 1 | 2 |\n| ^ | 3 | 4 |\n| West | 5 | 6 |\n"
+    );
+    const { headerFill, headerColor, stripeFill } = DEFAULT_THEME.table;
+    expect(table.rows.map(row => row.length)).toEqual([2, 3, 2, 3]);
+    expect(table.rows[0][1].options).toMatchObject({ colspan: 2, fill: { color: headerFill } });
+    const [headerRun] = table.rows[0][0].text as PptxGenJS.TextProps[];
+    expect(headerRun.options).toMatchObject({ bold: true, color: headerColor });
+    expect(table.rows[1][0].options).toMatchObject({ rowspan: 2 });
+    expect(table.rows[1][1].options?.fill).toBeUndefined();
+    expect(table.rows[2][0].options?.fill).toEqual({ color: stripeFill });
+    expect(table.options.colW).toHaveLength(3);
+  });
+
+  it("keeps the column widths of the whole table on continuation slides", async () => {
+    const rows = Array.from({ length: 40 }, (_, index) => `| ${index + 1} | ${index < 10 ? "a longer text" : "x"} |`);
+    const tables = await renderTables(`# T\n| No | Text |\n|---|---|\n${rows.join("\n")}\n`);
+    expect(tables.length).toBeGreaterThan(1);
+    tables.forEach(table => expect(table.options.colW).toEqual(tables[0].options.colW));
+  });
+});
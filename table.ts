@@ -0,0 +1,75 @@
+import { TEXT_INSET_X, TextMetricsOptions, measureMinWidth, measureTextWidth } from "./textMetrics";
+import type { TableCell } from "./txt2ppt";
+
+/** Size of a cell that starts a merge, or of an ordinary cell (1 × 1). */
+export interface CellSpan {
+  colspan: number;
+  rowspan: number;
+}
+
+/** Narrowest column, so that empty columns stay visible. */
+const MIN_COLUMN_WIDTH = TEXT_INSET_X * 2 + 0.2;
+
+/** A cell absorbs the `<` cells right of it and the `^` cells below; covered cells are undefined. */
+export function resolveSpans(rows: TableCell[][]): Array<Array<CellSpan | undefined>> {
+  const spans: Array<Array<CellSpan | undefined>> = rows.map(row => row.map(() => ({ colspan: 1, rowspan: 1 })));
+  const covered = rows.map(row => row.map(() => false));
+  rows.forEach((row, rowIndex) => {
+    row.forEach((cell, columnIndex) => {
+      if (covered[rowIndex][columnIndex] || cell.merge) {
+        return;
+      }
+      let colspan = 1;
+      while (row[columnIndex + colspan]?.merge === "left" && !covered[rowIndex][columnIndex + colspan]) {
+        colspan += 1;
+      }
+      let rowspan = 1;
+      while (rows[rowIndex + rowspan]?.[columnIndex]?.merge === "up") {
+        rowspan += 1;
+      }
+      for (let r = rowIndex; r < rowIndex + rowspan; r += 1) {
+        for (let c = columnIndex; c < columnIndex + colspan; c += 1) {
+          covered[r][c] = true;
+          spans[r][c] = undefined;
+        }
+      }
+      spans[rowIndex][columnIndex] = { colspan, rowspan };
+    });
+  });
+  return spans;
+}
+
+/** Like automatic HTML table layout: each column gets at least its longest word, the rest goes by text length. */
+export function columnWidths(rows: TableCell[][], totalWidth: number, metrics: TextMetricsOptions): number[] {
+  const columnCount = Math.max(...rows.map(row => row.length), 1);
+  const spans = resolveSpans(rows);
+  const natural = Array<number>(columnCount).fill(MIN_COLUMN_WIDTH);
+  const minimum = Array<number>(columnCount).fill(MIN_COLUMN_WIDTH);
+  rows.forEach((row, rowIndex) =>
+    row.forEach((cell, columnIndex) => {
+      const span = spans[rowIndex][columnIndex];
+      if (!span || span.colspan > 1 || !cell.text) {
+        return;
+      }
+      const lines = cell.text.split("\n").map(line => measureTextWidth(line, metrics));
+      natural[columnIndex] = Math.max(natural[columnIndex], ...lines.map(width => width + TEXT_INSET_X * 2));
+      minimum[columnIndex] = Math.max(minimum[columnIndex], measureMinWidth(cell.text, metrics) + TEXT_INSET_X * 2);
+    })
+  );
+
+  const sum = (widths: number[]): number => widths.reduce((total, width) => total + width, 0);
+  if (sum(natural) <= totalWidth) {
+    return natural.map(width => (width * totalWidth) / sum(natural));
+  }
+  if (sum(minimum) >= totalWidth) {
+    return minimum.map(width => (width * totalWidth) / sum(minimum));
+  }
+  const extra = totalWidth - sum(minimum);
+  const flexible = natural.map((width, column) => width - minimum[column]);
+  return minimum.map((width, column) => width + (extra * flexible[column]) / sum(flexible));
+}
+
+/** Whether a table may be split before the row: not when the row continues a vertical merge. */
+export function canSplitBefore(row: TableCell[] | undefined): boolean {
+  return !row?.some(cell => cell.merge === "up");
+}
@@ -0,0 +1,63 @@
+import PptxGenJS from "pptxgenjs";
+import { parseSlides, renderSlides } from "./txt2ppt";
+
+interface RenderedSlide {
+  texts: string[];
+  tables: PptxGenJS.TableRow[][];
+}
+
+async function render(markdown: string): Promise<RenderedSlide[]> {
+  const pptx = new PptxGenJS();
+  const addSlide = pptx.addSlide.bind(pptx);
+  const slides: RenderedSlide[] = [];
+  jest.spyOn(pptx, "addSlide").mockImplementation(props => {
+    const slide = addSlide(props);
+    const rendered: RenderedSlide = { texts: [], tables: [] };
+    slides.push(rendered);
+    const addText = slide.addText.bind(slide);
+    const addTable = slide.addTable.bind(slide);
+    jest.spyOn(slide, "addText").mockImplementation((text, options) => {
+      rendered.texts.push(typeof text === "string" ? text : text.map(run => run.text).join(""));
+      return addText(text, options);
+    });
+    jest.spyOn(slide, "addTable").mockImplementation((rows, options) => {
+      rendered.tables.push(rows);
+      return addTable(rows, options);
+    });
+    return slide;
+  });
+  await renderSlides(pptx, parseSlides(markdown), { layout: "LAYOUT_16x9", revision: "1" });
+  return slides;
+}
+
+function cellText(cell: PptxGenJS.TableCell): string {
+  return typeof cell.text === "string" ? cell.text : (cell.text ?? []).map(run => run.text).join("");
+}
+
+describe("table pagination", () => {
+  const rows = Array.from({ length: 40 }, (_, index) => `| ${index + 1} | row ${index + 1} |`);
+  const markdown = `# Numbers\n\n| No | Name |\n|---|---|\n${rows.join("\n")}\n`;
+
+  it("continues a long table on (cont.) slides with the header row repeated", async () => {
+    const slides = await render(markdown);
+    expect(slides.length).toBeGreaterThan(1);
+    expect(slides[0].texts[0]).toBe("Numbers");
+    slides.slice(1).forEach(slide => expect(slide.texts[0]).toBe("Numbers (cont.)"));
+    slides.forEach(slide => {
+      expect(slide.tables).toHaveLength(1);
+      expect(slide.tables[0][0].map(cellText)).toEqual(["No", "Name"]);
+    });
+  });
+
+  it("puts every body row on exactly one slide, in order", async () => {
+    const slides = await render(markdown);
+    const bodyRows = slides.flatMap(slide => slide.tables[0].slice(1).map(row => cellText(row[0])));
+    expect(bodyRows).toEqual(rows.map((_, index) => String(index + 1)));
+  });
+
+  it("keeps a table that fits on one slide", async () => {
+    const slides = await render("# Small\n\n| A | B |\n|---|---|\n| 1 | 2 |\n");
+    expect(slides).toHaveLength(1);
+    expect(slides[0].tables[0]).toHaveLength(2);
+  });
+});
@@ -0,0 +1,123 @@
+import { spawnSync } from "child_process";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import JSZip from "jszip";
+import { loadTemplate } from "./template";
+
+const PNG = Buffer.from(
+  "iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mNkYAAAAAYAAjCB0C8AAAAASUVORK5CYII=",
+  "base64"
+);
+
+const THEME = `<a:theme xmlns:a="a"><a:themeElements>
+<a:clrScheme name="Brand">
+<a:dk1><a:sysClr val="windowText" lastClr="111111"/></a:dk1><a:lt1><a:srgbClr val="fafafa"/></a:lt1>
+<a:dk2><a:srgbClr val="222222"/></a:dk2><a:lt2><a:srgbClr val="EEEEEE"/></a:lt2>
+<a:accent1><a:srgbClr val="AA0000"/></a:accent1><a:accent2><a:srgbClr val="00AA00"/></a:accent2>
+<a:accent3><a:srgbClr val="0000AA"/></a:accent3><a:accent4><a:srgbClr val="AAAA00"/></a:accent4>
+<a:accent5><a:srgbClr val="00AAAA"/></a:accent5><a:accent6><a:srgbClr val="AA00AA"/></a:accent6>
+</a:clrScheme>
+<a:fontScheme name="Brand">
+<a:majorFont><a:latin typeface="Brand Sans"/><a:ea typeface=""/><a:font script="Jpan" typeface="Brand Gothic"/></a:majorFont>
+<a:minorFont><a:latin typeface="Brand Text"/><a:ea typeface="Brand Mincho"/></a:minorFont>
+</a:fontScheme>
+</a:themeElements></a:theme>`;
+
+const RELATIONSHIP_TYPE = "http://schemas.openxmlformats.org/officeDocument/2006/relationships";
+
+const rels = (entries: Array<[string, string, string]>): string =>
+  `<Relationships>${entries
+    .map(([id, type, target]) => `<Relationship Id="${id}" Type="${RELATIONSHIP_TYPE}/${type}" Target="${target}"/>`)
+    .join("")}</Relationships>`;
+
+async function writeTemplate(file: string): Promise<void> {
+  const zip = new JSZip();
+  zip.file("ppt/presentation.xml", '<p:presentation><p:sldSz cx="12192000" cy="6858000"/></p:presentation>');
+  zip.file(
+    "ppt/slideMasters/slideMaster1.xml",
+    `<p:sldMaster><p:cSld><p:bg><p:bgPr><a:solidFill><a:schemeClr val="bg2"/></a:solidFill></p:bgPr></p:bg>
+<p:spTree><p:pic><a:blip r:embed="rId3"/><a:off x="457200" y="914400"/><a:ext cx="914400" cy="457200"/></p:pic>
+</p:spTree></p:cSld></p:sldMaster>`
+  );
+  zip.file(
+    "ppt/slideMasters/_rels/slideMaster1.xml.rels",
+    rels([
+      ["rId1", "theme", "../theme/theme1.xml"],
+      ["rId2", "slideLayout", "../slideLayouts/slideLayout1.xml"],
+      ["rId3", "image", "../media/logo.png"]
+    ])
+  );
+  zip.file("ppt/theme/theme1.xml", THEME);
+  zip.file(
+    "ppt/slideLayouts/slideLayout1.xml",
+    '<p:sldLayout type="title"><p:cSld><p:bg><p:bgPr><a:solidFill><a:srgbClr val="123456"/></a:solidFill></p:bgPr></p:bg></p:cSld></p:sldLayout>'
+  );
+  zip.file("ppt/media/logo.png", PNG);
+  fs.writeFileSync(file, await zip.generateAsync({ type: "nodebuffer" }));
+}
+
+describe("loadTemplate", () => {
+  let dir: string;
+
+  beforeAll(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "txt2ppt-template-"));
+  });
+
+  afterAll(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+  it("reads the size, colours, fonts, backgrounds and logo", async () => {
+    const file = path.join(dir, "brand.pptx");
+    await writeTemplate(file);
+    const { size, theme } = await loadTemplate(file, "ja-JP");
+
+    expect(size).toEqual({ width: 12192000 / 914400, height: 7.5 });
+    expect(theme.palette).toEqual({
+      text: "111111",
+      accents: ["AA0000", "00AA00", "0000AA", "AAAA00", "00AAAA", "AA00AA"],
+      background: "EEEEEE"
+    });
+    expect(theme.title).toMatchObject({ color: "111111", fontFace: "Brand Gothic" });
+    expect(theme.body).toMatchObject({ color: "111111", fontFace: "Brand Mincho" });
+    expect(theme.subtitle).toMatchObject({ color: "222222" });
+    expect(theme.masterDefaults).toEqual({
+      logo: { path: `data:image/png;base64,${PNG.toString("base64")}`, x: 0.5, y: 1, w: 1, h: 0.5 }
+    });
+    expect(theme.masters).toEqual({ section: { background: "AA0000" }, title: { background: "123456" } });
+  });
+
+  it("uses the Latin theme fonts for other languages", async () => {
+    const file = path.join(dir, "brand-en.pptx");
+    await writeTemplate(file);
+    const { theme } = await loadTemplate(file, "en-US");
+    expect(theme.title?.fontFace).toBe("Brand Sans");
+    expect(theme.body?.fontFace).toBe("Brand Text");
+  });
+
+  it("reads a deck written by txt2ppt", async () => {
+    const inPath = path.join(dir, "deck.md");
+    const file = path.join(dir, "generated.pptx");
+    fs.writeFileSync(inPath, "# Hello\n");
+    const args = ["-T", "txt2ppt.ts", "--in", inPath, "--out", file, "--layout", "LAYOUT_4x3"];
+    const result = spawnSync(process.execPath, [require.resolve("ts-node/dist/bin"), ...args], {
+      cwd: __dirname,
+      encoding: "utf8"
+    });
+    expect(result.stderr).toBe("");
+    const { size, theme } = await loadTemplate(file, "en-US");
+    expect(size).toEqual({ width: 10, height: 7.5 });
+    expect(theme.palette?.accents).toHaveLength(6);
+  }, 60000);
+
+  it("rejects files that are not PowerPoint decks", async () => {
+    const notZip = path.join(dir, "plain.pptx");
+    fs.writeFileSync(notZip, "plain text");
+    await expect(loadTemplate(notZip, "en-US")).rejects.toThrow(`Failed to read template "${notZip}"`);
+
+    const zip = new JSZip();
+    zip.file("word/document.xml", "<w:document/>");
+    const docx = path.join(dir, "letter.docx");
+    fs.writeFileSync(docx, await zip.generateAsync({ type: "nodebuffer" }));
+    await expect(loadTemplate(docx, "en-US")).rejects.toThrow("is not a PowerPoint file");
+  });
+});
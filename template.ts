@@ -0,0 +1,215 @@
+import path from "path";
+import JSZip from "jszip";
+import { SlideSize } from "./masters";
+import {
+  EMU_PER_INCH,
+  Relationship,
+  comparePartNames,
+  decodeXml,
+  openPackage,
+  readPart,
+  readRelationships
+} from "./pptxPackage";
+import { MasterSpec, ThemeInput } from "./theme";
+
+/** Slide size, theme colours and fonts, and the backgrounds and logo of the master and its layouts. */
+export interface TemplateInfo {
+  size: SlideSize;
+  /** Overrides applied on top of the selected theme, so the template always wins. */
+  theme: ThemeInput;
+}
+
+type SchemeColors = Record<string, string>;
+
+const ACCENT_NAMES = ["accent1", "accent2", "accent3", "accent4", "accent5", "accent6"];
+const SCHEME_COLOR_NAMES = ["dk1", "lt1", "dk2", "lt2", ...ACCENT_NAMES];
+/** Aliases used by shapes and backgrounds for the scheme slots. */
+const SCHEME_COLOR_ALIASES: Record<string, string> = { tx1: "dk1", bg1: "lt1", tx2: "dk2", bg2: "lt2" };
+/** Script-specific theme fonts to fall back on when `<a:ea>` is empty. */
+const EAST_ASIAN_SCRIPTS: Record<string, string> = { ja: "Jpan", zh: "Hans", ko: "Hang" };
+/** Layout types whose own background or pictures become the corresponding master. */
+const LAYOUT_MASTERS: Record<string, string> = { title: "title", secHead: "section", obj: "content" };
+const IMAGE_TYPES: Record<string, string> = {
+  png: "image/png",
+  jpg: "image/jpeg",
+  jpeg: "image/jpeg",
+  gif: "image/gif",
+  svg: "image/svg+xml"
+};
+
+export async function loadTemplate(templatePath: string, lang: string): Promise<TemplateInfo> {
+  const zip = await openPackage(templatePath, "template");
+  const presentation = await zip.file("ppt/presentation.xml")?.async("string");
+  if (!presentation) {
+    throw new Error(`Template "${templatePath}" is not a PowerPoint file (ppt/presentation.xml is missing)`);
+  }
+
+  const masterPath = Object.keys(zip.files)
+    .filter(name => /^ppt\/slideMasters\/slideMaster\d+\.xml$/.test(name))
+    .sort(comparePartNames)[0];
+  if (!masterPath) {
+    throw new Error(`Template "${templatePath}" has no slide master`);
+  }
+  const masterXml = await readPart(zip, masterPath);
+  const masterRels = await readRelationships(zip, masterPath);
+  const themePath = [...masterRels.values()].find(rel => rel.type === "theme")?.target;
+  const themeXml = themePath ? await readPart(zip, themePath) : "";
+  const colors = readSchemeColors(themeXml);
+
+  const theme: ThemeInput = {};
+  const dk1 = colors.dk1;
+  if (dk1) {
+    theme.palette = { text: dk1 };
+    theme.title = { color: dk1 };
+    theme.body = { color: dk1 };
+    theme.bullet = { color: dk1 };
+    theme.table = { color: dk1 };
+  }
+  if (colors.dk2) {
+    theme.subtitle = { color: colors.dk2 };
+  }
+  const accents = ACCENT_NAMES.map(name => colors[name]);
+  if (accents.every(Boolean)) {
+    theme.palette = { ...theme.palette, accents };
+    theme.table = { ...theme.table, borderColor: accents[0], headerFill: accents[0] };
+    if (colors.lt1) {
+      theme.table.headerColor = colors.lt1;
+    }
+  }
+
+  const major = readThemeFont(themeXml, "majorFont", lang);
+  const minor = readThemeFont(themeXml, "minorFont", lang);
+  if (major) {
+    theme.title = { ...theme.title, fontFace: major };
+  }
+  if (minor) {
+    theme.subtitle = { ...theme.subtitle, fontFace: minor };
+    theme.body = { ...theme.body, fontFace: minor };
+    theme.bullet = { ...theme.bullet, fontFace: minor };
+    theme.table = { ...theme.table, fontFace: minor };
+  }
+
+  const masterDefaults = await readMasterSpec(zip, masterXml, masterRels, colors);
+  const background = masterDefaults.background ?? colors.lt1;
+  if (background) {
+    theme.palette = { ...theme.palette, background };
+  }
+  delete masterDefaults.background;
+  theme.masterDefaults = masterDefaults;
+
+  const masters: Record<string, MasterSpec> = {};
+  if (colors.accent1) {
+    masters.section = { background: colors.accent1 };
+  }
+  for (const { type, target } of masterRels.values()) {
+    if (type !== "slideLayout") {
+      continue;
+    }
+    const layoutXml = await readPart(zip, target);
+    const masterName = LAYOUT_MASTERS[layoutXml.match(/<p:sldLayout\b[^>]*\btype="(\w+)"/)?.[1] ?? ""];
+    if (!masterName) {
+      continue;
+    }
+    const spec = await readMasterSpec(zip, layoutXml, await readRelationships(zip, target), colors);
+    masters[masterName] = { ...masters[masterName], ...spec };
+  }
+  theme.masters = masters;
+
+  return { size: readSlideSize(presentation, templatePath), theme };
+}
+
+function readSlideSize(presentation: string, templatePath: string): SlideSize {
+  const match = presentation.match(/<p:sldSz\b[^>]*\bcx="(\d+)"[^>]*\bcy="(\d+)"/);
+  if (!match) {
+    throw new Error(`Template "${templatePath}" does not define a slide size`);
+  }
+  return { width: Number(match[1]) / EMU_PER_INCH, height: Number(match[2]) / EMU_PER_INCH };
+}
+
+function readSchemeColors(themeXml: string): SchemeColors {
+  const scheme = themeXml.match(/<a:clrScheme\b[\s\S]*?<\/a:clrScheme>/)?.[0] ?? "";
+  const colors: SchemeColors = {};
+  SCHEME_COLOR_NAMES.forEach(name => {
+    const slot = scheme.match(new RegExp(`<a:${name}>([\\s\\S]*?)</a:${name}>`))?.[1] ?? "";
+    const color =
+      slot.match(/<a:srgbClr\b[^>]*\bval="([0-9A-Fa-f]{6})"/)?.[1] ?? slot.match(/\blastClr="([0-9A-Fa-f]{6})"/)?.[1];
+    if (color) {
+      colors[name] = color.toUpperCase();
+    }
+  });
+  return colors;
+}
+
+/** For East Asian languages the `<a:ea>` typeface is preferred, as the Latin font usually lacks the glyphs. */
+function readThemeFont(themeXml: string, slot: "majorFont" | "minorFont", lang: string): string | undefined {
+  const fonts = themeXml.match(new RegExp(`<a:${slot}>([\\s\\S]*?)</a:${slot}>`))?.[1] ?? "";
+  const typeface = (tag: string): string | undefined =>
+    decodeXml(fonts.match(new RegExp(`<a:${tag}\\b[^>]*\\btypeface="([^"]*)"`))?.[1] ?? "") || undefined;
+  const latin = typeface("latin");
+  const script = EAST_ASIAN_SCRIPTS[lang.slice(0, 2).toLowerCase()];
+  if (!script) {
+    return latin;
+  }
+  const scriptFont = fonts.match(new RegExp(`<a:font\\b[^>]*\\bscript="${script}"[^>]*\\btypeface="([^"]*)"`))?.[1];
+  return typeface("ea") ?? (scriptFont ? decodeXml(scriptFont) : undefined) ?? latin;
+}
+
+/** The first picture is taken as the logo; images are embedded as data URIs. */
+async function readMasterSpec(
+  zip: JSZip,
+  xml: string,
+  rels: Map<string, Relationship>,
+  colors: SchemeColors
+): Promise<MasterSpec> {
+  const spec: MasterSpec = {};
+  const background = xml.match(/<p:bg>([\s\S]*?)<\/p:bg>/)?.[1];
+  if (background) {
+    const embed = background.match(/<a:blip\b[^>]*\br:embed="([^"]+)"/)?.[1];
+    const image = embed ? await readImage(zip, rels.get(embed)?.target) : undefined;
+    if (image) {
+      spec.backgroundImage = image;
+    } else {
+      const color = readColor(background, colors);
+      if (color) {
+        spec.background = color;
+      }
+    }
+  }
+
+  const picture = xml.match(/<p:pic>([\s\S]*?)<\/p:pic>/)?.[1];
+  const embed = picture?.match(/<a:blip\b[^>]*\br:embed="([^"]+)"/)?.[1];
+  const offset = picture?.match(/<a:off\b[^>]*\bx="(-?\d+)"[^>]*\by="(-?\d+)"/);
+  const extent = picture?.match(/<a:ext\b[^>]*\bcx="(\d+)"[^>]*\bcy="(\d+)"/);
+  const logo = embed ? await readImage(zip, rels.get(embed)?.target) : undefined;
+  if (logo && offset && extent) {
+    spec.logo = {
+      path: logo,
+      x: Number(offset[1]) / EMU_PER_INCH,
+      y: Number(offset[2]) / EMU_PER_INCH,
+      w: Number(extent[1]) / EMU_PER_INCH,
+      h: Number(extent[2]) / EMU_PER_INCH
+    };
+  }
+  return spec;
+}
+
+/** First explicit or scheme colour in a fill; gradients use their first stop. */
+function readColor(fill: string, colors: SchemeColors): string | undefined {
+  const match = fill.match(/<a:(srgbClr|schemeClr)\b[^>]*\bval="(\w+)"/);
+  if (!match) {
+    return undefined;
+  }
+  if (match[1] === "srgbClr") {
+    return match[2].toUpperCase();
+  }
+  return colors[SCHEME_COLOR_ALIASES[match[2]] ?? match[2]];
+}
+
+async function readImage(zip: JSZip, partPath: string | undefined): Promise<string | undefined> {
+  const type = IMAGE_TYPES[path.posix.extname(partPath ?? "").slice(1).toLowerCase()];
+  const file = partPath ? zip.file(partPath) : null;
+  if (!type || !file) {
+    return undefined;
+  }
+  return `data:${type};base64,${await file.async("base64")}`;
+}
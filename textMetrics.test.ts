@@ -0,0 +1,67 @@
+import {
+  TEXT_INSET_X,
+  TEXT_INSET_Y,
+  countWrappedLines,
+  lineHeightInches,
+  lineStartOffsets,
+  linesThatFit,
+  measureTextHeight,
+  measureTextWidth,
+  wrapLine
+} from "./textMetrics";
+
+// At 72pt an em is one inch, so widths below read directly in em.
+const LARGE = { fontSize: 72 };
+
+describe("text measurement", () => {
+  it("uses 1.2 times the font size as the default line pitch", () => {
+    expect(lineHeightInches({ fontSize: 20 })).toBeCloseTo(24 / 72);
+    expect(lineHeightInches({ fontSize: 20, lineSpacing: 36 })).toBeCloseTo(0.5);
+  });
+
+  it("gives full-width characters a whole em and Latin ones less", () => {
+    expect(measureTextWidth("日本", LARGE)).toBeCloseTo(2);
+    expect(measureTextWidth("ab", LARGE)).toBeLessThan(2);
+    expect(measureTextWidth("il", LARGE)).toBeLessThan(measureTextWidth("mw", LARGE));
+    expect(measureTextWidth("il", { ...LARGE, monospace: true })).toBeCloseTo(
+      measureTextWidth("mw", { ...LARGE, monospace: true })
+    );
+  });
+
+  it("wraps Latin text at spaces and keeps every character", () => {
+    const text = "alpha beta gamma delta epsilon";
+    const lines = wrapLine(text, 6, LARGE);
+    expect(lines.length).toBeGreaterThan(1);
+    expect(lines.join("")).toBe(text);
+    lines.forEach(line => expect(line.startsWith(" ")).toBe(false));
+    lines.forEach(line => expect(measureTextWidth(line.trimEnd(), LARGE)).toBeLessThanOrEqual(6));
+  });
+
+  it("wraps CJK text between characters without starting a line with closing punctuation", () => {
+    expect(wrapLine("日本語の文章", 3, LARGE)).toEqual(["日本語", "の文章"]);
+    const lines = wrapLine("日本、語です", 2, LARGE);
+    expect(lines.join("")).toBe("日本、語です");
+    lines.forEach(line => expect(line.startsWith("、")).toBe(false));
+    expect(lines).toContain("本、");
+  });
+
+  it("breaks a word longer than the line", () => {
+    const lines = wrapLine("abcdefghijklmnop", 2, LARGE);
+    expect(lines.length).toBeGreaterThan(1);
+    expect(lines.join("")).toBe("abcdefghijklmnop");
+  });
+
+  it("counts wrapped lines over explicit line breaks and finds where they start", () => {
+    const text = "日本語の文章\nです";
+    expect(countWrappedLines(text, 3, LARGE)).toBe(3);
+    expect(lineStartOffsets(text, 3, LARGE)).toEqual([0, 3, 7]);
+    expect(wrapLine("", 3, LARGE)).toEqual([""]);
+  });
+
+  it("converts between heights and line counts, including the text box insets", () => {
+    const options = { fontSize: 18, lineSpacing: 36 };
+    expect(measureTextHeight("日本語", 5 + TEXT_INSET_X * 2, options)).toBeCloseTo(0.5 + TEXT_INSET_Y * 2);
+    expect(linesThatFit(1.5 + TEXT_INSET_Y * 2, options)).toBe(3);
+    expect(linesThatFit(0, options)).toBe(0);
+  });
+});
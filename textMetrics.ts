@@ -0,0 +1,202 @@
+// Approximate text measurement from per-character widths in em, close enough to predict PowerPoint's wrapping.
+
+export interface TextMetricsOptions {
+  fontSize: number;
+  /** Line pitch in points; defaults to 1.2 × font size like PowerPoint's single spacing. */
+  lineSpacing?: number;
+  monospace?: boolean;
+}
+
+/** PowerPoint's default text box insets (0.1" left/right, 0.05" top/bottom). */
+export const TEXT_INSET_X = 0.1;
+export const TEXT_INSET_Y = 0.05;
+
+const POINTS_PER_INCH = 72;
+const DEFAULT_LINE_FACTOR = 1.2;
+const MONO_HALF_WIDTH = 0.55;
+
+const NARROW_CHARS = new Set("il.,:;'|!`ÌÍÎÏìíîï".split(""));
+const SLIM_CHARS = new Set("fjtrI()[]{}\"-/\\".split(""));
+const WIDE_CHARS = new Set("mwMW@%".split(""));
+/** Closing punctuation that must not start a line (kinsoku shori). */
+const NO_LINE_START = new Set("、。，．・：；？！）」』】〕〉》ー～ぁぃぅぇぉっゃゅょァィゥェォッャュョ,.;:!?)]}".split(""));
+
+export function lineHeightInches(options: TextMetricsOptions): number {
+  const pitch = options.lineSpacing ?? options.fontSize * DEFAULT_LINE_FACTOR;
+  return pitch / POINTS_PER_INCH;
+}
+
+export function isFullWidth(char: string): boolean {
+  const code = char.codePointAt(0) ?? 0;
+  return (
+    (code >= 0x1100 && code <= 0x115f) ||
+    (code >= 0x2e80 && code <= 0x303e) ||
+    (code >= 0x3041 && code <= 0x33ff) ||
+    (code >= 0x3400 && code <= 0x4dbf) ||
+    (code >= 0x4e00 && code <= 0x9fff) ||
+    (code >= 0xa000 && code <= 0xa4cf) ||
+    (code >= 0xac00 && code <= 0xd7a3) ||
+    (code >= 0xf900 && code <= 0xfaff) ||
+    (code >= 0xfe30 && code <= 0xfe4f) ||
+    (code >= 0xff00 && code <= 0xff60) ||
+    (code >= 0xffe0 && code <= 0xffe6) ||
+    (code >= 0x1f300 && code <= 0x1faff) ||
+    (code >= 0x20000 && code <= 0x3fffd)
+  );
+}
+
+export function charWidthEm(char: string, monospace = false): number {
+  if (isFullWidth(char)) {
+    return 1;
+  }
+  if (monospace) {
+    return MONO_HALF_WIDTH;
+  }
+  const code = char.codePointAt(0) ?? 0;
+  if (code >= 0xff61 && code <= 0xff9f) {
+    return 0.5;
+  }
+  if (char === " " || char === "\t") {
+    return 0.3;
+  }
+  if (NARROW_CHARS.has(char)) {
+    return 0.28;
+  }
+  if (SLIM_CHARS.has(char)) {
+    return 0.36;
+  }
+  if (WIDE_CHARS.has(char)) {
+    return 0.85;
+  }
+  if (/[A-Z]/.test(char)) {
+    return 0.66;
+  }
+  if (/[0-9]/.test(char)) {
+    return 0.56;
+  }
+  return 0.52;
+}
+
+export function measureTextWidth(text: string, options: TextMetricsOptions): number {
+  let em = 0;
+  for (const char of text) {
+    em += charWidthEm(char, options.monospace);
+  }
+  return (em * options.fontSize) / POINTS_PER_INCH;
+}
+
+/** The narrowest the text can wrap to without breaking a word. */
+export function measureMinWidth(text: string, options: TextMetricsOptions): number {
+  return Math.max(0, ...tokenize(text.replace(/\n/g, " ")).map(token => measureTextWidth(token.trimEnd(), options)));
+}
+
+/** Latin text breaks at spaces, CJK text between any two characters; the segments join back to the input. */
+export function wrapLine(text: string, width: number, options: TextMetricsOptions): string[] {
+  if (!text) {
+    return [""];
+  }
+  const available = Math.max(width, 0.01);
+  const segments: string[] = [];
+  let current = "";
+  let currentWidth = 0;
+
+  tokenize(text).forEach(token => {
+    const visible = token.trimEnd();
+    const tokenWidth = measureTextWidth(visible, options);
+    if (current && currentWidth + tokenWidth > available) {
+      segments.push(current);
+      current = "";
+      currentWidth = 0;
+    }
+    if (!current && tokenWidth > available) {
+      for (const char of token) {
+        const charWidth = measureTextWidth(char, options);
+        if (current && currentWidth + charWidth > available && char.trim()) {
+          segments.push(current);
+          current = "";
+          currentWidth = 0;
+        }
+        current += char;
+        currentWidth += charWidth;
+      }
+      return;
+    }
+    current += token;
+    currentWidth += measureTextWidth(token, options);
+  });
+
+  if (current || segments.length === 0) {
+    segments.push(current);
+  }
+  return segments;
+}
+
+export function lineStartOffsets(text: string, width: number, options: TextMetricsOptions): number[] {
+  const offsets: number[] = [];
+  let offset = 0;
+  text.split("\n").forEach(line => {
+    wrapLine(line, width, options).forEach(segment => {
+      offsets.push(offset);
+      offset += segment.length;
+    });
+    offset += 1;
+  });
+  return offsets;
+}
+
+export function countWrappedLines(text: string, width: number, options: TextMetricsOptions): number {
+  return text.split("\n").reduce((sum, line) => sum + wrapLine(line, width, options).length, 0);
+}
+
+/** Includes the default insets. */
+export function measureTextHeight(text: string, width: number, options: TextMetricsOptions): number {
+  const lines = countWrappedLines(text, width - TEXT_INSET_X * 2, options);
+  return lines * lineHeightInches(options) + TEXT_INSET_Y * 2;
+}
+
+export function linesThatFit(height: number, options: TextMetricsOptions): number {
+  return Math.max(Math.floor((height - TEXT_INSET_Y * 2) / lineHeightInches(options) + 1e-6), 0);
+}
+
+/** Closing punctuation sticks to the token before it. */
+function tokenize(text: string): string[] {
+  const tokens: string[] = [];
+  let word = "";
+
+  const pushWord = (): void => {
+    if (word) {
+      tokens.push(word);
+      word = "";
+    }
+  };
+
+  for (const char of text) {
+    if (NO_LINE_START.has(char)) {
+      if (word) {
+        word += char;
+      } else if (tokens.length > 0) {
+        tokens[tokens.length - 1] += char;
+      } else {
+        word = char;
+      }
+      continue;
+    }
+    if (isFullWidth(char)) {
+      pushWord();
+      word = char;
+      pushWord();
+      continue;
+    }
+    if (char === " " || char === "\t") {
+      word += char;
+      continue;
+    }
+    if (word.endsWith(" ") || word.endsWith("\t")) {
+      pushWord();
+    }
+    word += char;
+  }
+
+  pushWord();
+  return tokens;
+}
@@ -0,0 +1,83 @@
+import fs from "fs/promises";
+import os from "os";
+import path from "path";
+import {
+  BUILTIN_THEMES,
+  DEFAULT_THEME,
+  bulletGlyph,
+  loadTheme,
+  mergeTheme,
+  parseThemeSource,
+  themeFromInput
+} from "./theme";
+
+describe("parseThemeSource", () => {
+  it("reads YAML and JSON theme files", () => {
+    expect(parseThemeSource('extends: dark\ntitle:\n  fontSize: 28\n  color: "#112233"', "theme.yaml")).toEqual({
+      extends: "dark",
+      title: { fontSize: 28, color: "#112233" }
+    });
+    expect(parseThemeSource('{ "bullets": ["■"] }', "theme.json")).toEqual({ bullets: ["■"] });
+    expect(parseThemeSource("", "theme.yaml")).toEqual({});
+  });
+
+  it("rejects files that do not parse or are not a mapping", () => {
+    expect(() => parseThemeSource("title: [unclosed", "theme.yaml")).toThrow("Invalid theme file theme.yaml");
+    expect(() => parseThemeSource("- a", "theme.yaml")).toThrow("expected a mapping at the top level");
+  });
+
+  it.each([
+    ["title:\n  fontSize: big", '"title.fontSize" must be a number'],
+    ["body: 3", '"body" must be a mapping'],
+    ["palette:\n  accents: [red]", '"palette.accents" must be a list of colours such as "#1F6FB2"'],
+    ['bullets: "-"', '"bullets" must be a list of strings'],
+    ["masters:\n  section:\n    titlePosition: bottom", '"masters.section.titlePosition" must be "top" or "middle"'],
+    ["masterDefaults:\n  logo:\n    path: 3", '"masterDefaults.logo.path" must be a string'],
+    ["spacing:\n  marginX: wide", '"spacing.marginX" must be a number']
+  ])("rejects %j", (yaml, problem) => {
+    expect(() => parseThemeSource(yaml, "theme.yaml")).toThrow(`Invalid theme file theme.yaml: ${problem}`);
+  });
+});
+
+describe("loadTheme", () => {
+  it("returns the built-in themes by name", async () => {
+    expect(await loadTheme("dark")).toBe(BUILTIN_THEMES.dark);
+    await expect(loadTheme("missing")).rejects.toThrow('Unknown theme "missing"');
+  });
+
+  it("merges a theme file over the theme it extends", async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), "txt2ppt-theme-"));
+    await fs.writeFile(path.join(dir, "brand.yaml"), 'extends: dark\nbody:\n  fontSize: 18\n  color: "#abcdef"\n');
+    const theme = await loadTheme("brand.yaml", dir);
+    expect(theme.name).toBe("brand");
+    expect(theme.body).toEqual({ ...BUILTIN_THEMES.dark.body, fontSize: 18, color: "ABCDEF" });
+    expect(theme.title).toEqual(BUILTIN_THEMES.dark.title);
+  });
+});
+
+describe("mergeTheme", () => {
+  it("normalizes colours and keeps the defaults it does not override", () => {
+    const theme = mergeTheme(DEFAULT_THEME, { title: { color: "#ff0000" }, palette: { accents: ["#00ff00"] } });
+    expect(theme.title).toEqual({ ...DEFAULT_THEME.title, color: "FF0000" });
+    expect(theme.palette.accents).toEqual(["00FF00"]);
+    expect(DEFAULT_THEME.title.color).toBe("000000");
+  });
+
+  it("repeats the last bullet glyph for deeper levels", () => {
+    const theme = mergeTheme(DEFAULT_THEME, { bullets: ["a", "b"] });
+    expect([0, 1, 5].map(level => bulletGlyph(theme, level))).toEqual(["a", "b", "b"]);
+  });
+});
+
+describe("themeFromInput", () => {
+  it("merges the input over the default theme", async () => {
+    const theme = await themeFromInput({ title: { color: "#112233" } });
+    expect(theme.title).toEqual({ ...DEFAULT_THEME.title, color: "112233" });
+  });
+
+  it("rejects fields of the wrong type", async () => {
+    await expect(themeFromInput({ code: { fill: true } } as never)).rejects.toThrow(
+      'Invalid theme: "code.fill" must be a colour such as "#1F6FB2"'
+    );
+  });
+});
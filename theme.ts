@@ -0,0 +1,446 @@
+import fs from "fs/promises";
+import path from "path";
+import YAML from "yaml";
+
+export interface TextStyle {
+  fontFace: string;
+  fontSize: number;
+  color: string;
+  bold?: boolean;
+  italic?: boolean;
+  lineSpacing?: number;
+}
+
+export interface MasterSpec {
+  /** Solid background colour; the palette background is used when omitted. */
+  background?: string;
+  /** Image path, or a data URI for images taken from a template deck. */
+  backgroundImage?: string;
+  logo?: { path: string; x?: number; y?: number; w?: number; h?: number };
+  footer?: string;
+  /** Confidentiality label shown at the bottom centre, e.g. "Confidential". */
+  label?: string;
+  /** `true` prints the build date; a string is printed as-is. */
+  date?: boolean | string;
+  slideNumber?: boolean;
+  titlePosition?: "top" | "middle";
+  titleColor?: string;
+}
+
+/** Colours of syntax-highlighted code tokens, plus the line number and highlighted-line backgrounds. */
+export interface SyntaxPalette {
+  keyword: string;
+  string: string;
+  number: string;
+  comment: string;
+  function: string;
+  type: string;
+  property: string;
+  lineNumber: string;
+  highlight: string;
+}
+
+export interface Theme {
+  name: string;
+  title: TextStyle;
+  subtitle: TextStyle;
+  body: TextStyle;
+  bullet: TextStyle;
+  code: TextStyle & { fill: string };
+  table: TextStyle & {
+    borderColor: string;
+    /** Border line width in points; 0 for no borders. */
+    borderWidth: number;
+    headerFill: string;
+    headerColor: string;
+    /** Fill of every second body row. */
+    stripeFill: string;
+  };
+  syntax: SyntaxPalette;
+  palette: {
+    text: string;
+    background?: string;
+    accents: string[];
+  };
+  /** Bullet glyph per indent level; the last entry repeats for deeper levels. */
+  bullets: string[];
+  /** Shared settings applied under every master, e.g. a deck-wide footer or logo. */
+  masterDefaults: MasterSpec;
+  masters: Record<string, MasterSpec>;
+  spacing: {
+    marginX: number;
+    marginBottom: number;
+    titleY: number;
+    titleHeight: number;
+    subtitleY: number;
+    subtitleHeight: number;
+    bodyTop: number;
+    blockGap: number;
+    columnGap: number;
+    minBlockHeight: number;
+  };
+}
+
+type DeepPartial<T> = {
+  [K in keyof T]?: T[K] extends Array<infer U> ? U[] : T[K] extends object ? DeepPartial<T[K]> : T[K];
+};
+
+export type ThemeInput = DeepPartial<Theme> & { extends?: string };
+
+/** A field of a theme file and the values it takes, or a mapping of such fields (or of any keys). */
+type ThemeSchema =
+  | { expected: string; test: (value: unknown) => boolean }
+  | { fields: Record<string, ThemeSchema> }
+  | { entries: ThemeSchema };
+
+const DEFAULT_FONT = "BIZ UDPGothic";
+const CODE_FONT = "Consolas";
+const THEME_COLOR_REGEX = /^#?[0-9a-f]{6}$/i;
+
+export const DEFAULT_THEME: Theme = {
+  name: "default",
+  title: { fontFace: DEFAULT_FONT, fontSize: 30, color: "000000", bold: true },
+  subtitle: { fontFace: DEFAULT_FONT, fontSize: 20, color: "555555" },
+  body: { fontFace: DEFAULT_FONT, fontSize: 20, color: "000000", lineSpacing: 28 },
+  bullet: { fontFace: DEFAULT_FONT, fontSize: 20, color: "000000", lineSpacing: 24 },
+  code: { fontFace: CODE_FONT, fontSize: 16, color: "202020", lineSpacing: 20, fill: "F2F2F2" },
+  table: {
+    fontFace: DEFAULT_FONT,
+    fontSize: 14,
+    color: "000000",
+    borderColor: "BFBFBF",
+    borderWidth: 1,
+    headerFill: "1F6FB2",
+    headerColor: "FFFFFF",
+    stripeFill: "F2F2F2"
+  },
+  syntax: {
+    keyword: "0000FF",
+    string: "A31515",
+    number: "098658",
+    comment: "008000",
+    function: "795E26",
+    type: "267F99",
+    property: "001080",
+    lineNumber: "8C8C8C",
+    highlight: "FFF2B3"
+  },
+  palette: {
+    text: "000000",
+    accents: ["1F6FB2", "E07B39", "3A9D5D", "C0392B", "8E44AD", "F1C40F"]
+  },
+  bullets: ["•", "–", "◦", "▪"],
+  masterDefaults: {},
+  masters: {
+    title: { titlePosition: "middle" },
+    section: { titlePosition: "middle", background: "1F6FB2", titleColor: "FFFFFF", slideNumber: true },
+    content: { slideNumber: true }
+  },
+  spacing: {
+    marginX: 0.6,
+    marginBottom: 0.7,
+    titleY: 0.4,
+    titleHeight: 0.8,
+    subtitleY: 1.0,
+    subtitleHeight: 0.6,
+    bodyTop: 1.6,
+    blockGap: 0.2,
+    columnGap: 0.3,
+    minBlockHeight: 0.6
+  }
+};
+
+export const BUILTIN_THEMES: Record<string, Theme> = {
+  default: DEFAULT_THEME,
+  dark: mergeTheme(DEFAULT_THEME, {
+    name: "dark",
+    title: { color: "FFFFFF" },
+    subtitle: { color: "B0B0B0" },
+    body: { color: "EDEDED" },
+    bullet: { color: "EDEDED" },
+    code: { color: "E6E6E6", fill: "2B2B2B" },
+    table: { color: "EDEDED", borderColor: "5A5A5A", headerFill: "2D4F6C", stripeFill: "2A2A2A" },
+    syntax: {
+      keyword: "569CD6",
+      string: "CE9178",
+      number: "B5CEA8",
+      comment: "6A9955",
+      function: "DCDCAA",
+      type: "4EC9B0",
+      property: "9CDCFE",
+      lineNumber: "858585",
+      highlight: "44475A"
+    },
+    palette: {
+      text: "EDEDED",
+      background: "1E1E1E",
+      accents: ["4FA3E0", "F0A35E", "6CC58A", "E5675A", "B07CD8", "F5D76E"]
+    },
+    masters: {
+      section: { background: "2D4F6C" }
+    }
+  }),
+  corporate: mergeTheme(DEFAULT_THEME, {
+    name: "corporate",
+    title: { fontFace: "Meiryo UI", color: "1F3864" },
+    subtitle: { fontFace: "Meiryo UI", color: "4472C4" },
+    body: { fontFace: "Meiryo UI", fontSize: 18 },
+    bullet: { fontFace: "Meiryo UI", fontSize: 18 },
+    table: { fontFace: "Meiryo UI", borderColor: "8EA9DB", headerFill: "4472C4", stripeFill: "D9E1F2" },
+    palette: {
+      accents: ["4472C4", "ED7D31", "A5A5A5", "FFC000", "5B9BD5", "70AD47"]
+    },
+    bullets: ["■", "□", "▪"],
+    masters: {
+      section: { background: "1F3864" }
+    }
+  })
+};
+
+const STRING: ThemeSchema = { expected: "a string", test: value => typeof value === "string" };
+const NUMBER: ThemeSchema = { expected: "a number", test: Number.isFinite };
+const BOOLEAN: ThemeSchema = { expected: "true or false", test: value => typeof value === "boolean" };
+const COLOR: ThemeSchema = { expected: 'a colour such as "#1F6FB2"', test: isThemeColor };
+const TEXT_STYLE_FIELDS: Record<keyof TextStyle, ThemeSchema> = {
+  fontFace: STRING,
+  fontSize: NUMBER,
+  color: COLOR,
+  bold: BOOLEAN,
+  italic: BOOLEAN,
+  lineSpacing: NUMBER
+};
+const MASTER_SCHEMA: ThemeSchema = {
+  fields: {
+    background: COLOR,
+    backgroundImage: STRING,
+    logo: { fields: { path: STRING, x: NUMBER, y: NUMBER, w: NUMBER, h: NUMBER } },
+    footer: STRING,
+    label: STRING,
+    date: {
+      expected: "true, false or a string",
+      test: value => typeof value === "boolean" || typeof value === "string"
+    },
+    slideNumber: BOOLEAN,
+    titlePosition: { expected: '"top" or "middle"', test: value => value === "top" || value === "middle" },
+    titleColor: COLOR
+  }
+};
+/** The fields of a theme file and what each holds; fields it does not know are ignored. */
+const THEME_SCHEMA: ThemeSchema = {
+  fields: {
+    extends: STRING,
+    name: STRING,
+    title: { fields: TEXT_STYLE_FIELDS },
+    subtitle: { fields: TEXT_STYLE_FIELDS },
+    body: { fields: TEXT_STYLE_FIELDS },
+    bullet: { fields: TEXT_STYLE_FIELDS },
+    code: { fields: { ...TEXT_STYLE_FIELDS, fill: COLOR } },
+    table: {
+      fields: {
+        ...TEXT_STYLE_FIELDS,
+        borderColor: COLOR,
+        borderWidth: NUMBER,
+        headerFill: COLOR,
+        headerColor: COLOR,
+        stripeFill: COLOR
+      }
+    },
+    syntax: { fields: Object.fromEntries(Object.keys(DEFAULT_THEME.syntax).map(key => [key, COLOR])) },
+    palette: {
+      fields: {
+        text: COLOR,
+        background: COLOR,
+        accents: {
+          expected: 'a list of colours such as "#1F6FB2"',
+          test: value => Array.isArray(value) && value.every(isThemeColor)
+        }
+      }
+    },
+    bullets: {
+      expected: "a list of strings",
+      test: value => Array.isArray(value) && value.every(bullet => typeof bullet === "string")
+    },
+    masterDefaults: MASTER_SCHEMA,
+    masters: { entries: MASTER_SCHEMA },
+    spacing: { fields: Object.fromEntries(Object.keys(DEFAULT_THEME.spacing).map(key => [key, NUMBER])) }
+  }
+};
+
+/** Theme files may `extends` another theme; every file read along the chain is added to `files`. */
+export async function loadTheme(nameOrPath: string, baseDir = process.cwd(), files?: Set<string>): Promise<Theme> {
+  return resolveTheme(nameOrPath, baseDir, new Set(), files);
+}
+
+async function resolveTheme(
+  nameOrPath: string,
+  baseDir: string,
+  visited: Set<string>,
+  files?: Set<string>
+): Promise<Theme> {
+  const builtin = BUILTIN_THEMES[nameOrPath];
+  if (builtin) {
+    return builtin;
+  }
+
+  const themePath = path.resolve(baseDir, nameOrPath);
+  if (visited.has(themePath)) {
+    throw new Error(`Theme extends cycle detected at ${themePath}`);
+  }
+  visited.add(themePath);
+  files?.add(themePath);
+
+  let raw: string;
+  try {
+    raw = await fs.readFile(themePath, "utf8");
+  } catch (error) {
+    if (!path.extname(nameOrPath)) {
+      const names = Object.keys(BUILTIN_THEMES).join(", ");
+      throw new Error(`Unknown theme "${nameOrPath}" (built-in themes: ${names})`);
+    }
+    throw new Error(`Failed to read theme "${nameOrPath}": ${(error as Error).message}`);
+  }
+
+  const { extends: parent, ...overrides } = parseThemeSource(raw, themePath);
+  resolveMasterAssets(overrides, path.dirname(themePath));
+  const base = parent ? await resolveTheme(parent, path.dirname(themePath), visited, files) : DEFAULT_THEME;
+  return mergeTheme(base, {
+    name: path.basename(themePath, path.extname(themePath)),
+    ...overrides
+  });
+}
+
+/** Master image paths and `extends` are resolved against `baseDir`. */
+export async function themeFromInput(input: ThemeInput, baseDir = process.cwd(), files?: Set<string>): Promise<Theme> {
+  const problem = isPlainObject(input) ? themeProblem(input, THEME_SCHEMA) : "expected an object";
+  if (problem) {
+    throw new Error(`Invalid theme: ${problem}`);
+  }
+  const { extends: parent, ...overrides } = structuredClone(input);
+  resolveMasterAssets(overrides, baseDir);
+  const base = parent ? await loadTheme(parent, baseDir, files) : DEFAULT_THEME;
+  return mergeTheme(base, overrides);
+}
+
+export function parseThemeSource(raw: string, sourceName: string): ThemeInput {
+  let parsed: unknown;
+  try {
+    parsed = /\.json$/i.test(sourceName) ? JSON.parse(raw) : YAML.parse(raw);
+  } catch (error) {
+    throw new Error(`Invalid theme file ${sourceName}: ${(error as Error).message}`);
+  }
+  if (parsed === null || parsed === undefined) {
+    return {};
+  }
+  if (typeof parsed !== "object" || Array.isArray(parsed)) {
+    throw new Error(`Invalid theme file ${sourceName}: expected a mapping at the top level`);
+  }
+  const problem = themeProblem(parsed, THEME_SCHEMA);
+  if (problem) {
+    throw new Error(`Invalid theme file ${sourceName}: ${problem}`);
+  }
+  return parsed as ThemeInput;
+}
+
+/** The first field that does not hold what it should, as `"title.fontSize" must be a number`. */
+function themeProblem(value: unknown, schema: ThemeSchema, field = ""): string | undefined {
+  if ("test" in schema) {
+    return schema.test(value) ? undefined : `"${field}" must be ${schema.expected}`;
+  }
+  if (!isPlainObject(value)) {
+    return `"${field}" must be a mapping`;
+  }
+  for (const [key, child] of Object.entries(value)) {
+    const childSchema = "fields" in schema ? schema.fields[key] : schema.entries;
+    const problem =
+      childSchema && child !== undefined && themeProblem(child, childSchema, field ? `${field}.${key}` : key);
+    if (problem) {
+      return problem;
+    }
+  }
+  return undefined;
+}
+
+function isThemeColor(value: unknown): boolean {
+  return (typeof value === "string" || typeof value === "number") && THEME_COLOR_REGEX.test(String(value));
+}
+
+/** Logo and background paths in a theme file are relative to that file. */
+function resolveMasterAssets(input: ThemeInput, themeDir: string): void {
+  const specs = [input.masterDefaults, ...Object.values(input.masters ?? {})];
+  specs.forEach(spec => {
+    if (!spec) {
+      return;
+    }
+    if (spec.backgroundImage) {
+      spec.backgroundImage = path.resolve(themeDir, spec.backgroundImage);
+    }
+    if (spec.logo?.path) {
+      spec.logo.path = path.resolve(themeDir, spec.logo.path);
+    }
+  });
+}
+
+export function mergeTheme(base: Theme, overrides: ThemeInput): Theme {
+  const merged = deepMerge(base, overrides) as Theme;
+  const styles: TextStyle[] = [merged.title, merged.subtitle, merged.body, merged.bullet, merged.code, merged.table];
+  styles.forEach(style => {
+    style.color = normalizeColor(style.color);
+  });
+  merged.code.fill = normalizeColor(merged.code.fill);
+  merged.table.borderColor = normalizeColor(merged.table.borderColor);
+  merged.table.headerFill = normalizeColor(merged.table.headerFill);
+  merged.table.headerColor = normalizeColor(merged.table.headerColor);
+  merged.table.stripeFill = normalizeColor(merged.table.stripeFill);
+  (Object.keys(merged.syntax) as Array<keyof SyntaxPalette>).forEach(key => {
+    merged.syntax[key] = normalizeColor(merged.syntax[key]);
+  });
+  merged.palette.text = normalizeColor(merged.palette.text);
+  if (merged.palette.background) {
+    merged.palette.background = normalizeColor(merged.palette.background);
+  }
+  merged.palette.accents = merged.palette.accents.map(normalizeColor);
+  [merged.masterDefaults, ...Object.values(merged.masters)].forEach(master => {
+    if (master.background) {
+      master.background = normalizeColor(master.background);
+    }
+    if (master.titleColor) {
+      master.titleColor = normalizeColor(master.titleColor);
+    }
+  });
+  if (merged.bullets.length === 0) {
+    merged.bullets = [...DEFAULT_THEME.bullets];
+  }
+  return merged;
+}
+
+/** Accepts `#RRGGBB` as well as `RRGGBB`. */
+export function normalizeColor(color: string): string {
+  return String(color).replace(/^#/, "").toUpperCase();
+}
+
+export function bulletGlyph(theme: Theme, indentLevel: number): string {
+  return theme.bullets[Math.min(indentLevel, theme.bullets.length - 1)];
+}
+
+function deepMerge(base: unknown, overrides: unknown): unknown {
+  if (isPlainObject(base) && isPlainObject(overrides)) {
+    const result: Record<string, unknown> = {};
+    const keys = new Set([...Object.keys(base), ...Object.keys(overrides)]);
+    keys.forEach(key => {
+      result[key] = deepMerge(base[key], overrides[key]);
+    });
+    return result;
+  }
+  const value = overrides === undefined ? base : overrides;
+  if (Array.isArray(value)) {
+    return [...value];
+  }
+  if (isPlainObject(value)) {
+    return deepMerge(value, {});
+  }
+  return value;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,25 @@
+import JSZip from "jszip";
+import type { SlideTransition } from "./directives";
+
+const SPEEDS: Record<NonNullable<SlideTransition["speed"]>, string> = { slow: "slow", medium: "med", fast: "fast" };
+
+/** PptxGenJS has no API for slide transitions; slides without one, or with `none`, are left as they are. */
+export async function addTransitions(
+  data: Buffer | Uint8Array,
+  transitions: Array<SlideTransition | undefined>
+): Promise<Buffer> {
+  const zip = await JSZip.loadAsync(data);
+  for (const [index, transition] of transitions.entries()) {
+    const file = zip.file(`ppt/slides/slide${index + 1}.xml`);
+    if (!transition || transition.type === "none" || !file) {
+      continue;
+    }
+    const xml = await file.async("string");
+    const speed = transition.speed ? ` spd="${SPEEDS[transition.speed]}"` : "";
+    const element = `<p:transition${speed}><p:${transition.type}/></p:transition>`;
+    // The transition follows the colour mapping override, or the slide tree when there is none.
+    const anchor = xml.includes("</p:clrMapOvr>") ? "</p:clrMapOvr>" : "</p:cSld>";
+    zip.file(file.name, xml.replace(anchor, `${anchor}${element}`));
+  }
+  return zip.generateAsync({ type: "nodebuffer", compression: "DEFLATE" });
+}
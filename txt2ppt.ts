@@ -2,6 +2,120 @@
 import path from "path";
 import process from "process";
 import PptxGenJS from "pptxgenjs";
+import {
+  InlineRun,
+  InlineStyleOptions,
+  parseInline,
+  runsToPlainText,
+  sliceRuns,
+  toSoftBreaks,
+  toTextProps
+} from "./inline";
+import { ChartSpec, ChartTable, parseChartBlock, parseChartData, toChartData, toChartOptions } from "./chart";
+import { DiagramSpec, drawDiagram, layoutDiagram, naturalDiagramHeight, parseDiagram } from "./diagram";
+import {
+  BackgroundFill,
+  DIRECTIVE_REGEX,
+  SlideAlign,
+  SlideTransition,
+  parseDirective,
+  resolveSlideStyle,
+  styleTheme
+} from "./directives";
+import {
+  Diagnostic,
+  DiagnosticCode,
+  DiagnosticSeverity,
+  createReport,
+  formatDiagnostic,
+  formatReport
+} from "./diagnostics";
+import { MissingAssetError, Txt2PptError } from "./errors";
+import { FrontMatter, extractFrontMatter } from "./frontMatter";
+import {
+  ImageDimensions,
+  PIXELS_PER_INCH,
+  detectImageType,
+  parseImageDimensions,
+  readImageDimensions
+} from "./images";
+import { backgroundFillProps } from "./gradient";
+import { CodeToken, highlightCode } from "./highlight";
+import {
+  SourceFile,
+  expandSources,
+  inputWatchPaths,
+  readSourceFile,
+  relocateDocument,
+  resolveInputs
+} from "./include";
+import { renderHtml } from "./html";
+import { NotesMode, assignNotes, parseNotesMode } from "./notes";
+import {
+  DEFAULT_PAGINATION,
+  OVERFLOW_MODES,
+  OverflowMode,
+  PaginationRules,
+  listSplitTests,
+  splitPoint
+} from "./pagination";
+import { watchBuild } from "./watch";
+import { DEFAULT_MASTER, SlideSize, imageSource, registerMasters, resolveMaster } from "./masters";
+import { DeckLayout, createDeckLayout, recordPresentation } from "./recorder";
+import {
+  AUTO_NUMBER_TYPES,
+  LIST_NUMBER_PATTERN,
+  MAX_LIST_LEVEL,
+  MarkerKind,
+  NumberStyle,
+  TASK_BOXES,
+  followsMarker,
+  markerKind,
+  numberItems
+} from "./lists";
+import {
+  TEXT_INSET_X,
+  TEXT_INSET_Y,
+  TextMetricsOptions,
+  countWrappedLines,
+  lineHeightInches,
+  lineStartOffsets,
+  linesThatFit,
+  measureTextHeight,
+  wrapLine
+} from "./textMetrics";
+import { CellSpan, canSplitBefore, columnWidths, resolveSpans } from "./table";
+import { TemplateInfo, loadTemplate } from "./template";
+import { GENERATED_SLIDE_NAMES, nameSlides } from "./slideNames";
+import { addTransitions } from "./transitions";
+import { Variables, applyVariables, deckVariables, parseDataFile, parseVariableAssignment } from "./variables";
+import {
+  DEFAULT_THEME,
+  MasterSpec,
+  TextStyle,
+  Theme,
+  ThemeInput,
+  bulletGlyph,
+  loadTheme,
+  mergeTheme,
+  themeFromInput
+} from "./theme";
+
+export type { ChartKind, ChartSpec, ChartTable } from "./chart";
+export type { DiagramSpec } from "./diagram";
+export type { BackgroundFill, SlideAlign, SlideTransition, TransitionType } from "./directives";
+export type { Diagnostic, DiagnosticCode, DiagnosticSeverity } from "./diagnostics";
+export { MissingAssetError, Txt2PptError } from "./errors";
+export type { ErrorCode } from "./errors";
+export type { FrontMatter } from "./frontMatter";
+export type { InlineRun } from "./inline";
+export type { NotesMode } from "./notes";
+export type { OverflowMode, PaginationRules } from "./pagination";
+export type { DeckLayout, RecordedElement, RecordedSlide } from "./recorder";
+export type { TemplateInfo } from "./template";
+export type { MasterSpec, Theme, ThemeInput, TextStyle } from "./theme";
+export { BUILTIN_THEMES, DEFAULT_THEME, loadTheme } from "./theme";
+export { serializeSlides } from "./serialize";
 
 export type LayoutOption =
   | "LAYOUT_16x9"
@@ -11,44 +125,230 @@ export type LayoutOption =
 
 export interface BulletItem {
   text: string;
+  runs: InlineRun[];
   bulletType: "bullet" | "number";
   indentLevel: number;
+  /** Number shown for a numbered item; without it PowerPoint counts on from the item before. */
+  number?: number;
+  numberStyle?: NumberStyle;
+  /** Task list items (`- [ ]`, `- [x]`): whether the box is ticked. */
+  checked?: boolean;
 }
 
-export type Block =
-  | { type: "paragraph"; text: string }
+export interface TableCell {
+  text: string;
+  runs: InlineRun[];
+  /** From a cell holding only `<` or `^`: merged into the cell to its left, or the one above. */
+  merge?: "left" | "up";
+}
+
+export interface SourcePosition {
+  /** 1-based line in the Markdown source. */
+  line: number;
+  /** 1-based column in the Markdown source. */
+  column: number;
+  /** Absolute path of the file, for lines from an included file or a later `--in` input. */
+  file?: string;
+}
+
+export interface ImageLength {
+  value: number;
+  unit: "px" | "in" | "cm" | "%";
+}
+
+/** Size hint from `![alt](path =WxH)`; either side may be omitted to keep the aspect ratio. */
+export interface ImageSizeHint {
+  width?: ImageLength;
+  height?: ImageLength;
+}
+
+export type ColumnAlign = "left" | "center" | "right";
+
+/** What `--format` writes: the deck itself, a self-contained HTML slideshow, or the parsed slides and layout. */
+export type OutputFormat = "pptx" | "html" | "json";
+
+export interface ColumnSpec {
+  /** Relative width; columns share the slide width in proportion to their ratios. */
+  ratio: number;
+  blocks: Block[];
+}
+
+export type Block = (
+  | { type: "paragraph"; text: string; runs: InlineRun[] }
   | { type: "bullets"; items: BulletItem[] }
-  | { type: "image"; alt: string; path: string; sizing?: "cover" | "contain" }
-  | { type: "code"; text: string; language?: string }
-  | { type: "table"; rows: string[][] };
+  | { type: "image"; alt: string; path: string; sizing?: "cover" | "contain"; size?: ImageSizeHint }
+  | {
+      type: "code";
+      text: string;
+      language?: string;
+      /** Lines to emphasise, 1-based within the fenced block, from ```` ```ts {3-5} ````. */
+      highlight?: number[];
+      /** Number shown next to the first line when `showLineNumbers` is set. */
+      lineNumbers?: number;
+      /** 1-based line of the fenced block this part starts at; above 1 for continuation parts. */
+      firstLine?: number;
+      /** Highlighted lines of this part, cut from the whole block so strings and comments carry over. */
+      tokens?: CodeToken[][];
+    }
+  | {
+      type: "table";
+      rows: TableCell[][];
+      header: boolean;
+      align: Array<ColumnAlign | undefined>;
+      /** Shares of the table width, fixed from the whole table for continuation parts. */
+      columnShares?: number[];
+    }
+  | { type: "columns"; columns: ColumnSpec[] }
+  | { type: "chart"; chart: ChartSpec }
+  | { type: "diagram"; diagram: DiagramSpec }
+  /** `:::keep`: moves to the next slide as a whole rather than split, unless it fills a slide of its own. */
+  | { type: "keep"; blocks: Block[] }
+  /** `---`: what follows continues on a `(cont.)` slide. */
+  | { type: "break" }
+) & {
+  position?: SourcePosition;
+};
 
 export interface SlideSpec {
   title: string;
+  /** Position of the `#` heading, or of the first line when content precedes any heading. */
+  position?: SourcePosition;
   subtitle?: string;
   blocks: Block[];
   notes?: string;
+  /** Notes for a specific continuation part (1 = the first slide), from `>note[2]:` or `??? 2`. */
+  partNotes?: Record<number, string>;
   background?: string;
+  backgroundPosition?: SourcePosition;
+  /** Name of the slide master to use; defaults to the "content" master. */
+  layout?: string;
+  /** Presets from `>class:`, applied under the slide's own directives; see `SLIDE_CLASSES`. */
+  classes?: string[];
+  align?: SlideAlign;
+  /** From `>bg-color:`; used when the slide has no background image. */
+  backgroundFill?: BackgroundFill;
+  /** From `>color:`: text colour of the title, subtitle, body and tables. */
+  color?: string;
+  /** From `>title: hidden`: the title still names the slide but is not drawn. */
+  hideTitle?: boolean;
+  /** From `>font-scale:`: multiplies every text size on the slide. */
+  fontScale?: number;
+  /** Applied to the slide and its continuation slides. */
+  transition?: SlideTransition;
+  /** Set on the divider slide of a `>section:`; the slides up to the next one form a PowerPoint section. */
+  section?: string;
+}
+
+export interface ParsedDocument {
+  frontMatter: FrontMatter;
+  slides: SlideSpec[];
+  /** Problems found while parsing; the deck is still usable when there are any. */
+  diagnostics: Diagnostic[];
 }
 
 export interface RenderOptions {
   layout: LayoutOption;
+  /** Custom slide size in inches, e.g. taken from a template deck; takes precedence over `layout`. */
+  size?: SlideSize;
   revision: string;
   meta?: {
     title?: string;
     author?: string;
     company?: string;
+    subject?: string;
   };
+  /** Adds a title slide made from `meta` before the first slide. */
+  titleSlide?: boolean;
+  /** Title of the agenda slide to add after the title slide; no agenda when absent. */
+  agenda?: string;
   defaultBackground?: string;
+  theme?: Theme;
+  lang?: string;
+  /** How notes are spread over continuation slides; defaults to `first`. */
+  notes?: NotesMode;
+  /** What to do with slides whose content does not fit; defaults to `split`. */
+  overflow?: OverflowMode;
+  /** Where blocks may be split; defaults to `DEFAULT_PAGINATION`. */
+  pagination?: PaginationRules;
+  /** Directory that relative image and background paths are resolved against; defaults to the cwd. */
+  baseDir?: string;
+  /** Receives the absolute path of every local image, background and logo the deck refers to. */
+  dependencies?: Set<string>;
+  /** Used by `--check`: missing images and unknown layouts are reported here instead of thrown. */
+  diagnostics?: Diagnostic[];
+  /** Receives the masters and every element placed on each slide, for the HTML and JSON outputs. */
+  layoutRecord?: DeckLayout;
+  /** Supplies image and chart data bytes instead of the file system; see `AssetResolver`. */
+  resolveAsset?: AssetResolver;
+  /** Transitions of the generated slides, which `addTransitions` writes afterwards as PptxGenJS cannot. */
+  transitions?: Array<SlideTransition | undefined>;
+  /** Names of the generated slides for `nameSlides`; only the title and agenda slides get one. */
+  slideNames?: Array<string | undefined>;
 }
 
-interface CliOptions {
-  inPath: string;
-  outPath: string;
-  layout: LayoutOption;
+/** An image, background, logo or chart data file the deck refers to. */
+export interface AssetRequest {
+  /** The path as written in the Markdown or front matter; theme logos and backgrounds arrive already absolute. */
+  path: string;
+  /** `path` resolved against the base directory; URLs are passed unchanged. */
+  resolvedPath: string;
+  /** Included Markdown files arrive resolved against the including file and are read as UTF-8. */
+  kind: "image" | "background" | "logo" | "chart-data" | "include";
+}
+
+/** Returns an asset's bytes, e.g. from memory; undefined falls back to the disk or to downloading `http(s):` URLs. */
+export type AssetResolver = (
+  request: AssetRequest
+) => Promise<Buffer | Uint8Array | undefined> | Buffer | Uint8Array | undefined;
+
+/** Overrides of the front matter, shared by the CLI flags and `convert`. */
+interface RenderSettings {
+  layout?: LayoutOption;
   title?: string;
   author?: string;
   company?: string;
+  subject?: string;
+  /** Background image for every slide without its own `>bg:`. */
   background?: string;
+  /** Built-in theme name or theme file path; `convert` also takes a theme object. */
+  theme?: string | ThemeInput;
+  template?: string;
+  lang?: string;
+  notes?: NotesMode;
+  overflow?: OverflowMode;
+  /** Fewest lines, list items or table rows left at the bottom of a slide when a block is split. */
+  orphans?: number;
+  /** Fewest lines, list items or table rows carried over to the next slide. */
+  widows?: number;
+  /** Values for `{{name}}` placeholders and `{{#each}}` loops; they take precedence over the front matter's `vars`. */
+  vars?: Variables;
+  titleSlide?: boolean;
+  /** `true` for an agenda titled "Agenda", or the agenda's title. */
+  agenda?: boolean | string;
+}
+
+export interface ConvertOptions extends RenderSettings {
+  /** Base for relative paths in the Markdown, the front matter, `background`, `theme` and `template`. */
+  baseDir?: string;
+  resolveAsset?: AssetResolver;
+  diagnostics?: Diagnostic[];
+  /** `nodebuffer` (default) returns a Buffer, `uint8array` a plain Uint8Array. */
+  output?: "nodebuffer" | "uint8array";
+}
+
+interface CliOptions extends RenderSettings {
+  /** Files, directories or file name patterns, concatenated in order. */
+  inPaths: string[];
+  /** Required unless `--check` is given. */
+  outPath?: string;
+  /** Taken from the `--out` extension unless `--format` is given. */
+  format?: OutputFormat;
+  /** JSON or CSV file whose values are used as variables; `--var` values take precedence. */
+  dataPath?: string;
+  theme?: string;
+  watch?: boolean;
+  check?: boolean;
+  json?: boolean;
 }
 
 type RenderResult =
@@ -56,18 +356,51 @@ type RenderResult =
   | { kind: "split"; nextCursor: number; remainder: Block }
   | { kind: "defer" };
 
+interface RenderContext {
+  theme: Theme;
+  lang: string;
+  baseDir: string;
+  images: Map<string, ImageDimensions | undefined>;
+  /** Images supplied by the asset resolver as data URIs, keyed like `images`. */
+  assets: Map<string, string>;
+  /** Chart data read from `data:` files, keyed by absolute path. */
+  chartData: Map<string, ChartTable>;
+  /** Horizontal alignment of paragraphs and bullets, from `>align:`. */
+  textAlign?: ColumnAlign;
+  pagination: PaginationRules;
+}
+
+interface LayoutArea {
+  x: number;
+  y: number;
+  width: number;
+  safeBottom: number;
+}
+
 interface RenderDimensions {
   x: number;
   y: number;
   width: number;
   availableHeight: number;
   safeBottom: number;
+  /** Set when the block is alone on a fresh slide and must place at least part of itself. */
+  force?: boolean;
+  /** Set when the block starts its area, so moving it to the next slide would not make more room. */
+  first?: boolean;
 }
 
 interface ParseState {
   slides: SlideSpec[];
   current?: SlideSpec;
-  codeBlock?: { language?: string; lines: string[] };
+  /** Start of the line being parsed; new slides and blocks take it as their position. */
+  position: SourcePosition;
+  diagnostics: Diagnostic[];
+  codeBlock?: { info: CodeInfo; lines: string[]; position: SourcePosition };
+  columns?: { ratios: number[]; columns: ColumnSpec[]; position: SourcePosition };
+  /** Open `:::keep` container; `inColumns` when it was opened inside a column. */
+  keep?: { blocks: Block[]; position: SourcePosition; inColumns: boolean };
+  /** Open multi-line notes section and what closes it besides the end of the file. */
+  notesBlock?: { part?: number; position: SourcePosition; lines: string[]; closing: "heading" | "tag" | "comment" };
 }
 
 const VALID_LAYOUTS = new Set<LayoutOption>([
@@ -77,44 +410,70 @@ const VALID_LAYOUTS = new Set<LayoutOption>([
   "LAYOUT_16x10"
 ]);
 
-const SAFE_MARGIN_X = 0.6;
-const SAFE_MARGIN_BOTTOM = 0.7;
-const TITLE_Y = 0.4;
-const SUBTITLE_Y = 1.0;
-const BODY_TOP = 1.6;
-const LINE_HEIGHT = 0.35;
-const BULLET_LINE_HEIGHT = 0.38;
-const CODE_LINE_HEIGHT = 0.32;
-const MIN_BLOCK_HEIGHT = 0.6;
-const BLOCK_GAP = 0.2;
-
-const DEFAULT_FONT = "BIZ UDPGothic";
-const CODE_FONT = "Consolas";
+const OUTPUT_FORMATS: OutputFormat[] = ["pptx", "html", "json"];
+const DEFAULT_LAYOUT: LayoutOption = "LAYOUT_16x9";
+const TEMPLATE_LAYOUT = "TEMPLATE";
 const DEFAULT_LANG = "ja-JP";
 const DEFAULT_REVISION = "1";
+const DEFAULT_AGENDA_TITLE = "Agenda";
+/** PowerPoint's own name for the section that holds the slides before the first named one. */
+const DEFAULT_SECTION_TITLE = "Default Section";
+const AGENDA_NUMBER_WIDTH = 0.8;
+/** `overflow: shrink` sets text down to this fraction of its size, in steps of `SHRINK_STEP`. */
+const MIN_SHRINK_SCALE = 0.6;
+const SHRINK_STEP = 0.05;
 const MAX_IMAGE_HEIGHT = 3.5;
-const TABLE_ROW_HEIGHT = 0.45;
-const TABLE_BASE_HEIGHT = 0.6;
+const DEFAULT_CHART_HEIGHT = 3.2;
+const BULLET_INDENT = 27 / 72;
+const EMPTY_CELL: TableCell = { text: "", runs: [] };
 const EMU_PER_INCH = 914400;
-const MAX_INDENT_LEVEL = 3;
 
 const HEADING_REGEX = /^#\s+/;
 const SUBTITLE_REGEX = /^##\s+/;
 const CODE_FENCE_REGEX = /^```/;
-const NOTE_REGEX = /^>note:/i;
+const CODE_HIGHLIGHT_REGEX = /\{([\d,\s-]+)\}/;
+const CODE_LINE_NUMBERS_REGEX = /\bshowLineNumbers(?:\{(\d+)\})?/i;
+const NOTE_REGEX = /^>note(?:\[(\d+)\])?:/i;
+const NOTES_SEPARATOR_REGEX = /^\?\?\?(?:\s+(\d+))?$/;
+const NOTES_TAG_REGEX = /^<!--\s*notes(?:\s+(\d+))?\s*(-->)?$/i;
+const NOTES_END_TAG_REGEX = /^<!--\s*\/notes\s*-->$/i;
 const BACKGROUND_REGEX = /^>bg:/i;
+const LAYOUT_REGEX = /^>layout:/i;
+const SECTION_REGEX = /^>section:/i;
+const CONTAINER_REGEX = /^:::\s*(columns|column|keep)?\s*(.*)$/i;
+const PAGE_BREAK_REGEX = /^-{3,}$/;
 const IMAGE_REGEX = /^\s*!\[(.*?)]\((.+)\)\s*$/;
-const BULLET_REGEX = /^(\s*)([-*]|\d+\.)\s+(.*)$/;
+const IMAGE_SIZE_REGEX = /^(.*?)\s+=(\S+)$/;
+const IMAGE_SIZING_REGEX = /#(cover|contain)$/i;
+const IMAGE_LENGTH = "(\\d*\\.?\\d+)(px|in|cm|%)?";
+const IMAGE_SIZE_HINT_REGEX = new RegExp(`^(?:${IMAGE_LENGTH})?(?:x(?:${IMAGE_LENGTH})?)?$`, "i");
+const REMOTE_PATH_REGEX = /^(https?:|data:)/i;
+const URL_REGEX = /^https?:/i;
+const REMOTE_IMAGE_TIMEOUT_MS = 15000;
+const BULLET_REGEX = new RegExp(`^(\\s*)([-*]|(?:${LIST_NUMBER_PATTERN})\\.)(\\s+)(.*)$`);
+const TASK_REGEX = /^\[([ xX])](?:\s+|$)/;
+/** Spaces by which a nested item is indented past its parent, at the least. */
+const LIST_INDENT = 2;
 
 export function parseSlides(rawText: string): SlideSpec[] {
-  const state: ParseState = { slides: [] };
+  return parseDocument(rawText).slides;
+}
+
+export function parseDocument(rawText: string): ParsedDocument {
   const normalized = rawText.replace(/\r\n?/g, "\n");
-  const lines = normalized.split("\n");
+  const { frontMatter, body } = extractFrontMatter(normalized);
+  return { frontMatter, ...parseBody(body) };
+}
+
+function parseBody(body: string): { slides: SlideSpec[]; diagnostics: Diagnostic[] } {
+  const state: ParseState = { slides: [], position: { line: 1, column: 1 }, diagnostics: [] };
+  const lines = body.split("\n");
 
   for (let index = 0; index < lines.length; index += 1) {
     const rawLine = lines[index];
     const trimmedRight = rawLine.trimEnd();
     const trimmed = trimmedRight.trim();
+    state.position = { line: index + 1, column: rawLine.length - rawLine.trimStart().length + 1 };
 
     if (state.codeBlock) {
       if (CODE_FENCE_REGEX.test(trimmedRight)) {
@@ -125,13 +484,39 @@ export function parseSlides(rawText: string): SlideSpec[] {
       continue;
     }
 
+    if (state.notesBlock && consumeNotesLine(state, rawLine)) {
+      continue;
+    }
+
     if (!trimmed) {
       continue;
     }
 
+    const notesMatch = trimmed.match(NOTES_SEPARATOR_REGEX) ?? trimmed.match(NOTES_TAG_REGEX);
+    if (notesMatch) {
+      ensureSlide(state);
+      state.notesBlock = {
+        part: parsePart(notesMatch[1]),
+        position: state.position,
+        lines: [],
+        closing: notesMatch[0].startsWith("???") ? "heading" : notesMatch[2] ? "tag" : "comment"
+      };
+      continue;
+    }
+
     if (CODE_FENCE_REGEX.test(trimmedRight)) {
-      const language = trimmedRight.slice(3).trim() || undefined;
-      state.codeBlock = { language, lines: [] };
+      state.codeBlock = { info: parseCodeInfo(trimmedRight.slice(3)), lines: [], position: state.position };
+      continue;
+    }
+
+    const containerMatch = trimmed.match(CONTAINER_REGEX);
+    if (containerMatch) {
+      updateContainers(state, containerMatch[1]?.toLowerCase(), containerMatch[2].trim());
+      continue;
+    }
+
+    if (PAGE_BREAK_REGEX.test(trimmed)) {
+      appendBlock(state, { type: "break" });
       continue;
     }
 
@@ -147,6 +532,11 @@ export function parseSlides(rawText: string): SlideSpec[] {
       continue;
     }
 
+    if (SECTION_REGEX.test(trimmed)) {
+      startSection(state, trimmedRight);
+      continue;
+    }
+
     if (NOTE_REGEX.test(trimmed)) {
       appendNote(state, trimmedRight);
       continue;
@@ -157,42 +547,70 @@ export function parseSlides(rawText: string): SlideSpec[] {
       continue;
     }
 
+    if (LAYOUT_REGEX.test(trimmed)) {
+      updateLayout(state, trimmedRight);
+      continue;
+    }
+
+    const directiveMatch = trimmedRight.match(DIRECTIVE_REGEX);
+    if (directiveMatch) {
+      updateDirective(state, directiveMatch[1], directiveMatch[2]);
+      continue;
+    }
+
     const imageMatch = rawLine.match(IMAGE_REGEX);
     if (imageMatch) {
-      const [, altRaw, pathRaw] = imageMatch;
-      const [imagePath, sizingToken] = pathRaw.split(/#(cover|contain)$/i);
-      const sizing = sizingToken ? (sizingToken.toLowerCase() === "cover" ? "cover" : "contain") : undefined;
+      const [, altRaw, targetRaw] = imageMatch;
+      const { path: imagePath, sizing, size } = parseImageTarget(targetRaw.trim());
       appendBlock(state, {
         type: "image",
         alt: (altRaw || "").trim(),
-        path: imagePath.trim(),
-        sizing
+        path: imagePath,
+        sizing,
+        size
       });
       continue;
     }
 
     if (isTableLine(trimmedRight)) {
-      const { rows, nextIndex } = collectTable(lines, index);
-      appendBlock(state, { type: "table", rows });
+      const { table, nextIndex } = collectTable(state, lines, index);
+      appendBlock(state, table);
       index = nextIndex;
       continue;
     }
 
-    if (BULLET_REGEX.test(rawLine)) {
-      const { items, nextIndex } = collectBullets(lines, index);
+    if (matchListItem(lines, index)) {
+      const { items, nextIndex } = collectBullets(state, lines, index);
       appendBlock(state, { type: "bullets", items });
       index = nextIndex;
       continue;
     }
 
     const { text: paragraph, nextIndex } = collectParagraph(lines, index);
-    appendBlock(state, { type: "paragraph", text: paragraph });
+    appendBlock(state, createParagraph(parseInline(paragraph)));
     index = nextIndex;
   }
 
+  if (state.codeBlock) {
+    report(state, "error", "unclosed-code-fence", "Code block is never closed with ```", state.codeBlock.position);
+  }
+  if (state.notesBlock?.closing === "comment") {
+    report(state, "error", "unclosed-notes", "Notes comment is never closed with -->", state.notesBlock.position);
+  }
   appendCodeBlock(state);
   finalizeCurrentSlide(state);
-  return state.slides;
+  return { slides: state.slides, diagnostics: state.diagnostics };
+}
+
+function report(
+  state: ParseState,
+  severity: DiagnosticSeverity,
+  code: DiagnosticCode,
+  message: string,
+  position: SourcePosition = state.position
+): void {
+  const slide = state.slides.length + (state.current ? 1 : 0);
+  state.diagnostics.push({ severity, code, message, ...position, slide: slide || undefined });
 }
 
 function startNewSlide(state: ParseState, rawTitle?: string): void {
@@ -200,19 +618,34 @@ function startNewSlide(state: ParseState, rawTitle?: string): void {
   const title = rawTitle?.trim();
   state.current = {
     title: title && title.length > 0 ? title : `Slide ${state.slides.length + 1}`,
+    position: state.position,
     blocks: []
   };
   state.codeBlock = undefined;
 }
 
+/** The lines up to the next `#` heading, such as a `##` subtitle or notes, belong to the divider slide. */
+function startSection(state: ParseState, line: string): void {
+  const name = line.replace(SECTION_REGEX, "").trim();
+  if (!name) {
+    report(state, "warning", "empty-section", ">section: has no name and is ignored");
+    return;
+  }
+  startNewSlide(state, name);
+  Object.assign(state.current!, { section: name, classes: ["divider"] });
+}
+
 function ensureSlide(state: ParseState, fallbackTitle?: string): SlideSpec {
   if (!state.current) {
     startNewSlide(state, fallbackTitle ?? `Slide ${state.slides.length + 1}`);
+    report(state, "warning", "content-before-heading", "Content before the first # heading gets an untitled slide");
   }
   return state.current!;
 }
 
 function finalizeCurrentSlide(state: ParseState): void {
+  flushNotesBlock(state);
+  closeContainers(state);
   if (state.current) {
     state.slides.push(state.current);
     state.current = undefined;
@@ -221,13 +654,154 @@ function finalizeCurrentSlide(state: ParseState): void {
 
 function appendBlock(state: ParseState, block: Block): void {
   const slide = ensureSlide(state);
+  block.position ??= state.position;
+  const keep = state.keep;
+  if (keep && (keep.inColumns || !state.columns)) {
+    keep.blocks.push(block);
+    return;
+  }
+  const columns = state.columns?.columns;
+  if (columns) {
+    if (columns.length === 0) {
+      openColumn(state, "");
+    }
+    columns[columns.length - 1].blocks.push(block);
+    return;
+  }
   slide.blocks.push(block);
 }
 
+/** `:::columns [2:1]`, `:::column [ratio]`, `:::keep`; a bare `:::` closes the container opened last. */
+function updateContainers(state: ParseState, keyword: string | undefined, argument: string): void {
+  if (keyword === "keep") {
+    closeKeep(state);
+    ensureSlide(state);
+    state.keep = { blocks: [], position: state.position, inColumns: !!state.columns };
+    return;
+  }
+  if (keyword && state.keep?.inColumns) {
+    // A new column or column container ends a `:::keep` left open in the previous column.
+    closeKeep(state);
+  }
+  if (keyword === "columns") {
+    closeColumns(state);
+    ensureSlide(state);
+    state.columns = { ratios: parseRatios(argument), columns: [], position: state.position };
+    return;
+  }
+  if (keyword === "column") {
+    if (!state.columns) {
+      ensureSlide(state);
+      state.columns = { ratios: [], columns: [], position: state.position };
+    }
+    openColumn(state, argument);
+    return;
+  }
+  if (state.keep && (state.keep.inColumns || !state.columns)) {
+    closeKeep(state);
+  } else {
+    closeColumns(state);
+  }
+}
+
+function openColumn(state: ParseState, argument: string): void {
+  const container = state.columns!;
+  const explicit = parseRatios(argument)[0];
+  const ratio = explicit ?? container.ratios[container.columns.length] ?? 1;
+  container.columns.push({ ratio, blocks: [] });
+}
+
+function closeColumns(state: ParseState): void {
+  const container = state.columns;
+  if (!container) {
+    return;
+  }
+  state.columns = undefined;
+  if (container.columns.length > 0) {
+    appendBlock(state, { type: "columns", columns: container.columns, position: container.position });
+  }
+}
+
+function closeKeep(state: ParseState): void {
+  const container = state.keep;
+  if (!container) {
+    return;
+  }
+  state.keep = undefined;
+  if (container.blocks.length > 0) {
+    appendBlock(state, { type: "keep", blocks: container.blocks, position: container.position });
+  }
+}
+
+/** Closes what is still open at the end of a slide, innermost first. */
+function closeContainers(state: ParseState): void {
+  if (state.keep?.inColumns) {
+    closeKeep(state);
+  }
+  closeColumns(state);
+  closeKeep(state);
+}
+
+function parseRatios(argument: string): number[] {
+  if (!argument) {
+    return [];
+  }
+  return argument
+    .split(/[:/\s]+/)
+    .map(token => Number.parseFloat(token))
+    .filter(value => Number.isFinite(value) && value > 0);
+}
+
 function appendNote(state: ParseState, line: string): void {
-  const slide = ensureSlide(state);
-  const noteText = line.replace(NOTE_REGEX, "").trim();
-  slide.notes = slide.notes ? `${slide.notes}\n${noteText}` : noteText;
+  const part = parsePart(line.match(NOTE_REGEX)?.[1]);
+  addNotes(ensureSlide(state), line.replace(NOTE_REGEX, "").trim(), part, "\n");
+}
+
+function addNotes(slide: SlideSpec, text: string, part: number | undefined, separator: string): void {
+  if (part === undefined) {
+    slide.notes = slide.notes ? `${slide.notes}${separator}${text}` : text;
+    return;
+  }
+  const partNotes = (slide.partNotes ??= {});
+  partNotes[part] = partNotes[part] ? `${partNotes[part]}${separator}${text}` : text;
+}
+
+function parsePart(value: string | undefined): number | undefined {
+  const part = value ? Number.parseInt(value, 10) : undefined;
+  return part && part > 0 ? part : undefined;
+}
+
+/** Returns false when the line ends the notes by starting a new slide, which the caller still handles. */
+function consumeNotesLine(state: ParseState, rawLine: string): boolean {
+  const block = state.notesBlock!;
+  const trimmed = rawLine.trim();
+  if (block.closing === "comment") {
+    if (trimmed.endsWith("-->")) {
+      block.lines.push(rawLine.slice(0, rawLine.lastIndexOf("-->")));
+      flushNotesBlock(state);
+      return true;
+    }
+  } else if (block.closing === "tag" && NOTES_END_TAG_REGEX.test(trimmed)) {
+    flushNotesBlock(state);
+    return true;
+  } else if (HEADING_REGEX.test(trimmed) || SECTION_REGEX.test(trimmed)) {
+    flushNotesBlock(state);
+    return false;
+  }
+  block.lines.push(rawLine.trimEnd());
+  return true;
+}
+
+function flushNotesBlock(state: ParseState): void {
+  const block = state.notesBlock;
+  if (!block) {
+    return;
+  }
+  state.notesBlock = undefined;
+  const text = block.lines.join("\n").replace(/^\s*\n/, "").trimEnd();
+  if (text && state.current) {
+    addNotes(state.current, text, block.part, "\n\n");
+  }
 }
 
 function updateBackground(state: ParseState, line: string): void {
@@ -235,23 +809,138 @@ function updateBackground(state: ParseState, line: string): void {
   const backgroundPath = line.replace(BACKGROUND_REGEX, "").trim();
   if (backgroundPath) {
     slide.background = backgroundPath;
+    slide.backgroundPosition = state.position;
+  } else {
+    report(state, "warning", "empty-background", ">bg: has no image path and is ignored");
+  }
+}
+
+function updateLayout(state: ParseState, line: string): void {
+  const slide = ensureSlide(state);
+  const layoutName = line.replace(LAYOUT_REGEX, "").trim();
+  if (layoutName) {
+    slide.layout = layoutName;
+  } else {
+    report(state, "warning", "empty-layout", ">layout: has no layout name and is ignored");
+  }
+}
+
+function updateDirective(state: ParseState, name: string, value: string): void {
+  const slide = ensureSlide(state);
+  try {
+    Object.assign(slide, parseDirective(name, value));
+  } catch (error) {
+    report(state, "warning", "invalid-directive", (error as Error).message);
   }
 }
 
 function appendCodeBlock(state: ParseState): void {
-  if (!state.codeBlock) {
+  const codeBlock = state.codeBlock;
+  if (!codeBlock) {
     return;
   }
-  appendBlock(state, {
-    type: "code",
-    text: state.codeBlock.lines.join("\n"),
-    language: state.codeBlock.language
-  });
   state.codeBlock = undefined;
+  const text = codeBlock.lines.join("\n");
+  if (codeBlock.info.language?.toLowerCase() === "chart") {
+    try {
+      appendBlock(state, { type: "chart", chart: parseChartBlock(text), position: codeBlock.position });
+      return;
+    } catch (error) {
+      // Keep the source visible as a code block so the problem is obvious on the slide too.
+      report(state, "error", "invalid-chart", (error as Error).message, codeBlock.position);
+    }
+  }
+  if (codeBlock.info.language?.toLowerCase() === "diagram") {
+    try {
+      appendBlock(state, { type: "diagram", diagram: parseDiagram(text), position: codeBlock.position });
+      return;
+    } catch (error) {
+      report(state, "error", "invalid-diagram", (error as Error).message, codeBlock.position);
+    }
+  }
+  appendBlock(state, { type: "code", text, ...codeBlock.info, position: codeBlock.position });
+}
+
+type CodeInfo = Pick<Extract<Block, { type: "code" }>, "language" | "highlight" | "lineNumbers">;
+
+/** Reads info strings such as `ts {1,3-5} showLineNumbers` or `py showLineNumbers{10}`. */
+function parseCodeInfo(info: string): CodeInfo {
+  let rest = info.trim();
+  let lineNumbers: number | undefined;
+  rest = rest.replace(CODE_LINE_NUMBERS_REGEX, (_match, start?: string) => {
+    lineNumbers = start ? Number.parseInt(start, 10) : 1;
+    return " ";
+  });
+  let highlight: number[] | undefined;
+  rest = rest.replace(CODE_HIGHLIGHT_REGEX, (_match, ranges: string) => {
+    highlight = ranges.split(",").flatMap(range => {
+      const [start, end] = range.split("-").map(value => Number.parseInt(value, 10));
+      if (!Number.isFinite(start)) {
+        return [];
+      }
+      const last = Number.isFinite(end) ? end : start;
+      return Array.from({ length: Math.max(last - start + 1, 0) }, (_, offset) => start + offset);
+    });
+    return " ";
+  });
+  return { language: rest.trim().split(/\s+/)[0] || undefined, highlight, lineNumbers };
+}
+
+/** Splits `path#cover =WxH`; the hint may also be `=50%`, `=4in` or `=x3cm`, before or after `#cover`. */
+function parseImageTarget(raw: string): {
+  path: string;
+  sizing?: "cover" | "contain";
+  size?: ImageSizeHint;
+} {
+  let target = raw;
+  let sizing: "cover" | "contain" | undefined;
+  const takeSizing = (): void => {
+    const sizingMatch = target.match(IMAGE_SIZING_REGEX);
+    if (sizingMatch) {
+      sizing = sizingMatch[1].toLowerCase() === "cover" ? "cover" : "contain";
+      target = target.slice(0, sizingMatch.index).trimEnd();
+    }
+  };
+
+  takeSizing();
+  const hintMatch = target.match(IMAGE_SIZE_REGEX);
+  const sizeMatch = hintMatch?.[2].match(IMAGE_SIZE_HINT_REGEX);
+  if (!hintMatch || !sizeMatch || (!sizeMatch[1] && !sizeMatch[3])) {
+    return { path: target.trim(), sizing };
+  }
+  target = hintMatch[1];
+  takeSizing();
+
+  const toLength = (value?: string, unit?: string): ImageLength | undefined =>
+    value ? { value: Number.parseFloat(value), unit: (unit?.toLowerCase() ?? "px") as ImageLength["unit"] } : undefined;
+  return {
+    path: target.trim(),
+    sizing,
+    size: { width: toLength(sizeMatch[1], sizeMatch[2]), height: toLength(sizeMatch[3], sizeMatch[4]) }
+  };
+}
+
+function createParagraph(runs: InlineRun[]): Extract<Block, { type: "paragraph" }> {
+  return { type: "paragraph", text: runsToPlainText(runs), runs };
+}
+
+function createCell(source: string): TableCell {
+  if (source === "<" || source === "^") {
+    return { text: "", runs: [], merge: source === "<" ? "left" : "up" };
+  }
+  const runs = parseInline(source);
+  return { text: runsToPlainText(runs), runs };
 }
 
-function collectTable(lines: string[], startIndex: number): { rows: string[][]; nextIndex: number } {
-  const rows: string[][] = [];
+/** A separator row (`|---|:--:|`) right below the first row makes it the header and sets the alignment. */
+function collectTable(
+  state: ParseState,
+  lines: string[],
+  startIndex: number
+): { table: Extract<Block, { type: "table" }>; nextIndex: number } {
+  const rows: TableCell[][] = [];
+  let header = false;
+  let align: Array<ColumnAlign | undefined> = [];
   let index = startIndex;
 
   while (index < lines.length) {
@@ -260,38 +949,162 @@ function collectTable(lines: string[], startIndex: number): { rows: string[][];
       break;
     }
     const inner = candidate.slice(1, candidate.length - 1);
-    rows.push(inner.split("|").map(cell => cell.trim()));
+    if (isTableSeparator(candidate)) {
+      if (index === startIndex + 1 && rows.length === 1) {
+        header = true;
+        align = inner.split("|").map(parseColumnAlign);
+      }
+      index += 1;
+      continue;
+    }
+    const row = splitTableRow(inner).map(cell => createCell(cell.trim()));
+    row.forEach((cell, column) => {
+      // A merge needs a cell to join, and body cells do not join the header row.
+      const invalid = cell.merge === "left" ? column === 0 : cell.merge === "up" && rows.length <= (header ? 1 : 0);
+      if (invalid) {
+        const symbol = cell.merge === "left" ? "<" : "^";
+        report(state, "warning", "invalid-table-merge", `Table cell ${symbol} has no cell to merge with`, {
+          line: index + 1,
+          column: lines[index].indexOf("|") + 1
+        });
+        row[column] = { text: symbol, runs: [{ text: symbol }] };
+      }
+    });
+    if (rows.length > 0 && row.length !== rows[0].length) {
+      const message = `Table row has ${row.length} cells but the first row has ${rows[0].length}`;
+      report(state, "warning", "ragged-table", message, { line: index + 1, column: lines[index].indexOf("|") + 1 });
+    }
+    rows.push(row);
     index += 1;
   }
 
-  return { rows, nextIndex: index - 1 };
+  return { table: { type: "table", rows, header, align }, nextIndex: index - 1 };
+}
+
+function parseColumnAlign(spec: string): ColumnAlign | undefined {
+  const trimmed = spec.trim();
+  const left = trimmed.startsWith(":");
+  const right = trimmed.endsWith(":");
+  if (left && right) {
+    return "center";
+  }
+  if (right) {
+    return "right";
+  }
+  return left ? "left" : undefined;
 }
 
-function collectBullets(lines: string[], startIndex: number): { items: BulletItem[]; nextIndex: number } {
-  const items: BulletItem[] = [];
+/** After a blank line a list goes on only with indented lines: nested items or more of the last item. */
+function collectBullets(
+  state: ParseState,
+  lines: string[],
+  startIndex: number
+): { items: BulletItem[]; nextIndex: number } {
+  const entries: Array<{ item: BulletItem; marker: string; lines: string[] }> = [];
+  const parents: Array<{ indent: number; kind: MarkerKind }> = [];
+  // A letter marker goes on the list when the item it would follow at its level has the same kind.
+  const continues = (indent: number, kind: MarkerKind): boolean => {
+    const sibling = [...parents].reverse().find(parent => parent.indent <= indent);
+    return !!sibling && indent < sibling.indent + LIST_INDENT && sibling.kind === kind;
+  };
   let index = startIndex;
 
   while (index < lines.length) {
     const raw = lines[index] ?? "";
-    const match = raw.match(BULLET_REGEX);
+    const match = matchListItem(lines, index, continues);
+    const last = entries[entries.length - 1];
     if (!match) {
-      break;
+      if (!last) {
+        break;
+      }
+      if (raw.trim() && !isBlockBoundary(raw)) {
+        last.lines.push(raw.trim());
+        index += 1;
+        continue;
+      }
+      let next = index;
+      while (next < lines.length && !lines[next].trim()) {
+        next += 1;
+      }
+      const following = lines[next] ?? "";
+      const nested = indentOf(following) >= parents[0].indent + LIST_INDENT;
+      const item = matchListItem(lines, next, continues);
+      if (next === index || !nested || (!item && isBlockBoundary(following))) {
+        break;
+      }
+      index = next;
+      if (!item) {
+        last.lines.push(following.trim());
+        index += 1;
+      }
+      continue;
     }
-    const indentSpaces = match[1].replace(/\t/g, "  ").length;
-    const indentLevel = Math.min(Math.floor(indentSpaces / 2), MAX_INDENT_LEVEL);
+
+    const indent = indentOf(raw);
     const marker = match[2];
-    const textContent = match[3].trim();
-    items.push({
-      text: textContent,
-      bulletType: /^\d+\.$/.test(marker) ? "number" : "bullet",
-      indentLevel
+    while (parents.length > 0 && indent < parents[parents.length - 1].indent + LIST_INDENT) {
+      parents.pop();
+    }
+    const depth = parents.length;
+    parents.push({ indent, kind: markerKind(marker) });
+    if (depth > MAX_LIST_LEVEL) {
+      const message = `Bullet is nested ${depth} levels deep; deeper than level ${MAX_LIST_LEVEL} is flattened`;
+      report(state, "warning", "bullet-too-deep", message, { line: index + 1, column: match[1].length + 1 });
+    }
+    const content = match[4].trim();
+    const task = TASK_REGEX.exec(content);
+    entries.push({
+      item: {
+        text: "",
+        runs: [],
+        bulletType: markerKind(marker) === "bullet" ? "bullet" : "number",
+        indentLevel: Math.min(depth, MAX_LIST_LEVEL),
+        ...(task && { checked: task[1] !== " " })
+      },
+      marker,
+      lines: [task ? content.slice(task[0].length) : content]
     });
     index += 1;
   }
 
+  const items = numberItems(
+    entries.map(({ item, marker, lines: itemLines }) => {
+      const runs = parseInline(itemLines.join("\n"));
+      return { item: { ...item, text: runsToPlainText(runs), runs }, marker };
+    })
+  );
   return { items, nextIndex: index - 1 };
 }
 
+/** Letter and roman markers need two spaces, the next marker below or `continues`, so "A. Lincoln" is no list. */
+function matchListItem(
+  lines: string[],
+  index: number,
+  continues?: (indent: number, kind: MarkerKind) => boolean
+): RegExpMatchArray | undefined {
+  const match = lines[index]?.match(BULLET_REGEX);
+  if (!match) {
+    return undefined;
+  }
+  const kind = markerKind(match[2]);
+  if (kind === "bullet" || kind === "decimal" || match[3].length >= 2) {
+    return match;
+  }
+  const indent = indentOf(lines[index]);
+  // Items nested below this one do not interrupt the list.
+  let nextIndex = index + 1;
+  while (lines[nextIndex]?.trim() && indentOf(lines[nextIndex]) > indent) {
+    nextIndex += 1;
+  }
+  const next = lines[nextIndex]?.match(BULLET_REGEX);
+  const listFollows = !!next && followsMarker(match[2], next[2]) && indentOf(lines[nextIndex]) === indent;
+  return listFollows || continues?.(indent, kind) ? match : undefined;
+}
+
+function indentOf(line: string): number {
+  return (/^\s*/.exec(line)?.[0] ?? "").replace(/\t/g, "  ").length;
+}
+
 function collectParagraph(lines: string[], startIndex: number): { text: string; nextIndex: number } {
   const buffer: string[] = [];
   let index = startIndex;
@@ -307,7 +1120,7 @@ function collectParagraph(lines: string[], startIndex: number): { text: string;
     if (!lookahead || !lookahead.trim()) {
       break;
     }
-    if (isBlockBoundary(lookahead)) {
+    if (isBlockBoundary(lookahead) || matchListItem(lines, index + 1)) {
       break;
     }
     index += 1;
@@ -326,22 +1139,55 @@ function isBlockBoundary(line: string): boolean {
     SUBTITLE_REGEX.test(trimmed) ||
     HEADING_REGEX.test(trimmed) ||
     NOTE_REGEX.test(trimmed) ||
+    NOTES_SEPARATOR_REGEX.test(trimmed) ||
+    NOTES_TAG_REGEX.test(trimmed) ||
     BACKGROUND_REGEX.test(trimmed) ||
+    LAYOUT_REGEX.test(trimmed) ||
+    SECTION_REGEX.test(trimmed) ||
+    DIRECTIVE_REGEX.test(trimmed) ||
+    PAGE_BREAK_REGEX.test(trimmed) ||
+    CONTAINER_REGEX.test(trimmed) ||
     IMAGE_REGEX.test(line) ||
     isTableLine(trimmed) ||
-    BULLET_REGEX.test(line)
+    !!matchListItem([line], 0)
   );
 }
 
+/** Splits on unescaped pipes; `\|` and pipes inside code spans stay in the cell. */
+function splitTableRow(inner: string): string[] {
+  const cells: string[] = [];
+  let buffer = "";
+  let inCode = false;
+
+  for (let index = 0; index < inner.length; index += 1) {
+    const char = inner[index];
+    if (char === "\\" && inner[index + 1] === "|") {
+      buffer += "|";
+      index += 1;
+      continue;
+    }
+    if (char === "`") {
+      inCode = !inCode;
+    }
+    if (char === "|" && !inCode) {
+      cells.push(buffer);
+      buffer = "";
+      continue;
+    }
+    buffer += char;
+  }
+
+  cells.push(buffer);
+  return cells;
+}
+
 function isTableLine(line: string): boolean {
   const trimmed = line.trim();
-  if (!trimmed.startsWith("|") || !trimmed.endsWith("|")) {
-    return false;
-  }
-  if (/^\|[\s:-]+\|$/.test(trimmed)) {
-    return false;
-  }
-  return trimmed.includes("|");
+  return trimmed.length > 1 && trimmed.startsWith("|") && trimmed.endsWith("|");
+}
+
+function isTableSeparator(line: string): boolean {
+  return /^\|(\s*:?-+:?\s*\|)+$/.test(line.trim());
 }
 
 export async function renderSlides(
@@ -349,12 +1195,22 @@ export async function renderSlides(
   specs: SlideSpec[],
   options: RenderOptions
 ): Promise<void> {
-  pptx.layout = options.layout;
+  const theme = options.theme ?? DEFAULT_THEME;
+  const { spacing } = theme;
+  if (options.size) {
+    pptx.defineLayout({ name: TEMPLATE_LAYOUT, width: options.size.width, height: options.size.height });
+    pptx.layout = TEMPLATE_LAYOUT;
+  } else {
+    pptx.layout = options.layout;
+  }
   pptx.theme = {
-    headFontFace: DEFAULT_FONT,
-    bodyFontFace: DEFAULT_FONT
+    headFontFace: theme.title.fontFace,
+    bodyFontFace: theme.body.fontFace
   };
   pptx.revision = options.revision;
+  if (options.meta?.subject) {
+    pptx.subject = options.meta.subject;
+  }
   if (options.meta?.title) {
     pptx.title = options.meta.title;
   }
@@ -365,82 +1221,116 @@ export async function renderSlides(
     pptx.company = options.meta.company;
   }
 
-  const { width: safeWidth, bottom: safeBottom } = computeSafeArea(pptx);
-
-  specs.forEach(spec => {
+  const size = slideSize(pptx);
+  const { width: safeWidth, bottom: safeBottom } = computeSafeArea(size, theme);
+  const baseDir = path.resolve(options.baseDir ?? process.cwd());
+  const { images, assets } = await loadImages(specs, options, theme, baseDir);
+  const context: RenderContext = {
+    theme,
+    lang: options.lang ?? DEFAULT_LANG,
+    baseDir,
+    images,
+    assets,
+    chartData: await loadChartData(specs, options, baseDir),
+    pagination: options.pagination ?? DEFAULT_PAGINATION
+  };
+  const deck = options.layoutRecord ? recordPresentation(pptx, options.layoutRecord) : pptx;
+  if (options.layoutRecord) {
+    options.layoutRecord.size = size;
+    options.layoutRecord.lang = context.lang;
+  }
+  registerMasters(deck, withMasterAssets(theme, context), size, context.lang);
+  const transitions = options.transitions ?? [];
+  const slideNames = options.slideNames ?? [];
+  const { slides: opening, agenda } = openingSlides(specs, options);
+  const hasSections = specs.some(spec => spec.section);
+  const sectionTitles: string[] = [];
+  const slideNumbers = new Map<SlideSpec, number>();
+  let sectionTitle: string | undefined;
+  let agendaSlide: { slide: PptxGenJS.Slide; area: LayoutArea; context: RenderContext } | undefined;
+
+  [...opening, ...specs].forEach((spec, index) => {
+    // Diagnostics count the Markdown slides, so the generated title and agenda slides have no number.
+    const specIndex = index - opening.length;
+    const report = (severity: DiagnosticSeverity, code: DiagnosticCode, message: string, at?: SourcePosition): void => {
+      const slide = specIndex < 0 ? undefined : specIndex + 1;
+      options.diagnostics?.push({ severity, code, message, ...(at ?? spec.position), slide });
+    };
+    // Once a deck has sections, PowerPoint expects every slide to be in one.
+    if (spec.section || (hasSections && !sectionTitle)) {
+      sectionTitle = uniqueTitle(spec.section ?? DEFAULT_SECTION_TITLE, sectionTitles);
+      sectionTitles.push(sectionTitle);
+      deck.addSection({ title: sectionTitle });
+    }
+    const style = resolveSlideStyle(spec);
+    let masterName = style.layout ?? DEFAULT_MASTER;
+    if (options.diagnostics && !theme.masters[masterName]) {
+      report("error", "unknown-layout", `Unknown slide layout "${masterName}"`);
+      masterName = DEFAULT_MASTER;
+    }
+    const master = resolveMaster(theme, masterName, describeLocation(specIndex, spec, spec.position));
+    const slideTheme = styleTheme(theme, style);
+    const slideContext: RenderContext = { ...context, theme: slideTheme, textAlign: style.align?.horizontal };
+    const frame = computeTitleFrame(master, slideTheme, size, !!spec.subtitle);
+    const bodyTop = style.hideTitle && !spec.subtitle ? Math.min(frame.titleY, frame.bodyTop) : frame.bodyTop;
     const queue: Block[] = [...spec.blocks];
+    const parts: PptxGenJS.Slide[] = [];
     let sequence = 0;
     let firstSlide = true;
+    let overflowSlides = 0;
 
     while (queue.length > 0 || firstSlide) {
       const slideTitle = sequence === 0 ? spec.title : `${spec.title} (cont.)`;
-      const slide = pptx.addSlide();
+      const slide = deck.addSlide({ masterName, sectionTitle });
+      parts.push(slide);
+      transitions.push(style.transition);
+      slideNames.push(specIndex >= 0 ? undefined : GENERATED_SLIDE_NAMES[spec === agenda ? "agenda" : "title"]);
+      if (sequence === 0) {
+        slideNumbers.set(spec, transitions.length);
+      }
 
       if (spec.background) {
-        slide.background = { path: spec.background };
+        slide.background = assetSource(resolveAssetPath(spec.background, baseDir), context);
+      } else if (style.backgroundFill) {
+        slide.background = backgroundFillProps(style.backgroundFill, size);
       } else if (options.defaultBackground) {
-        slide.background = { path: options.defaultBackground };
-      }
-
-      slide.addText(slideTitle, {
-        x: SAFE_MARGIN_X,
-        y: TITLE_Y,
-        w: safeWidth,
-        h: 0.8,
-        fontFace: DEFAULT_FONT,
-        fontSize: 30,
-        bold: true,
-        lang: DEFAULT_LANG
-      });
+        slide.background = assetSource(resolveAssetPath(options.defaultBackground, baseDir), context);
+      }
+
+      if (!style.hideTitle) {
+        slide.addText(slideTitle, {
+          x: spacing.marginX,
+          y: frame.titleY,
+          w: safeWidth,
+          h: spacing.titleHeight,
+          ...textStyleOptions(slideTheme.title, context.lang),
+          color: style.color ?? master.titleColor ?? slideTheme.title.color,
+          align: style.align?.horizontal,
+          valign: master.titlePosition === "middle" ? "bottom" : undefined
+        });
+      }
 
       if (spec.subtitle) {
         slide.addText(spec.subtitle, {
-          x: SAFE_MARGIN_X,
-          y: SUBTITLE_Y,
+          x: spacing.marginX,
+          y: frame.subtitleY,
           w: safeWidth,
-          h: 0.6,
-          fontFace: DEFAULT_FONT,
-          fontSize: 20,
-          color: "555555",
-          lang: DEFAULT_LANG
+          h: spacing.subtitleHeight,
+          ...textStyleOptions(slideTheme.subtitle, context.lang),
+          color: style.color ?? master.titleColor ?? slideTheme.subtitle.color,
+          align: style.align?.horizontal
         });
       }
 
-      let cursor = BODY_TOP;
-      let consumed = false;
-
-      while (queue.length > 0) {
-        const block = queue[0];
-        const dims: RenderDimensions = {
-          x: SAFE_MARGIN_X,
-          y: cursor,
-          width: safeWidth,
-          availableHeight: safeBottom - cursor,
-          safeBottom
-        };
-
-        const result = renderBlock(slide, block, dims);
-
-        if (result.kind === "defer") {
-          break;
-        }
-
-        queue.shift();
-        consumed = true;
-
-        if (result.kind === "split") {
-          queue.unshift(result.remainder);
-        }
-
-        cursor = result.nextCursor + BLOCK_GAP;
-        if (cursor >= safeBottom - BLOCK_GAP) {
-          break;
-        }
+      const area = { x: spacing.marginX, y: bodyTop, width: safeWidth, safeBottom };
+      if (spec === agenda) {
+        agendaSlide = { slide, area, context: slideContext };
       }
-
-      if (firstSlide && spec.notes) {
-        slide.addNotes(spec.notes);
+      const partContext = options.overflow === "shrink" ? shrinkToFit(queue, area, slideContext) : slideContext;
+      if (style.align?.vertical === "middle" || style.align?.vertical === "bottom") {
+        area.y += freeBodySpace(queue, area, partContext) / (style.align.vertical === "middle" ? 2 : 1);
       }
+      const { cursor, consumed, pageBreak } = layoutBlocks(slide, queue, area, partContext);
 
       sequence += 1;
       firstSlide = false;
@@ -448,20 +1338,30 @@ export async function renderSlides(
       if (queue.length === 0) {
         break;
       }
+      if (!pageBreak) {
+        overflowSlides += 1;
+      }
 
       if (!consumed) {
-        if (cursor !== BODY_TOP) {
+        if (cursor !== area.y) {
           continue;
         }
 
         const block = queue[0];
-        const forced = renderBlock(slide, block, {
-          x: SAFE_MARGIN_X,
-          y: cursor,
-          width: safeWidth,
-          availableHeight: safeBottom - cursor,
-          safeBottom
-        });
+        report("warning", "block-too-large", `A ${block.type} block does not fit on an empty slide`, block.position);
+        const forced = renderBlock(
+          slide,
+          block,
+          {
+            x: spacing.marginX,
+            y: cursor,
+            width: safeWidth,
+            availableHeight: safeBottom - cursor,
+            safeBottom,
+            force: true
+          },
+          partContext
+        );
 
         if (forced.kind === "rendered") {
           queue.shift();
@@ -473,41 +1373,537 @@ export async function renderSlides(
         }
       }
     }
+
+    if (overflowSlides > 0) {
+      const message = `Slide "${spec.title}" overflows onto ${overflowSlides} continuation slide(s)`;
+      report("warning", "slide-overflow", message);
+    }
+
+    assignNotes(spec.notes, spec.partNotes, parts.length, options.notes ?? "first").forEach((notes, index) => {
+      if (notes) {
+        parts[index].addNotes(notes);
+      }
+    });
   });
-}
 
-function computeSafeArea(pptx: PptxGenJS): { width: number; bottom: number } {
-  const width =
-    pptx.presLayout.width > 1000
-      ? pptx.presLayout.width / EMU_PER_INCH
-      : pptx.presLayout.width;
-  const height =
-    pptx.presLayout.height > 1000
-      ? pptx.presLayout.height / EMU_PER_INCH
-      : pptx.presLayout.height;
+  // The agenda is filled in last, when the slide numbers that continuation slides shift are known.
+  if (agendaSlide) {
+    const listed = hasSections ? specs.filter(spec => spec.section) : specs;
+    const entries = listed.map(spec => ({ title: spec.section ?? spec.title, slideNumber: slideNumbers.get(spec)! }));
+    renderAgenda(agendaSlide.slide, entries, agendaSlide.area, agendaSlide.context);
+  }
 
-  return {
-    width: width - SAFE_MARGIN_X * 2,
-    bottom: height - SAFE_MARGIN_BOTTOM
-  };
+  options.layoutRecord?.slides.forEach((record, index) => {
+    if (transitions[index]) {
+      record.transition = transitions[index];
+    }
+  });
 }
 
-function renderBlock(
-  slide: PptxGenJS.Slide,
-  block: Block,
-  dims: RenderDimensions
+/** The generated title and agenda slides; `renderAgenda` fills the agenda in once the deck is laid out. */
+function openingSlides(specs: SlideSpec[], options: RenderOptions): { slides: SlideSpec[]; agenda?: SlideSpec } {
+  const slides: SlideSpec[] = [];
+  if (options.titleSlide) {
+    const meta = options.meta ?? {};
+    const byline = [meta.author, meta.company].filter(Boolean).join(" / ");
+    slides.push({
+      title: meta.title ?? specs[0]?.title ?? "",
+      subtitle: meta.subject,
+      layout: "title",
+      align: { horizontal: "center" },
+      blocks: byline ? [createParagraph([{ text: byline }])] : []
+    });
+  }
+  if (!options.agenda) {
+    return { slides };
+  }
+  const agenda: SlideSpec = { title: options.agenda, blocks: [] };
+  return { slides: [...slides, agenda], agenda };
+}
+
+/** Long agendas are set smaller to fit the body. */
+function renderAgenda(
+  slide: PptxGenJS.Slide,
+  entries: Array<{ title: string; slideNumber: number }>,
+  area: LayoutArea,
+  context: RenderContext
+): void {
+  if (entries.length === 0) {
+    return;
+  }
+  const style = context.theme.bullet;
+  const rowHeight = textBoxHeight(1, textMetrics(style));
+  const scale = Math.min(1, (area.safeBottom - area.y) / (rowHeight * entries.length));
+  const rows: PptxGenJS.TableRow[] = entries.map(entry => [
+    { text: [{ text: entry.title, options: { hyperlink: { slide: entry.slideNumber } } }] },
+    { text: String(entry.slideNumber), options: { align: "right" } }
+  ]);
+  slide.addTable(rows, {
+    x: area.x,
+    y: area.y,
+    w: area.width,
+    colW: [area.width - AGENDA_NUMBER_WIDTH, AGENDA_NUMBER_WIDTH],
+    rowH: rowHeight * scale,
+    ...textStyleOptions(style, context.lang),
+    fontSize: style.fontSize * scale,
+    align: context.textAlign,
+    valign: "middle",
+    border: { type: "none" }
+  });
+}
+
+/** `title`, or `title (2)` and so on when it is already taken; PowerPoint finds sections by name. */
+function uniqueTitle(title: string, taken: string[]): string {
+  let candidate = title;
+  for (let count = 2; taken.includes(candidate); count += 1) {
+    candidate = `${title} (${count})`;
+  }
+  return candidate;
+}
+
+/** Converts Markdown to .pptx bytes like the CLI does, without writing files; failures throw `Txt2PptError`. */
+export async function convert(markdown: string, options: ConvertOptions = {}): Promise<Buffer | Uint8Array> {
+  const baseDir = path.resolve(options.baseDir ?? process.cwd());
+  const read = async (filePath: string): Promise<string | undefined> => {
+    const data = await options.resolveAsset?.({ path: filePath, resolvedPath: filePath, kind: "include" });
+    return data ? Buffer.from(data).toString("utf8") : readSourceFile(filePath);
+  };
+  const { document } = await loadDocument([{ text: markdown }], baseDir, read, options.vars);
+  const { frontMatter, slides: specs, diagnostics } = document;
+  options.diagnostics?.push(...diagnostics);
+  throwIncludeErrors(diagnostics, "input");
+  if (specs.length === 0) {
+    throw new Txt2PptError("invalid-input", "No slides detected in the input.");
+  }
+  const renderOptions = await resolveRenderOptions(options, frontMatter, baseDir, baseDir);
+  const pptx = new PptxGenJS();
+  const transitions: Array<SlideTransition | undefined> = [];
+  const slideNames: Array<string | undefined> = [];
+  await renderSlides(pptx, specs, { ...renderOptions, resolveAsset: options.resolveAsset, transitions, slideNames });
+  const output = await writePresentation(pptx, transitions, slideNames);
+  return options.output === "uint8array" ? new Uint8Array(output) : output;
+}
+
+/** The deck as .pptx bytes, with the slide transitions and names added that PptxGenJS cannot write. */
+async function writePresentation(
+  pptx: PptxGenJS,
+  transitions: Array<SlideTransition | undefined>,
+  slideNames: Array<string | undefined>
+): Promise<Buffer> {
+  let output = (await pptx.write({ outputType: "nodebuffer" })) as Buffer;
+  if (transitions.some(Boolean)) {
+    output = await addTransitions(output, transitions);
+  }
+  return slideNames.some(Boolean) ? nameSlides(output, slideNames) : output;
+}
+
+/** A `fresh` area starts an empty slide, where blocks must split rather than wait for the next one. */
+function layoutBlocks(
+  slide: PptxGenJS.Slide,
+  queue: Block[],
+  area: LayoutArea,
+  context: RenderContext,
+  fresh = true
+): { cursor: number; consumed: boolean; pageBreak: boolean } {
+  const { blockGap } = context.theme.spacing;
+  let cursor = area.y;
+  let consumed = false;
+  let pageBreak = false;
+
+  while (queue.length > 0) {
+    const block = queue[0];
+    const first = fresh && !consumed;
+    if (block.type === "break") {
+      queue.shift();
+      // A break with nothing above it on the slide has nothing to end.
+      if (first) {
+        continue;
+      }
+      pageBreak = true;
+      break;
+    }
+    if (block.type === "keep") {
+      if (!first && !fitsInArea(block.blocks, { ...area, y: cursor }, context)) {
+        break;
+      }
+      // Kept blocks that fit, or that start the area and so cannot fit better elsewhere, are laid out as usual.
+      queue.splice(0, 1, ...block.blocks);
+      continue;
+    }
+    const dims: RenderDimensions = {
+      x: area.x,
+      y: cursor,
+      width: area.width,
+      availableHeight: area.safeBottom - cursor,
+      safeBottom: area.safeBottom,
+      first
+    };
+
+    const result = renderBlock(slide, block, dims, context);
+
+    if (result.kind === "defer") {
+      break;
+    }
+
+    queue.shift();
+    consumed = true;
+
+    if (result.kind === "split") {
+      queue.unshift(result.remainder);
+    }
+
+    cursor = result.nextCursor + blockGap;
+    if (cursor >= area.safeBottom - blockGap) {
+      break;
+    }
+  }
+
+  // A break right where the area fills up ends it all the same.
+  if (!pageBreak && consumed && queue[0]?.type === "break") {
+    queue.shift();
+    pageBreak = true;
+  }
+  return { cursor, consumed, pageBreak };
+}
+
+/** Space left under the blocks, for `>align: middle|bottom`; zero when they overflow the area. */
+function freeBodySpace(queue: Block[], area: LayoutArea, context: RenderContext): number {
+  const probe = blocksBeforeBreak(queue);
+  const { cursor } = layoutBlocks(new PptxGenJS().addSlide(), probe, area, context);
+  if (probe.length > 0) {
+    return 0;
+  }
+  // A thousandth of an inch less, so that rounding errors cannot make the last block miss the space by a hair.
+  return Math.max(area.safeBottom - (cursor - context.theme.spacing.blockGap) - 0.001, 0);
+}
+
+/** Whether the blocks, up to a page break, fit in the area below other content. */
+function fitsInArea(blocks: Block[], area: LayoutArea, context: RenderContext): boolean {
+  const probe = blocksBeforeBreak(blocks);
+  layoutBlocks(new PptxGenJS().addSlide(), probe, area, context, false);
+  return probe.length === 0;
+}
+
+/** For `overflow: shrink`: scales text down until the blocks fit, but not below `MIN_SHRINK_SCALE`. */
+function shrinkToFit(queue: Block[], area: LayoutArea, context: RenderContext): RenderContext {
+  const steps = Math.round((1 - MIN_SHRINK_SCALE) / SHRINK_STEP);
+  let scaled = context;
+  for (let step = 0; step <= steps; step += 1) {
+    const fontScale = 1 - step * SHRINK_STEP;
+    scaled = step === 0 ? context : { ...context, theme: styleTheme(context.theme, { fontScale }) };
+    const probe = blocksBeforeBreak(queue);
+    layoutBlocks(new PptxGenJS().addSlide(), probe, area, scaled);
+    if (probe.length === 0) {
+      return scaled;
+    }
+  }
+  return scaled;
+}
+
+/** The queue up to its first page break; a break at the head is skipped by `layoutBlocks` and so ignored. */
+function blocksBeforeBreak(queue: Block[]): Block[] {
+  const end = queue.findIndex((block, index) => index > 0 && block.type === "break");
+  return end < 0 ? [...queue] : queue.slice(0, end);
+}
+
+function resolveAssetPath(assetPath: string, baseDir: string): string {
+  return REMOTE_PATH_REGEX.test(assetPath) ? assetPath : path.resolve(baseDir, assetPath);
+}
+
+/** Image options for a resolved path: the resolver's bytes when it supplied them, else the path. */
+function assetSource(resolvedPath: string, context: RenderContext): { path: string; data?: string } {
+  const data = context.assets.get(resolvedPath);
+  return data ? imageSource(data) : { path: resolvedPath };
+}
+
+/** Points master logos and background images at absolute paths or the resolver's bytes. */
+function withMasterAssets(theme: Theme, context: RenderContext): Theme {
+  const resolve = (assetPath: string): string => {
+    const resolved = resolveAssetPath(assetPath, context.baseDir);
+    return context.assets.get(resolved) ?? resolved;
+  };
+  const withAssets = (master: MasterSpec): MasterSpec => {
+    const copy = { ...master };
+    if (copy.logo) {
+      copy.logo = { ...copy.logo, path: resolve(copy.logo.path) };
+    }
+    if (copy.backgroundImage) {
+      copy.backgroundImage = resolve(copy.backgroundImage);
+    }
+    return copy;
+  };
+  return {
+    ...theme,
+    masterDefaults: withAssets(theme.masterDefaults),
+    masters: Object.fromEntries(Object.entries(theme.masters).map(([name, master]) => [name, withAssets(master)]))
+  };
+}
+
+/** Reports all missing images in one error; supplied and downloaded images are kept as data URIs. */
+async function loadImages(
+  specs: SlideSpec[],
+  options: RenderOptions,
+  theme: Theme,
+  baseDir: string
+): Promise<{ images: Map<string, ImageDimensions | undefined>; assets: Map<string, string> }> {
+  const images = new Map<string, ImageDimensions | undefined>();
+  const assets = new Map<string, string>();
+  const missing: string[] = [];
+
+  const check = async (
+    assetPath: string,
+    where: string,
+    kind: AssetRequest["kind"],
+    source?: { position?: SourcePosition; slide: number }
+  ): Promise<void> => {
+    const measure = kind === "image";
+    const resolved = resolveAssetPath(assetPath, baseDir);
+    if (assetPath.startsWith("data:") || images.has(resolved)) {
+      return;
+    }
+    // `failure` is why a download failed; without it the file does not exist.
+    const report = (failure?: string): void => {
+      const problem = failure
+        ? `Image could not be downloaded: ${assetPath} (${failure})`
+        : `Image file not found: ${assetPath}`;
+      if (options.diagnostics) {
+        options.diagnostics.push({
+          severity: "error",
+          code: "missing-image",
+          message: source ? problem : `${problem} (${where})`,
+          ...source?.position,
+          slide: source?.slide
+        });
+      } else {
+        missing.push(failure ? `${assetPath} (${where}): download failed (${failure})` : `${assetPath} (${where})`);
+      }
+    };
+    let supplied = await options.resolveAsset?.({ path: assetPath, resolvedPath: resolved, kind });
+    if (!supplied && URL_REGEX.test(assetPath)) {
+      try {
+        supplied = await downloadImage(assetPath);
+      } catch (error) {
+        const { message, cause } = error as Error & { cause?: Error };
+        report(cause?.message ?? message);
+        return;
+      }
+    }
+    if (supplied) {
+      const buffer = Buffer.from(supplied);
+      const type = detectImageType(buffer) ?? `image/${path.extname(assetPath).slice(1).toLowerCase() || "png"}`;
+      assets.set(resolved, `data:${type};base64,${buffer.toString("base64")}`);
+      images.set(resolved, measure ? parseImageDimensions(buffer) : undefined);
+      return;
+    }
+    options.dependencies?.add(resolved);
+    try {
+      const stats = await fs.stat(resolved);
+      if (!stats.isFile()) {
+        throw new Error("not a file");
+      }
+    } catch {
+      report();
+      return;
+    }
+    images.set(resolved, measure ? await readImageDimensions(resolved) : undefined);
+  };
+
+  for (const [slideIndex, spec] of specs.entries()) {
+    for (const block of walkBlocks(spec.blocks)) {
+      if (block.type === "image") {
+        await check(block.path, describeLocation(slideIndex, spec, block.position), "image", {
+          position: block.position,
+          slide: slideIndex + 1
+        });
+      }
+    }
+    if (spec.background) {
+      const where = `background of ${describeLocation(slideIndex, spec, spec.backgroundPosition)}`;
+      await check(spec.background, where, "background", {
+        position: spec.backgroundPosition,
+        slide: slideIndex + 1
+      });
+    }
+  }
+  if (options.defaultBackground) {
+    await check(options.defaultBackground, "default background", "background");
+  }
+  for (const [name, master] of Object.entries({ defaults: theme.masterDefaults, ...theme.masters })) {
+    if (master.logo) {
+      await check(master.logo.path, `logo of master "${name}"`, "logo");
+    }
+    if (master.backgroundImage) {
+      await check(master.backgroundImage, `background of master "${name}"`, "background");
+    }
+  }
+
+  if (missing.length > 0) {
+    throw new MissingAssetError(missing);
+  }
+  return { images, assets };
+}
+
+/** Fetches an `http(s):` image; network errors, error statuses and timeouts reject. */
+async function downloadImage(url: string): Promise<Buffer> {
+  const response = await fetch(url, { signal: AbortSignal.timeout(REMOTE_IMAGE_TIMEOUT_MS) });
+  if (!response.ok) {
+    throw new Error(`HTTP ${response.status}`);
+  }
+  return Buffer.from(await response.arrayBuffer());
+}
+
+async function loadChartData(
+  specs: SlideSpec[],
+  options: RenderOptions,
+  baseDir: string
+): Promise<Map<string, ChartTable>> {
+  const tables = new Map<string, ChartTable>();
+  const problems: string[] = [];
+
+  for (const [slideIndex, spec] of specs.entries()) {
+    for (const block of walkBlocks(spec.blocks)) {
+      if (block.type !== "chart" || !block.chart.source) {
+        continue;
+      }
+      const source = block.chart.source;
+      const resolved = path.resolve(baseDir, source);
+      options.dependencies?.add(resolved);
+      if (tables.has(resolved)) {
+        continue;
+      }
+      const fail = (code: DiagnosticCode, message: string): void => {
+        if (options.diagnostics) {
+          options.diagnostics.push({ severity: "error", code, message, ...block.position, slide: slideIndex + 1 });
+        } else {
+          problems.push(`${message} (${describeLocation(slideIndex, spec, block.position)})`);
+        }
+      };
+      let text: string;
+      try {
+        const supplied = await options.resolveAsset?.({ path: source, resolvedPath: resolved, kind: "chart-data" });
+        text = supplied ? Buffer.from(supplied).toString("utf8") : await fs.readFile(resolved, "utf8");
+      } catch {
+        fail("missing-chart-data", `Chart data file not found: ${source}`);
+        continue;
+      }
+      try {
+        const table = parseChartData(text, source);
+        toChartData(block.chart.kind, table);
+        tables.set(resolved, table);
+      } catch (error) {
+        fail("invalid-chart", (error as Error).message);
+      }
+    }
+  }
+
+  if (problems.length > 0) {
+    const message = `Chart data could not be loaded:\n${problems.map(entry => `  - ${entry}`).join("\n")}`;
+    throw new Txt2PptError("invalid-chart-data", message);
+  }
+  return tables;
+}
+
+/** Every block of a slide, including those nested in columns and `:::keep`, in source order. */
+function* walkBlocks(blocks: Block[]): Generator<Block> {
+  for (const block of blocks) {
+    yield block;
+    if (block.type === "columns") {
+      for (const column of block.columns) {
+        yield* walkBlocks(column.blocks);
+      }
+    } else if (block.type === "keep") {
+      yield* walkBlocks(block.blocks);
+    }
+  }
+}
+
+function describeLocation(slideIndex: number, spec: SlideSpec, position?: SourcePosition): string {
+  return `slide ${slideIndex + 1} "${spec.title}"${position ? `, line ${position.line}` : ""}`;
+}
+
+function slideSize(pptx: PptxGenJS): SlideSize {
+  const width =
+    pptx.presLayout.width > 1000
+      ? pptx.presLayout.width / EMU_PER_INCH
+      : pptx.presLayout.width;
+  const height =
+    pptx.presLayout.height > 1000
+      ? pptx.presLayout.height / EMU_PER_INCH
+      : pptx.presLayout.height;
+
+  return { width, height };
+}
+
+function computeSafeArea(size: SlideSize, theme: Theme): { width: number; bottom: number } {
+  return {
+    width: size.width - theme.spacing.marginX * 2,
+    bottom: size.height - theme.spacing.marginBottom
+  };
+}
+
+/** Title and section masters centre the heading vertically. */
+function computeTitleFrame(
+  master: MasterSpec,
+  theme: Theme,
+  size: SlideSize,
+  hasSubtitle: boolean
+): { titleY: number; subtitleY: number; bodyTop: number } {
+  const { spacing } = theme;
+  if (master.titlePosition !== "middle") {
+    return { titleY: spacing.titleY, subtitleY: spacing.subtitleY, bodyTop: spacing.bodyTop };
+  }
+  const headingHeight = spacing.titleHeight + (hasSubtitle ? spacing.subtitleHeight : 0);
+  const titleY = (size.height - headingHeight) / 2;
+  const subtitleY = titleY + spacing.titleHeight;
+  return {
+    titleY,
+    subtitleY,
+    bodyTop: titleY + headingHeight + spacing.blockGap
+  };
+}
+
+function textStyleOptions(style: TextStyle, lang: string): PptxGenJS.TextPropsOptions {
+  return {
+    fontFace: style.fontFace,
+    fontSize: style.fontSize,
+    color: style.color,
+    bold: style.bold,
+    italic: style.italic,
+    lang
+  };
+}
+
+function inlineStyle(theme: Theme): InlineStyleOptions {
+  return { codeFont: theme.code.fontFace, linkColor: theme.palette.accents[0] };
+}
+
+function toCharacterCode(glyph: string): string {
+  return (glyph.codePointAt(0) ?? 0x2022).toString(16).toUpperCase().padStart(4, "0");
+}
+
+function renderBlock(
+  slide: PptxGenJS.Slide,
+  block: Block,
+  dims: RenderDimensions,
+  context: RenderContext
 ): RenderResult {
   switch (block.type) {
     case "paragraph":
-      return renderParagraph(slide, block, dims);
+      return renderParagraph(slide, block, dims, context);
     case "bullets":
-      return renderBullets(slide, block, dims);
+      return renderBullets(slide, block, dims, context);
     case "image":
-      return renderImage(slide, block, dims);
+      return renderImage(slide, block, dims, context);
     case "code":
-      return renderCode(slide, block, dims);
+      return renderCode(slide, block, dims, context);
     case "table":
-      return renderTable(slide, block, dims);
+      return renderTable(slide, block, dims, context);
+    case "columns":
+      return renderColumns(slide, block, dims, context);
+    case "chart":
+      return renderChart(slide, block, dims, context);
+    case "diagram":
+      return renderDiagram(slide, block, dims, context);
     default:
       return { kind: "rendered", nextCursor: dims.y };
   }
@@ -516,98 +1912,137 @@ function renderBlock(
 function renderParagraph(
   slide: PptxGenJS.Slide,
   block: Extract<Block, { type: "paragraph" }>,
-  dims: RenderDimensions
+  dims: RenderDimensions,
+  context: RenderContext
 ): RenderResult {
-  const lines = block.text.split(/\n/);
-  const neededHeight = Math.max(lines.length * LINE_HEIGHT, MIN_BLOCK_HEIGHT);
-
-  if (neededHeight <= dims.availableHeight) {
-    slide.addText(block.text, {
+  const { theme } = context;
+  const { minBlockHeight } = theme.spacing;
+  const metrics = textMetrics(theme.body);
+  const offsets = lineStartOffsets(block.text, dims.width - TEXT_INSET_X * 2, metrics);
+  const neededHeight = Math.max(textBoxHeight(offsets.length, metrics), minBlockHeight);
+  const textOptions = { ...textStyleOptions(theme.body, context.lang), align: context.textAlign };
+
+  if (neededHeight <= dims.availableHeight || (offsets.length === 1 && dims.force)) {
+    slide.addText(toTextProps(block.runs, textOptions, inlineStyle(theme)), {
       x: dims.x,
       y: dims.y,
       w: dims.width,
-      h: Math.max(neededHeight, MIN_BLOCK_HEIGHT),
-      fontFace: DEFAULT_FONT,
-      fontSize: 20,
-      lineSpacing: 28,
-      fit: "shrink",
-      lang: DEFAULT_LANG
+      h: neededHeight,
+      ...textOptions,
+      lineSpacing: theme.body.lineSpacing,
+      fit: "shrink"
     });
     return { kind: "rendered", nextCursor: dims.y + neededHeight };
   }
 
-  if (dims.availableHeight < MIN_BLOCK_HEIGHT) {
+  const fitLines = linesThatFit(dims.availableHeight, metrics);
+  const headLines =
+    splitPoint(offsets.length, fitLines, context.pagination, !!(dims.first || dims.force)) || (dims.force ? 1 : 0);
+  if (dims.availableHeight < minBlockHeight || headLines === 0) {
     return { kind: "defer" };
   }
 
-  const maxLines = Math.max(Math.floor(dims.availableHeight / LINE_HEIGHT) - 1, 1);
-  const head = lines.slice(0, maxLines).join("\n");
-  const tail = lines.slice(maxLines).join("\n");
+  const splitOffset = offsets[headLines];
+  const head = sliceRuns(block.runs, 0, splitOffset);
+  const tail = sliceRuns(block.runs, splitOffset);
 
-  slide.addText(head, {
+  slide.addText(toTextProps(trimRuns(head), textOptions, inlineStyle(theme)), {
     x: dims.x,
     y: dims.y,
     w: dims.width,
-    h: Math.max(dims.availableHeight, MIN_BLOCK_HEIGHT),
-    fontFace: DEFAULT_FONT,
-    fontSize: 20,
-    lineSpacing: 28,
-    fit: "shrink",
-    lang: DEFAULT_LANG
+    h: Math.max(dims.availableHeight, minBlockHeight),
+    ...textOptions,
+    lineSpacing: theme.body.lineSpacing,
+    fit: "shrink"
   });
 
   return {
     kind: "split",
     nextCursor: dims.y + dims.availableHeight,
-    remainder: { type: "paragraph", text: tail.trimStart() }
+    remainder: createParagraph(trimRuns(tail))
   };
 }
 
 function renderBullets(
   slide: PptxGenJS.Slide,
   block: Extract<Block, { type: "bullets" }>,
-  dims: RenderDimensions
+  dims: RenderDimensions,
+  context: RenderContext
 ): RenderResult {
+  const { theme } = context;
+  const { minBlockHeight } = theme.spacing;
   if (block.items.length === 0) {
     return { kind: "rendered", nextCursor: dims.y };
   }
 
-  const neededHeight = Math.max(block.items.length * BULLET_LINE_HEIGHT, MIN_BLOCK_HEIGHT);
+  const metrics = textMetrics(theme.bullet);
+  const itemHeights = block.items.map(item => {
+    const textWidth = dims.width - (item.indentLevel + 1) * BULLET_INDENT;
+    return countWrappedLines(item.text, textWidth, metrics) * lineHeightInches(metrics);
+  });
+  const totalHeight = itemHeights.reduce((sum, height) => sum + height, 0);
+  const neededHeight = Math.max(totalHeight, minBlockHeight);
 
-  if (neededHeight > dims.availableHeight && dims.availableHeight < MIN_BLOCK_HEIGHT) {
+  if (neededHeight > dims.availableHeight && dims.availableHeight < minBlockHeight) {
     return { kind: "defer" };
   }
 
-  const maxItems =
-    neededHeight <= dims.availableHeight
-      ? block.items.length
-      : Math.max(Math.floor(dims.availableHeight / BULLET_LINE_HEIGHT) - 1, 1);
-
-  const renderItems: PptxGenJS.TextProps[] = block.items.slice(0, maxItems).map(item => ({
-    text: item.text,
-    options: {
-      bullet: item.bulletType === "number" ? { type: "number" } : true,
-      indentLevel: item.indentLevel,
-      fontFace: DEFAULT_FONT,
-      fontSize: 20,
-      lineSpacing: 24,
-      lang: DEFAULT_LANG,
-      breakLine: true
+  let maxItems = 0;
+  let usedHeight = 0;
+  while (maxItems < block.items.length && usedHeight + itemHeights[maxItems] <= dims.availableHeight) {
+    usedHeight += itemHeights[maxItems];
+    maxItems += 1;
+  }
+  if (maxItems < block.items.length) {
+    const first = !!(dims.first || dims.force);
+    maxItems = splitPoint(block.items.length, maxItems, context.pagination, first, listSplitTests(block.items));
+    if (maxItems === 0) {
+      if (!dims.force) {
+        return { kind: "defer" };
+      }
+      maxItems = 1;
     }
-  }));
+    usedHeight = itemHeights.slice(0, maxItems).reduce((sum, height) => sum + height, 0);
+  }
 
+  const renderItems: PptxGenJS.TextProps[] = block.items.slice(0, maxItems).flatMap(item => {
+    const itemRuns = item.runs.length > 0 ? item.runs : [{ text: item.text }];
+    // A numbered task keeps its number and shows the box in front of the text.
+    const box = item.checked === undefined ? undefined : item.checked ? TASK_BOXES.done : TASK_BOXES.open;
+    const runs = toSoftBreaks(
+      toTextProps(
+        box && item.bulletType === "number" ? [{ text: `${box} ` }, ...itemRuns] : itemRuns,
+        { ...textStyleOptions(theme.bullet, context.lang), lineSpacing: theme.bullet.lineSpacing },
+        inlineStyle(theme)
+      )
+    );
+    runs[0].options = {
+      ...runs[0].options,
+      bullet:
+        item.bulletType === "number"
+          ? // PptxGenJS reads the scheme from `style`, not from `numberType`.
+            { type: "number", style: AUTO_NUMBER_TYPES[item.numberStyle ?? "decimal"], numberStartAt: item.number }
+          : { characterCode: toCharacterCode(box ?? bulletGlyph(theme, item.indentLevel)) },
+      indentLevel: item.indentLevel
+    };
+    runs[runs.length - 1].options = { ...runs[runs.length - 1].options, breakLine: true };
+    return runs;
+  });
+
+  const boxHeight = Math.max(usedHeight, minBlockHeight);
   slide.addText(renderItems, {
     x: dims.x,
     y: dims.y,
     w: dims.width,
-    h: Math.max(Math.min(neededHeight, dims.availableHeight), MIN_BLOCK_HEIGHT),
-    lineSpacing: 24,
+    h: boxHeight,
+    lineSpacing: theme.bullet.lineSpacing,
     margin: 0.1,
-    lang: DEFAULT_LANG
+    align: context.textAlign,
+    lang: context.lang
   });
 
   if (maxItems === block.items.length) {
-    return { kind: "rendered", nextCursor: dims.y + Math.min(neededHeight, dims.availableHeight) };
+    return { kind: "rendered", nextCursor: dims.y + boxHeight };
   }
 
   return {
@@ -620,104 +2055,468 @@ function renderBullets(
 function renderImage(
   slide: PptxGenJS.Slide,
   block: Extract<Block, { type: "image" }>,
-  dims: RenderDimensions
+  dims: RenderDimensions,
+  context: RenderContext
 ): RenderResult {
+  const { theme } = context;
+  const { minBlockHeight } = theme.spacing;
   const available = Math.max(dims.availableHeight, 0);
-  if (available < MIN_BLOCK_HEIGHT) {
+  if (available < minBlockHeight && !dims.force) {
     return { kind: "defer" };
   }
 
-  const height = Math.max(Math.min(MAX_IMAGE_HEIGHT, available), MIN_BLOCK_HEIGHT);
-  const sizingType: "cover" | "contain" = block.sizing === "cover" ? "cover" : "contain";
+  const imagePath = resolveAssetPath(block.path, context.baseDir);
+  const intrinsic = context.images.get(imagePath);
+  const box = computeImageBox(block.size, intrinsic, dims.width, available);
+
+  if (box.height > available) {
+    const shrinkable = !block.size && available >= Math.max(minBlockHeight, box.height / 2);
+    if (!shrinkable && !dims.force) {
+      return { kind: "defer" };
+    }
+    const scale = available / box.height;
+    box.height = available;
+    box.width = box.stretched ? box.width : box.width * scale;
+  }
 
+  const sizingType: "cover" | "contain" = block.sizing === "cover" ? "cover" : "contain";
   slide.addImage({
-    path: block.path,
+    ...assetSource(imagePath, context),
     altText: block.alt || undefined,
-    x: dims.x,
+    x: dims.x + (dims.width - box.width) / 2,
     y: dims.y,
-    w: dims.width,
-    h: height,
-    sizing: { type: sizingType, w: dims.width, h: height }
+    w: box.width,
+    h: box.height,
+    sizing:
+      block.sizing || box.stretched ? { type: sizingType, w: box.width, h: box.height } : undefined
   });
 
+  return { kind: "rendered", nextCursor: dims.y + box.height };
+}
+
+/** Without a `height`, a chart may shrink to half its height before it moves to the next slide. */
+function renderChart(
+  slide: PptxGenJS.Slide,
+  block: Extract<Block, { type: "chart" }>,
+  dims: RenderDimensions,
+  context: RenderContext
+): RenderResult {
+  const { chart } = block;
+  const { minBlockHeight } = context.theme.spacing;
+  const available = Math.max(dims.availableHeight, 0);
+  const wanted = chart.height ?? DEFAULT_CHART_HEIGHT;
+  let height = wanted;
+  if (wanted > available) {
+    const shrinkable = chart.height === undefined && available >= Math.max(minBlockHeight, wanted / 2);
+    if (!shrinkable && !dims.force) {
+      return { kind: "defer" };
+    }
+    height = available;
+  }
+
+  const table = chart.source ? context.chartData.get(path.resolve(context.baseDir, chart.source)) : chart.data;
+  if (table) {
+    slide.addChart(chart.kind, toChartData(chart.kind, table), {
+      x: dims.x,
+      y: dims.y,
+      w: dims.width,
+      h: height,
+      ...toChartOptions({ ...chart, data: table }, context.theme, context.lang),
+      altText: chart.title
+    });
+  }
+
+  return { kind: "rendered", nextCursor: dims.y + height };
+}
+
+function renderDiagram(
+  slide: PptxGenJS.Slide,
+  block: Extract<Block, { type: "diagram" }>,
+  dims: RenderDimensions,
+  context: RenderContext
+): RenderResult {
+  const { minBlockHeight } = context.theme.spacing;
+  const available = Math.max(dims.availableHeight, 0);
+  const wanted = naturalDiagramHeight(block.diagram);
+  let height = wanted;
+  if (wanted > available) {
+    if (available < Math.max(minBlockHeight, wanted / 2) && !dims.force) {
+      return { kind: "defer" };
+    }
+    height = Math.max(available, minBlockHeight);
+  }
+
+  const layout = layoutDiagram(block.diagram, dims.width, height);
+  drawDiagram(slide, layout, dims.x, dims.y, context.theme, context.lang);
   return { kind: "rendered", nextCursor: dims.y + height };
 }
 
+/** Without hints, the natural size (96 dpi) is scaled down to the width and MAX_IMAGE_HEIGHT. */
+function computeImageBox(
+  hint: ImageSizeHint | undefined,
+  intrinsic: ImageDimensions | undefined,
+  maxWidth: number,
+  availableHeight: number
+): { width: number; height: number; stretched: boolean } {
+  const aspect = intrinsic && intrinsic.width > 0 ? intrinsic.height / intrinsic.width : undefined;
+  let width = hint?.width ? toInches(hint.width, maxWidth) : undefined;
+  let height = hint?.height ? toInches(hint.height, availableHeight) : undefined;
+
+  if (width !== undefined && height !== undefined) {
+    const scale = Math.min(maxWidth / width, 1);
+    return { width: width * scale, height: height * scale, stretched: true };
+  }
+
+  if (!aspect) {
+    return { width: width ?? maxWidth, height: height ?? MAX_IMAGE_HEIGHT, stretched: true };
+  }
+
+  if (width === undefined && height === undefined) {
+    width = Math.min(intrinsic!.width / PIXELS_PER_INCH, maxWidth);
+    height = width * aspect;
+    if (height > MAX_IMAGE_HEIGHT) {
+      height = MAX_IMAGE_HEIGHT;
+      width = height / aspect;
+    }
+    return { width, height, stretched: false };
+  }
+
+  if (width === undefined) {
+    width = height! / aspect;
+  }
+  width = Math.min(width, maxWidth);
+  return { width, height: width * aspect, stretched: false };
+}
+
+function toInches(length: ImageLength, reference: number): number {
+  switch (length.unit) {
+    case "in":
+      return length.value;
+    case "cm":
+      return length.value / 2.54;
+    case "%":
+      return (reference * length.value) / 100;
+    default:
+      return length.value / PIXELS_PER_INCH;
+  }
+}
+
 function renderCode(
   slide: PptxGenJS.Slide,
   block: Extract<Block, { type: "code" }>,
-  dims: RenderDimensions
+  dims: RenderDimensions,
+  context: RenderContext
 ): RenderResult {
+  const { theme } = context;
+  const { minBlockHeight } = theme.spacing;
+  const metrics = textMetrics(theme.code, true);
+  const textWidth = dims.width - TEXT_INSET_X * 2;
   const lines = block.text.split(/\n/);
-  const neededHeight = Math.max(lines.length * CODE_LINE_HEIGHT + 0.2, MIN_BLOCK_HEIGHT);
+  const firstLine = block.firstLine ?? 1;
+  const gutter = codeGutter(block, firstLine + lines.length - 1);
+  const lineCounts = lines.map((line, index) => wrapLine(gutter(index) + line, textWidth, metrics).length);
+  const totalLines = lineCounts.reduce((sum, count) => sum + count, 0);
+  const neededHeight = Math.max(textBoxHeight(totalLines, metrics), minBlockHeight);
 
-  if (neededHeight > dims.availableHeight && dims.availableHeight < MIN_BLOCK_HEIGHT) {
+  if (neededHeight > dims.availableHeight && dims.availableHeight < minBlockHeight) {
     return { kind: "defer" };
   }
 
   const fits = neededHeight <= dims.availableHeight;
-  const lineLimit = fits
-    ? lines.length
-    : Math.max(Math.floor((dims.availableHeight - 0.2) / CODE_LINE_HEIGHT) - 1, 1);
-  const head = lines.slice(0, lineLimit).join("\n");
+  const fitLines = linesThatFit(dims.availableHeight, metrics);
+  let lineLimit = lines.length;
+  if (!fits) {
+    lineLimit = 0;
+    let used = 0;
+    while (lineLimit < lines.length && used + lineCounts[lineLimit] <= fitLines) {
+      used += lineCounts[lineLimit];
+      lineLimit += 1;
+    }
+    lineLimit = splitPoint(lines.length, lineLimit, context.pagination, !!(dims.first || dims.force));
+    if (lineLimit === 0) {
+      if (!dims.force) {
+        return { kind: "defer" };
+      }
+      lineLimit = 1;
+    }
+  }
+
+  const height = fits ? neededHeight : Math.max(dims.availableHeight, minBlockHeight);
+  const tokenLines = block.tokens ?? highlightCode(block.text, block.language);
+  const highlighted = new Set(block.highlight ?? []);
+  const hasHighlight = lines.slice(0, lineLimit).some((_, index) => highlighted.has(firstLine + index));
+  if (hasHighlight) {
+    // Highlight bars have to sit between the code background and the text, so the background
+    // is drawn as its own shape instead of as the text box fill.
+    slide.addShape("rect", { x: dims.x, y: dims.y, w: dims.width, h: height, fill: { color: theme.code.fill } });
+    const lineHeight = lineHeightInches(metrics);
+    let visualLine = 0;
+    lineCounts.slice(0, lineLimit).forEach((count, index) => {
+      if (highlighted.has(firstLine + index)) {
+        slide.addShape("rect", {
+          x: dims.x,
+          y: dims.y + TEXT_INSET_Y + visualLine * lineHeight,
+          w: dims.width,
+          h: count * lineHeight,
+          fill: { color: theme.syntax.highlight }
+        });
+      }
+      visualLine += count;
+    });
+  }
 
-  slide.addText(head, {
+  slide.addText(codeTextProps(tokenLines.slice(0, lineLimit), gutter, theme), {
     x: dims.x,
     y: dims.y,
     w: dims.width,
-    h: Math.max(Math.min(neededHeight, dims.availableHeight), MIN_BLOCK_HEIGHT),
-    fontFace: CODE_FONT,
-    fontSize: 16,
-    lineSpacing: 20,
-    color: "202020",
-    fill: { color: "F2F2F2" },
-    fit: "shrink",
-    lang: DEFAULT_LANG
+    h: height,
+    ...textStyleOptions(theme.code, context.lang),
+    lineSpacing: theme.code.lineSpacing,
+    fill: hasHighlight ? undefined : { color: theme.code.fill },
+    valign: hasHighlight ? "top" : undefined,
+    fit: "shrink"
   });
 
   if (fits) {
-    return { kind: "rendered", nextCursor: dims.y + Math.min(neededHeight, dims.availableHeight) };
+    return { kind: "rendered", nextCursor: dims.y + neededHeight };
   }
 
   return {
     kind: "split",
     nextCursor: dims.y + dims.availableHeight,
     remainder: {
-      type: "code",
-      text: lines.slice(lineLimit).join("\n").trimStart(),
-      language: block.language
+      ...block,
+      text: lines.slice(lineLimit).join("\n"),
+      firstLine: firstLine + lineLimit,
+      tokens: tokenLines.slice(lineLimit)
     }
   };
 }
 
+function codeGutter(block: Extract<Block, { type: "code" }>, lastLine: number): (index: number) => string {
+  if (block.lineNumbers === undefined) {
+    return () => "";
+  }
+  const offset = block.lineNumbers - 1;
+  const firstLine = block.firstLine ?? 1;
+  const width = String(lastLine + offset).length;
+  return index => `${String(firstLine + index + offset).padStart(width)}  `;
+}
+
+function codeTextProps(
+  tokenLines: CodeToken[][],
+  gutter: (index: number) => string,
+  theme: Theme
+): PptxGenJS.TextProps[] {
+  const props: PptxGenJS.TextProps[] = [];
+  tokenLines.forEach((tokens, index) => {
+    const runs: PptxGenJS.TextProps[] = [];
+    const prefix = gutter(index);
+    if (prefix) {
+      runs.push({ text: prefix, options: { color: theme.syntax.lineNumber } });
+    }
+    tokens.forEach(token => {
+      runs.push({
+        text: token.text,
+        options: token.kind === "plain" ? {} : { color: theme.syntax[token.kind], italic: token.kind === "comment" }
+      });
+    });
+    if (runs.length === 0) {
+      runs.push({ text: "", options: {} });
+    }
+    if (index < tokenLines.length - 1) {
+      runs[runs.length - 1].options = { ...runs[runs.length - 1].options, breakLine: true };
+    }
+    props.push(...runs);
+  });
+  return props;
+}
+
 function renderTable(
   slide: PptxGenJS.Slide,
   block: Extract<Block, { type: "table" }>,
-  dims: RenderDimensions
+  dims: RenderDimensions,
+  context: RenderContext
 ): RenderResult {
-  const neededHeight = Math.max(TABLE_BASE_HEIGHT + block.rows.length * TABLE_ROW_HEIGHT, MIN_BLOCK_HEIGHT);
+  const { theme } = context;
+  const { minBlockHeight } = theme.spacing;
+  const columnCount = Math.max(...block.rows.map(row => row.length), 1);
+  const rows = block.rows.map(row => Array.from({ length: columnCount }, (_, column) => row[column] ?? EMPTY_CELL));
+  const widths =
+    block.columnShares?.map(share => share * dims.width) ??
+    columnWidths(rows, dims.width, textMetrics(theme.table));
+  const spans = resolveSpans(rows);
+  const rowHeights = rows.map((row, rowIndex) => measureTableRow(row, spans[rowIndex], widths, theme));
+  const headerCount = block.header && rows.length > 0 ? 1 : 0;
+  const headerHeight = rowHeights.slice(0, headerCount).reduce((sum, height) => sum + height, 0);
+
+  let usedHeight = headerHeight;
+  let rowLimit = headerCount;
+  while (rowLimit < rows.length && usedHeight + rowHeights[rowLimit] <= dims.availableHeight) {
+    usedHeight += rowHeights[rowLimit];
+    rowLimit += 1;
+  }
 
-  if (neededHeight > dims.availableHeight && dims.availableHeight < MIN_BLOCK_HEIGHT) {
-    return { kind: "defer" };
+  if (rowLimit < rows.length) {
+    const bodyRows = rows.length - headerCount;
+    const first = !!(dims.first || dims.force);
+    const keepMerges = (index: number): boolean => canSplitBefore(rows[headerCount + index]);
+    let keptRows = splitPoint(bodyRows, rowLimit - headerCount, context.pagination, first, [keepMerges]);
+    if (keptRows === 0) {
+      if (!dims.force) {
+        return { kind: "defer" };
+      }
+      keptRows = Math.max(rowLimit - headerCount, 1);
+    }
+    rowLimit = headerCount + keptRows;
+    usedHeight = rowHeights.slice(0, rowLimit).reduce((sum, height) => sum + height, 0);
   }
 
-  const targetHeight = Math.max(Math.min(neededHeight, dims.availableHeight), MIN_BLOCK_HEIGHT);
-  const tableRows = block.rows.map(row => row.map(cell => ({ text: cell })));
+  const partRows = rows.slice(0, rowLimit);
+  const partSpans = resolveSpans(partRows);
+  const cellOptions = textStyleOptions(theme.table, context.lang);
+  const tableRows: PptxGenJS.TableRow[] = partRows.map((row, rowIndex) => {
+    const isHeader = rowIndex < headerCount;
+    const stripe = !isHeader && (rowIndex - headerCount) % 2 === 1;
+    const runOptions = isHeader ? { ...cellOptions, bold: true, color: theme.table.headerColor } : cellOptions;
+    // Cells covered by a merge are left out, as PptxGenJS expects.
+    return row.flatMap((cell, columnIndex) => {
+      const span = partSpans[rowIndex][columnIndex];
+      if (!span) {
+        return [];
+      }
+      const fill = isHeader ? theme.table.headerFill : stripe ? theme.table.stripeFill : undefined;
+      return [
+        {
+          text: toTextProps(cell.runs, runOptions, inlineStyle(theme)),
+          options: {
+            align: block.align[columnIndex],
+            ...(fill && { fill: { color: fill } }),
+            ...(span.colspan > 1 && { colspan: span.colspan }),
+            ...(span.rowspan > 1 && { rowspan: span.rowspan })
+          }
+        }
+      ];
+    });
+  });
 
+  const { borderWidth, borderColor } = theme.table;
   slide.addTable(tableRows, {
     x: dims.x,
     y: dims.y,
     w: dims.width,
-    fontFace: DEFAULT_FONT,
-    lang: DEFAULT_LANG
+    colW: widths,
+    rowH: rowHeights.slice(0, rowLimit),
+    fontFace: theme.table.fontFace,
+    fontSize: theme.table.fontSize,
+    color: theme.table.color,
+    border: borderWidth > 0 ? { type: "solid", pt: borderWidth, color: borderColor } : { type: "none" },
+    valign: "middle",
+    lang: context.lang
+  });
+
+  const nextCursor = dims.y + Math.max(usedHeight, minBlockHeight);
+  if (rowLimit >= rows.length) {
+    return { kind: "rendered", nextCursor };
+  }
+
+  // A merge cut by a forced split starts afresh as empty cells on the next slide.
+  const [nextRow, ...laterRows] = rows.slice(rowLimit);
+  const unmerged = nextRow.map(cell => (cell.merge === "up" ? EMPTY_CELL : cell));
+  return {
+    kind: "split",
+    nextCursor,
+    remainder: {
+      ...block,
+      rows: [...rows.slice(0, headerCount), unmerged, ...laterRows],
+      columnShares: widths.map(width => width / dims.width)
+    }
+  };
+}
+
+/** Cells merged down over several rows are left out. */
+function measureTableRow(
+  row: TableCell[],
+  spans: Array<CellSpan | undefined>,
+  widths: number[],
+  theme: Theme
+): number {
+  const metrics = textMetrics(theme.table);
+  const heights = row.map((cell, column) => {
+    const span = spans[column];
+    if (!span || span.rowspan > 1) {
+      return 0;
+    }
+    const width = widths.slice(column, column + span.colspan).reduce((sum, value) => sum + value, 0);
+    return measureTextHeight(cell.text, width, metrics);
+  });
+  return Math.max(...heights, textBoxHeight(1, metrics));
+}
+
+function textMetrics(style: TextStyle, monospace = false): TextMetricsOptions {
+  return { fontSize: style.fontSize, lineSpacing: style.lineSpacing, monospace };
+}
+
+function textBoxHeight(lineCount: number, metrics: TextMetricsOptions): number {
+  return lineCount * lineHeightInches(metrics) + TEXT_INSET_Y * 2;
+}
+
+/** Trims blank lines so that continuation parts start and end with text. */
+function trimRuns(runs: InlineRun[]): InlineRun[] {
+  const text = runsToPlainText(runs);
+  const start = text.length - text.trimStart().length;
+  const end = text.trimEnd().length;
+  return sliceRuns(runs, start, end);
+}
+
+function renderColumns(
+  slide: PptxGenJS.Slide,
+  block: Extract<Block, { type: "columns" }>,
+  dims: RenderDimensions,
+  context: RenderContext
+): RenderResult {
+  const { columnGap, blockGap } = context.theme.spacing;
+  if (block.columns.every(column => column.blocks.length === 0)) {
+    return { kind: "rendered", nextCursor: dims.y };
+  }
+
+  const totalRatio = block.columns.reduce((sum, column) => sum + column.ratio, 0);
+  const usableWidth = dims.width - columnGap * (block.columns.length - 1);
+  let x = dims.x;
+  let bottom = dims.y;
+  let consumed = false;
+
+  const remaining: ColumnSpec[] = block.columns.map(column => {
+    const width = (usableWidth * column.ratio) / totalRatio;
+    const queue = [...column.blocks];
+    const area = { x, y: dims.y, width, safeBottom: dims.safeBottom };
+    const result = layoutBlocks(slide, queue, area, context, !!(dims.first || dims.force));
+    x += width + columnGap;
+    if (result.consumed) {
+      consumed = true;
+      bottom = Math.max(bottom, result.cursor - blockGap);
+    }
+    return { ratio: column.ratio, blocks: queue };
   });
 
-  return { kind: "rendered", nextCursor: dims.y + targetHeight };
+  if (!consumed) {
+    return { kind: "defer" };
+  }
+
+  if (remaining.every(column => column.blocks.length === 0)) {
+    return { kind: "rendered", nextCursor: bottom };
+  }
+
+  return {
+    kind: "split",
+    nextCursor: dims.y + dims.availableHeight,
+    remainder: { type: "columns", columns: remaining }
+  };
 }
 
 function parseArguments(argv: string[]): CliOptions {
   const args = argv.slice(2);
-  const options: Partial<CliOptions> = { layout: "LAYOUT_16x9" };
+  const options: Partial<CliOptions> = {};
 
   for (let i = 0; i < args.length; i += 1) {
     const token = args[i];
@@ -726,22 +2525,34 @@ function parseArguments(argv: string[]): CliOptions {
     }
     const [flag, valueFromEquals] = token.split("=", 2);
     const flagName = flag.slice(2);
+    if (flagName === "watch" || flagName === "check" || flagName === "json") {
+      options[flagName] = true;
+      continue;
+    }
+    if (flagName === "title-slide") {
+      options.titleSlide = true;
+      continue;
+    }
+    if (flagName === "agenda") {
+      options.agenda = valueFromEquals ?? true;
+      continue;
+    }
     const value = valueFromEquals ?? args[++i];
     if (!value) {
       throw new Error(`Missing value for --${flagName}`);
     }
     switch (flagName) {
       case "in":
-        options.inPath = value;
+        options.inPaths = [...(options.inPaths ?? []), value];
         break;
       case "out":
         options.outPath = value;
         break;
+      case "format":
+        options.format = parseFormat(value);
+        break;
       case "layout":
-        if (!VALID_LAYOUTS.has(value as LayoutOption)) {
-          throw new Error(`Unsupported layout: ${value}`);
-        }
-        options.layout = value as LayoutOption;
+        options.layout = parseLayout(value);
         break;
       case "title":
         options.title = value;
@@ -752,40 +2563,190 @@ function parseArguments(argv: string[]): CliOptions {
       case "company":
         options.company = value;
         break;
+      case "subject":
+        options.subject = value;
+        break;
+      case "lang":
+        options.lang = value;
+        break;
       case "bg":
         options.background = value;
         break;
+      case "theme":
+        options.theme = value;
+        break;
+      case "template":
+        options.template = value;
+        break;
+      case "notes":
+        options.notes = parseNotesMode(value);
+        break;
+      case "overflow":
+        options.overflow = parseOverflow(value);
+        break;
+      case "orphans":
+      case "widows":
+        options[flagName] = parseLineCount(flagName, value);
+        break;
+      case "var": {
+        const [name, variable] = parseVariableAssignment(value);
+        options.vars = { ...options.vars, [name]: variable };
+        break;
+      }
+      case "data":
+        options.dataPath = value;
+        break;
       default:
         throw new Error(`Unknown option: --${flagName}`);
     }
   }
 
-  if (!options.inPath) {
+  if (!options.inPaths) {
     throw new Error("--in is required");
   }
+  if (options.check) {
+    return options as CliOptions;
+  }
   if (!options.outPath) {
     throw new Error("--out is required");
   }
-  if (!options.outPath.toLowerCase().endsWith(".pptx")) {
-    throw new Error("--out must point to a .pptx file");
+  const extension = path.extname(options.outPath).slice(1).toLowerCase();
+  if (options.format) {
+    if (extension !== options.format) {
+      throw new Error(`--out must point to a .${options.format} file`);
+    }
+  } else if (OUTPUT_FORMATS.includes(extension as OutputFormat)) {
+    options.format = extension as OutputFormat;
+  } else {
+    throw new Error("--out must point to a .pptx, .html or .json file");
   }
 
   return options as CliOptions;
 }
 
-async function validatePaths(opts: CliOptions): Promise<{ inPath: string; outPath: string }> {
-  const inPath = path.resolve(opts.inPath);
-  const outPath = path.resolve(opts.outPath);
+function parseFormat(value: string): OutputFormat {
+  if (!OUTPUT_FORMATS.includes(value as OutputFormat)) {
+    throw new Txt2PptError("invalid-option", `Unsupported format: ${value} (expected ${OUTPUT_FORMATS.join(", ")})`);
+  }
+  return value as OutputFormat;
+}
+
+function parseOverflow(value: string): OverflowMode {
+  if (!OVERFLOW_MODES.includes(value as OverflowMode)) {
+    throw new Txt2PptError("invalid-option", `Unsupported overflow: ${value} (expected ${OVERFLOW_MODES.join(", ")})`);
+  }
+  return value as OverflowMode;
+}
+
+function parseLineCount(name: string, value: string): number {
+  const count = Number(value);
+  if (!Number.isInteger(count) || count < 1) {
+    throw new Txt2PptError("invalid-option", `${name} must be a whole number of at least 1, not ${value}`);
+  }
+  return count;
+}
+
+function parseLayout(value: string): LayoutOption {
+  if (!VALID_LAYOUTS.has(value as LayoutOption)) {
+    throw new Txt2PptError("invalid-option", `Unsupported layout: ${value}`);
+  }
+  return value as LayoutOption;
+}
 
+/** Front matter paths are relative to `sourceDir` and settings paths to `settingsDir`; settings win. */
+async function resolveRenderOptions(
+  settings: RenderSettings,
+  frontMatter: FrontMatter,
+  sourceDir: string,
+  settingsDir: string,
+  dependencies?: Set<string>
+): Promise<RenderOptions> {
+  let theme: Theme | undefined;
   try {
-    const stats = await fs.stat(inPath);
-    if (!stats.isFile()) {
-      throw new Error(`${inPath} is not a file`);
+    if (typeof settings.theme === "object") {
+      theme = await themeFromInput(settings.theme, settingsDir, dependencies);
+    } else if (settings.theme) {
+      theme = await loadTheme(settings.theme, settingsDir, dependencies);
+    } else if (frontMatter.theme) {
+      theme = await loadTheme(frontMatter.theme, sourceDir, dependencies);
     }
   } catch (error) {
-    throw new Error(`Failed to read input file: ${(error as Error).message}`);
+    throw new Txt2PptError("invalid-theme", (error as Error).message);
   }
+  const lang = settings.lang ?? frontMatter.lang;
+
+  // The template's colours, fonts and master images take precedence over the theme.
+  const templatePath = settings.template
+    ? path.resolve(settingsDir, settings.template)
+    : frontMatter.template
+      ? path.resolve(sourceDir, frontMatter.template)
+      : undefined;
+  let template: TemplateInfo | undefined;
+  if (templatePath) {
+    dependencies?.add(templatePath);
+    try {
+      template = await loadTemplate(templatePath, lang ?? DEFAULT_LANG);
+    } catch (error) {
+      throw new Txt2PptError("invalid-template", (error as Error).message);
+    }
+    theme = mergeTheme(theme ?? DEFAULT_THEME, template.theme);
+  }
+
+  return {
+    layout: settings.layout ?? (frontMatter.layout ? parseLayout(frontMatter.layout) : DEFAULT_LAYOUT),
+    size: template?.size,
+    revision: frontMatter.revision ?? DEFAULT_REVISION,
+    meta: {
+      title: settings.title ?? frontMatter.title,
+      author: settings.author ?? frontMatter.author,
+      company: settings.company ?? frontMatter.company,
+      subject: settings.subject ?? frontMatter.subject
+    },
+    titleSlide: settings.titleSlide ?? frontMatter.titleSlide,
+    agenda: agendaTitle(settings.agenda ?? frontMatter.agenda),
+    defaultBackground: settings.background ? path.resolve(settingsDir, settings.background) : frontMatter.bg,
+    theme,
+    lang,
+    notes: settings.notes ?? (frontMatter.notes ? parseNotesMode(frontMatter.notes) : undefined),
+    overflow: settings.overflow ?? (frontMatter.overflow ? parseOverflow(frontMatter.overflow) : undefined),
+    pagination: {
+      orphans: settings.orphans ?? lineCountSetting("orphans", frontMatter.orphans),
+      widows: settings.widows ?? lineCountSetting("widows", frontMatter.widows)
+    },
+    baseDir: sourceDir,
+    dependencies
+  };
+}
+
+function lineCountSetting(name: "orphans" | "widows", value: string | undefined): number {
+  return value === undefined ? DEFAULT_PAGINATION[name] : parseLineCount(name, value);
+}
+
+function agendaTitle(agenda: boolean | string | undefined): string | undefined {
+  if (typeof agenda === "string") {
+    return agenda.trim() || DEFAULT_AGENDA_TITLE;
+  }
+  return agenda ? DEFAULT_AGENDA_TITLE : undefined;
+}
 
+async function validatePaths(opts: CliOptions): Promise<{ inPaths: string[]; outPath?: string }> {
+  const inPaths = await resolveInputs(opts.inPaths);
+
+  for (const inPath of inPaths) {
+    try {
+      const stats = await fs.stat(inPath);
+      if (!stats.isFile()) {
+        throw new Error(`${inPath} is not a file`);
+      }
+    } catch (error) {
+      throw new Error(`Failed to read input file: ${(error as Error).message}`);
+    }
+  }
+
+  if (!opts.outPath) {
+    return { inPaths };
+  }
+  const outPath = path.resolve(opts.outPath);
   const outDir = path.dirname(outPath);
   try {
     const dirStats = await fs.stat(outDir);
@@ -796,30 +2757,114 @@ async function validatePaths(opts: CliOptions): Promise<{ inPath: string; outPat
     throw new Error(`Output directory missing: ${(error as Error).message}`);
   }
 
-  return { inPath, outPath };
+  return { inPaths, outPath };
+}
+
+/** Positions and diagnostics refer to the file each line comes from. */
+async function loadDocument(
+  inputs: SourceFile[],
+  baseDir: string,
+  read: (filePath: string) => Promise<string | undefined>,
+  variables: Variables = {}
+): Promise<{ document: ParsedDocument; files: string[] }> {
+  const expanded = await expandSources(inputs, baseDir, read);
+  const { frontMatter } = extractFrontMatter(expanded.text);
+  const source = applyVariables(expanded, deckVariables(frontMatter, variables));
+  const sourceDir = inputs[0].path ? path.dirname(inputs[0].path) : baseDir;
+  return { document: relocateDocument(parseDocument(source.text), source, sourceDir), files: source.files };
+}
+
+/** Reads the `--in` files; `inPath` is the first, whose front matter and directory the deck uses. */
+async function readInputs(cli: CliOptions, dependencies?: Set<string>): Promise<ParsedDocument & { inPath: string }> {
+  if (dependencies) {
+    (await inputWatchPaths(cli.inPaths)).forEach(watched => dependencies.add(watched));
+  }
+  const { inPaths } = await validatePaths(cli);
+  const inputs = await Promise.all(
+    inPaths.map(async inPath => ({ path: inPath, text: await fs.readFile(inPath, "utf8") }))
+  );
+  let variables = cli.vars;
+  if (cli.dataPath) {
+    const dataPath = path.resolve(cli.dataPath);
+    dependencies?.add(dataPath);
+    let text: string;
+    try {
+      text = await fs.readFile(dataPath, "utf8");
+    } catch (error) {
+      throw new Error(`Failed to read data file: ${(error as Error).message}`);
+    }
+    variables = { ...parseDataFile(text, dataPath), ...variables };
+  }
+  const { document, files } = await loadDocument(inputs, path.dirname(inPaths[0]), readSourceFile, variables);
+  files.forEach(file => dependencies?.add(file));
+  return { ...document, inPath: inPaths[0] };
+}
+
+function throwIncludeErrors(diagnostics: Diagnostic[], mainFile: string): void {
+  const problems = diagnostics.filter(({ code }) => code === "missing-include" || code === "include-cycle");
+  if (problems.length > 0) {
+    const lines = problems.map(problem => formatDiagnostic(problem, mainFile));
+    throw new Txt2PptError("invalid-include", lines.join("\n"));
+  }
+}
+
+async function build(cli: CliOptions, dependencies?: Set<string>): Promise<void> {
+  const { frontMatter, slides: specs, diagnostics, inPath } = await readInputs(cli, dependencies);
+  const mainFile = path.relative(process.cwd(), inPath);
+  throwIncludeErrors(diagnostics, mainFile);
+  diagnostics.forEach(diagnostic => console.error(formatDiagnostic(diagnostic, mainFile)));
+  if (specs.length === 0) {
+    throw new Txt2PptError("invalid-input", "No slides detected in the input file.");
+  }
+  const pptx = new PptxGenJS();
+  const options = await resolveRenderOptions(cli, frontMatter, path.dirname(inPath), process.cwd(), dependencies);
+  const layout = cli.format === "pptx" ? undefined : createDeckLayout();
+  const transitions: Array<SlideTransition | undefined> = [];
+  const slideNames: Array<string | undefined> = [];
+  await renderSlides(pptx, specs, { ...options, layoutRecord: layout, transitions, slideNames });
+
+  const outPath = path.resolve(cli.outPath!);
+  if (!layout) {
+    await fs.writeFile(outPath, await writePresentation(pptx, transitions, slideNames));
+  } else if (cli.format === "html") {
+    await fs.writeFile(outPath, await renderHtml(layout, { title: options.meta?.title ?? specs[0].title }), "utf8");
+  } else {
+    const dump = JSON.stringify({ frontMatter, slides: specs, layout }, relativePaths(inPath), 2);
+    await fs.writeFile(outPath, `${dump}\n`, "utf8");
+  }
+}
+
+/** Writes paths relative to the Markdown file so that the dump does not depend on the checkout. */
+function relativePaths(inPath: string): (key: string, value: unknown) => unknown {
+  const sourceDir = path.dirname(inPath);
+  return (key, value) =>
+    (key === "path" || key === "file") && typeof value === "string" && path.isAbsolute(value)
+      ? path.relative(sourceDir, value).split(path.sep).join("/")
+      : value;
+}
+
+/** `--check`: prints every diagnostic and exits non-zero when there is an error. */
+async function check(cli: CliOptions, dependencies?: Set<string>): Promise<void> {
+  const { frontMatter, slides: specs, diagnostics, inPath } = await readInputs(cli, dependencies);
+  const options = await resolveRenderOptions(cli, frontMatter, path.dirname(inPath), process.cwd(), dependencies);
+  await renderSlides(new PptxGenJS(), specs, { ...options, diagnostics });
+
+  const report = createReport(path.relative(process.cwd(), inPath), diagnostics);
+  console.log(cli.json ? JSON.stringify(report, null, 2) : formatReport(report));
+  if (report.errorCount > 0) {
+    process.exitCode = 1;
+  }
 }
 
 async function main(): Promise<void> {
   try {
     const cli = parseArguments(process.argv);
-    const { inPath, outPath } = await validatePaths(cli);
-    const text = await fs.readFile(inPath, "utf8");
-    const specs = parseSlides(text);
-    if (specs.length === 0) {
-      throw new Error("No slides detected in the input file.");
-    }
-    const pptx = new PptxGenJS();
-    await renderSlides(pptx, specs, {
-      layout: cli.layout,
-      revision: DEFAULT_REVISION,
-      meta: {
-        title: cli.title,
-        author: cli.author,
-        company: cli.company
-      },
-      defaultBackground: cli.background
-    });
-    await pptx.writeFile({ fileName: outPath });
+    const run = cli.check ? check : build;
+    if (cli.watch) {
+      watchBuild(dependencies => run(cli, dependencies));
+      return;
+    }
+    await run(cli);
   } catch (error) {
     console.error((error as Error).message);
     process.exitCode = 1;
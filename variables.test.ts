@@ -0,0 +1,72 @@
+import type { ExpandedSource } from "./include";
+import { applyVariables, deckVariables, parseDataFile, parseVariableAssignment } from "./variables";
+
+function source(text: string): ExpandedSource {
+  return { text, lines: text.split("\n").map((_, index) => ({ line: index + 1 })), files: [], diagnostics: [] };
+}
+
+describe("applyVariables", () => {
+  it("fills in placeholders and repeats loops", () => {
+    const text = "# {{title}}\n{{#each items}}\n- {{@number}}. {{name}}\n{{/each}}\n\\{{kept}}";
+    const result = applyVariables(source(text), { title: "Deck", items: [{ name: "a" }, { name: "b" }] });
+    expect(result.text).toBe("# Deck\n- 1. a\n- 2. b\n{{kept}}");
+    expect(result.lines.map(origin => origin.line)).toEqual([1, 3, 3, 5]);
+    expect(result.diagnostics).toEqual([]);
+  });
+
+  it("looks up nested fields, this and outer scopes", () => {
+    const text = "{{#each tags}}\n{{this}} by {{project.owner}} ({{@index}})\n{{/each}}\n{{list}}";
+    const result = applyVariables(source(text), { tags: ["x", "y"], project: { owner: "Ann" }, list: [1, 2] });
+    expect(result.text).toBe("x by Ann (0)\ny by Ann (1)\n1, 2");
+  });
+
+  it("leaves fenced code blocks as written", () => {
+    const text = "{{name}}\n```js\nconst s = `{{name}}`;\n{{#each items}}\n```\n{{name}}";
+    const result = applyVariables(source(text), { name: "World", items: [] });
+    expect(result.text).toBe("World\n```js\nconst s = `{{name}}`;\n{{#each items}}\n```\nWorld");
+    expect(result.diagnostics).toEqual([]);
+  });
+
+  it("reports unknown variables and keeps them", () => {
+    const result = applyVariables(source("Hi {{who}}"), {});
+    expect(result.text).toBe("Hi {{who}}");
+    expect(result.diagnostics).toMatchObject([{ severity: "warning", code: "unknown-variable", line: 1, column: 4 }]);
+  });
+
+  it("reports loops over missing lists and unbalanced loop tags", () => {
+    const result = applyVariables(source("{{#each nope}}\nx\n{{/each}}\n{{/each}}\n{{#each open}}"), { open: [] });
+    expect(result.diagnostics.map(({ code, message, line }) => ({ code, message, line }))).toEqual([
+      { code: "invalid-loop", message: "{{/each}} without a matching {{#each}}", line: 4 },
+      { code: "invalid-loop", message: "{{#each open}} is never closed", line: 5 },
+      { code: "invalid-loop", message: "{{#each nope}}: nope is not defined", line: 1 }
+    ]);
+  });
+});
+
+describe("variable sources", () => {
+  it("parses --var assignments", () => {
+    expect(parseVariableAssignment("week=12")).toEqual(["week", "12"]);
+    expect(parseVariableAssignment("note=a=b")).toEqual(["note", "a=b"]);
+    expect(() => parseVariableAssignment("week")).toThrow("Invalid --var week (expected name=value)");
+  });
+
+  it("reads JSON objects, JSON arrays and CSV rows", () => {
+    expect(parseDataFile('{"week": 3}', "vars.json")).toEqual({ week: 3 });
+    expect(parseDataFile('[{"a": 1}]', "rows.json")).toEqual({ data: [{ a: 1 }] });
+    expect(parseDataFile("name,role\nAnn,lead\nBo\n", "team.csv")).toEqual({
+      data: [
+        { name: "Ann", role: "lead" },
+        { name: "Bo", role: "" }
+      ]
+    });
+    expect(() => parseDataFile("3", "bad.json")).toThrow("must be an object or an array");
+  });
+
+  it("exposes the deck metadata and lets explicit variables win over the front matter", () => {
+    const variables = deckVariables(
+      { title: "Week {{week}}", author: "Ann", vars: { week: 1, team: "core" } },
+      { week: 2 }
+    );
+    expect(variables).toMatchObject({ title: "Week 2", author: "Ann", week: 2, team: "core" });
+  });
+});
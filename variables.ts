@@ -0,0 +1,199 @@
+import { splitCsvLine } from "./chart";
+import { Diagnostic, DiagnosticCode } from "./diagnostics";
+import { FrontMatter } from "./frontMatter";
+import type { ExpandedSource, SourceLine } from "./include";
+
+/** Values for `{{name}}` placeholders; lists can be repeated with `{{#each name}}`. */
+export type Variables = Record<string, unknown>;
+
+type TemplateNode =
+  | { type: "line"; index: number; code: boolean }
+  | { type: "each"; name: string; index: number; body: TemplateNode[] };
+
+const PLACEHOLDER_REGEX = /(\\?)\{\{\s*([^{}]*?)\s*\}\}/g;
+const EACH_REGEX = /^\{\{\s*#each\s+([^{}\s]+)\s*\}\}$/;
+const END_EACH_REGEX = /^\{\{\s*\/each\s*\}\}$/;
+const CODE_FENCE_REGEX = /^```/;
+const VARIABLE_ASSIGNMENT_REGEX = /^([^=\s]+)=(.*)$/s;
+const FRONT_MATTER_VARIABLES: Array<keyof FrontMatter> = ["title", "author", "company", "subject", "revision"];
+
+/** Parses a `--var name=value` argument. */
+export function parseVariableAssignment(value: string): [string, string] {
+  const match = VARIABLE_ASSIGNMENT_REGEX.exec(value);
+  if (!match) {
+    throw new Error(`Invalid --var ${value} (expected name=value)`);
+  }
+  return [match[1], match[2]];
+}
+
+/** A JSON object's keys become variables; a JSON array or CSV rows become the list `data`. */
+export function parseDataFile(text: string, sourceName: string): Variables {
+  if (/\.json$/i.test(sourceName)) {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(text);
+    } catch (error) {
+      throw new Error(`Invalid data in ${sourceName}: ${(error as Error).message}`);
+    }
+    if (Array.isArray(parsed)) {
+      return { data: parsed };
+    }
+    if (typeof parsed !== "object" || parsed === null) {
+      throw new Error(`Data in ${sourceName} must be an object or an array`);
+    }
+    return parsed as Variables;
+  }
+
+  const [header, ...rows] = text
+    .replace(/^\uFEFF/, "")
+    .split(/\r?\n/)
+    .filter(line => line.trim())
+    .map(splitCsvLine);
+  if (!header) {
+    throw new Error(`Data in ${sourceName} needs a header row`);
+  }
+  return { data: rows.map(row => Object.fromEntries(header.map((key, column) => [key, row[column] ?? ""]))) };
+}
+
+/** The front matter's metadata and `vars`, overridden by `variables`; placeholders in the metadata are filled in. */
+export function deckVariables(frontMatter: FrontMatter, variables: Variables): Variables {
+  const scope = { ...frontMatter.vars, ...variables };
+  const metadata: Variables = {};
+  FRONT_MATTER_VARIABLES.forEach(key => {
+    const value = frontMatter[key];
+    if (typeof value === "string") {
+      metadata[key] = interpolate(value, [scope], () => undefined);
+    }
+  });
+  return { ...metadata, ...scope };
+}
+
+/** Unknown placeholders are left as written and reported; fenced code blocks are copied as written. */
+export function applyVariables(source: ExpandedSource, variables: Variables): ExpandedSource {
+  const lines = source.text.split("\n");
+  const result: ExpandedSource = { ...source, text: "", lines: [], diagnostics: [...source.diagnostics] };
+  const output: string[] = [];
+  const reported = new Set<string>();
+
+  const report = (
+    severity: Diagnostic["severity"],
+    code: DiagnosticCode,
+    message: string,
+    origin: SourceLine,
+    column = 1
+  ): void => {
+    const key = `${origin.file}:${origin.line}:${column}:${code}`;
+    if (!reported.has(key)) {
+      reported.add(key);
+      const file = origin.file && { file: origin.file };
+      result.diagnostics.push({ severity, code, message, line: origin.line, column, ...file });
+    }
+  };
+
+  // Group the lines into loops first so that a loop body can be repeated as a whole.
+  const root: TemplateNode[] = [];
+  const open: Array<Extract<TemplateNode, { type: "each" }>> = [];
+  let inCode = false;
+  lines.forEach((line, index) => {
+    const body = open.length > 0 ? open[open.length - 1].body : root;
+    const trimmed = line.trim();
+    const fence = CODE_FENCE_REGEX.test(trimmed);
+    if (fence) {
+      inCode = !inCode;
+    }
+    // The closing fence belongs to the code block as well.
+    const code = inCode || fence;
+    const each = code ? null : EACH_REGEX.exec(trimmed);
+    if (code) {
+      body.push({ type: "line", index, code });
+    } else if (each) {
+      const node: TemplateNode = { type: "each", name: each[1], index, body: [] };
+      body.push(node);
+      open.push(node);
+    } else if (END_EACH_REGEX.test(trimmed)) {
+      if (open.pop() === undefined) {
+        report("error", "invalid-loop", "{{/each}} without a matching {{#each}}", source.lines[index]);
+      }
+    } else {
+      body.push({ type: "line", index, code });
+    }
+  });
+  open.forEach(node =>
+    report("error", "invalid-loop", `{{#each ${node.name}}} is never closed`, source.lines[node.index])
+  );
+
+  const render = (nodes: TemplateNode[], scopes: Variables[]): void => {
+    nodes.forEach(node => {
+      const origin = source.lines[node.index];
+      if (node.type === "line") {
+        const text = node.code
+          ? lines[node.index]
+          : interpolate(lines[node.index], scopes, (name, column) =>
+              report("warning", "unknown-variable", `Unknown variable: ${name}`, origin, column)
+            );
+        text.split("\n").forEach(part => {
+          output.push(part);
+          result.lines.push(origin);
+        });
+        return;
+      }
+      const items = lookup(node.name, scopes);
+      if (!Array.isArray(items)) {
+        const problem = items === undefined ? "is not defined" : "is not a list";
+        report("error", "invalid-loop", `{{#each ${node.name}}}: ${node.name} ${problem}`, origin);
+        return;
+      }
+      items.forEach((item, index) => {
+        const fields = typeof item === "object" && item !== null && !Array.isArray(item) ? (item as Variables) : {};
+        render(node.body, [{ ...fields, this: item, "@index": index, "@number": index + 1 }, ...scopes]);
+      });
+    });
+  };
+  render(root, [variables]);
+
+  result.text = output.join("\n");
+  return result;
+}
+
+function interpolate(line: string, scopes: Variables[], unknown: (name: string, column: number) => void): string {
+  return line.replace(PLACEHOLDER_REGEX, (match, escape: string, name: string, offset: number) => {
+    if (escape) {
+      return match.slice(1);
+    }
+    const value = lookup(name, scopes);
+    if (value === undefined) {
+      unknown(name, offset + 1);
+      return match;
+    }
+    return formatValue(value);
+  });
+}
+
+/** Writes the placeholders in text as `\{{name}}`, which `applyVariables` turns back into `{{name}}`. */
+export function escapePlaceholders(text: string): string {
+  return text.replace(PLACEHOLDER_REGEX, (match, escape: string) => (escape ? match : `\\${match}`));
+}
+
+/** Finds `a.b.c` in the innermost scope that defines `a`. */
+function lookup(name: string, scopes: Variables[]): unknown {
+  const [head, ...rest] = name.split(".");
+  const scope = scopes.find(candidate => Object.prototype.hasOwnProperty.call(candidate, head));
+  let value: unknown = scope?.[head];
+  for (const key of rest) {
+    if (typeof value !== "object" || value === null) {
+      return undefined;
+    }
+    value = (value as Variables)[key];
+  }
+  return value;
+}
+
+function formatValue(value: unknown): string {
+  if (value === null) {
+    return "";
+  }
+  if (Array.isArray(value)) {
+    return value.map(formatValue).join(", ");
+  }
+  return typeof value === "object" ? JSON.stringify(value) : String(value);
+}
@@ -0,0 +1,112 @@
+import { FSWatcher, watch } from "fs";
+import path from "path";
+import { matchesPath } from "./include";
+
+export interface WatchOptions {
+  /** Quiet period after the last change before rebuilding, in milliseconds. */
+  debounceMs?: number;
+  log?: (message: string) => void;
+  error?: (message: string) => void;
+}
+
+const DEFAULT_DEBOUNCE_MS = 200;
+
+/** Directories rather than files are watched, as editors often save by replacing the file. */
+export function watchBuild(
+  build: (dependencies: Set<string>) => Promise<void>,
+  options: WatchOptions = {}
+): () => void {
+  const debounceMs = options.debounceMs ?? DEFAULT_DEBOUNCE_MS;
+  const log = options.log ?? ((message: string) => console.log(message));
+  const error = options.error ?? ((message: string) => console.error(message));
+  const watchers = new Map<string, FSWatcher>();
+  let dependencies = new Set<string>();
+  let timer: NodeJS.Timeout | undefined;
+  let building = false;
+  let pending = false;
+  let closed = false;
+
+  const run = async (): Promise<void> => {
+    if (building) {
+      pending = true;
+      return;
+    }
+    building = true;
+    const started = Date.now();
+    const next = new Set<string>();
+    try {
+      await build(next);
+      dependencies = next;
+      log(`[${timestamp()}] Built in ${Date.now() - started} ms`);
+    } catch (buildError) {
+      // A failed build may stop before reporting every file, so keep watching the previous ones too.
+      dependencies = new Set([...dependencies, ...next]);
+      error(`[${timestamp()}] ${(buildError as Error).message}`);
+    }
+    syncWatchers();
+    building = false;
+    if (pending && !closed) {
+      pending = false;
+      schedule();
+    }
+  };
+
+  const schedule = (): void => {
+    if (timer) {
+      clearTimeout(timer);
+    }
+    timer = setTimeout(() => {
+      timer = undefined;
+      void run();
+    }, debounceMs);
+  };
+
+  const syncWatchers = (): void => {
+    if (closed) {
+      return;
+    }
+    const directories = new Set([...dependencies].map(file => path.dirname(file)));
+    watchers.forEach((watcher, directory) => {
+      if (!directories.has(directory)) {
+        watcher.close();
+        watchers.delete(directory);
+      }
+    });
+    directories.forEach(directory => {
+      if (watchers.has(directory)) {
+        return;
+      }
+      try {
+        const watcher = watch(directory, (_event, filename) => {
+          const file = filename && path.join(directory, filename.toString());
+          if (!file || [...dependencies].some(dependency => matchesPath(dependency, file))) {
+            schedule();
+          }
+        });
+        watcher.on("error", () => {
+          watcher.close();
+          watchers.delete(directory);
+        });
+        watchers.set(directory, watcher);
+      } catch {
+        // The directory does not exist (yet); it is retried after the next build.
+      }
+    });
+  };
+
+  void run();
+  log("Watching for changes. Press Ctrl+C to stop.");
+
+  return () => {
+    closed = true;
+    if (timer) {
+      clearTimeout(timer);
+    }
+    watchers.forEach(watcher => watcher.close());
+    watchers.clear();
+  };
+}
+
+function timestamp(): string {
+  return new Date().toLocaleTimeString();
+}